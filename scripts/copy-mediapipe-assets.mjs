@@ -0,0 +1,37 @@
+/**
+ * Copies MediaPipe runtime assets into public/ so the app can serve them
+ * itself (no internet needed at runtime).
+ *
+ * Runs automatically before `dev` and `build`. Copies every file of the
+ * listed @mediapipe packages except package metadata and type definitions.
+ */
+
+import { cpSync, existsSync, mkdirSync, readdirSync, rmSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const packages = ['hands'];
+const skipped = new Set(['package.json', 'README.md', 'index.d.ts']);
+
+for (const name of packages) {
+  const source = join(root, 'node_modules', '@mediapipe', name);
+  const target = join(root, 'public', 'mediapipe', name);
+
+  if (!existsSync(source)) {
+    console.error(`@mediapipe/${name} is not installed; run npm install first.`);
+    process.exit(1);
+  }
+
+  rmSync(target, { recursive: true, force: true });
+  mkdirSync(target, { recursive: true });
+
+  const files = readdirSync(source).filter((file) => !skipped.has(file));
+  for (const file of files) {
+    cpSync(join(source, file), join(target, file));
+  }
+
+  console.log(
+    `Copied ${files.length} @mediapipe/${name} assets to public/mediapipe/${name}`
+  );
+}
@@ -1,52 +1,207 @@
 'use client';
 
-import { useRef, useEffect } from 'react';
+import { useRef, useEffect, useMemo, useState, type DragEvent } from 'react';
 import Script from 'next/script';
 import * as THREE from 'three';
 import { useMediaPipeScripts } from '@/hooks/useMediaPipeScripts';
+import { useCaptureSettings } from '@/hooks/useCaptureSettings';
 import { useHandTracking } from '@/hooks/useHandTracking';
+import { useHandRecording } from '@/hooks/useHandRecording';
+import { useInferenceMetrics } from '@/hooks/useInferenceMetrics';
+import { useVideoFileInput } from '@/hooks/useVideoFileInput';
 import { useGestureDetection } from '@/hooks/useGestureDetection';
 import { useThreeScene } from '@/hooks/useThreeScene';
 import { useParticleSystem } from '@/hooks/useParticleSystem';
-import { GestureRecognizer } from '@/services/GestureRecognizer';
+import { usePhysicsControl } from '@/hooks/usePhysicsControl';
+import { useCustomGestures } from '@/hooks/useCustomGestures';
+import { usePinchControl } from '@/hooks/usePinchControl';
+import { useHandGestures } from '@/hooks/useHandGestures';
+import { useHandClusters } from '@/hooks/useHandClusters';
+import { useShapeImport } from '@/hooks/useShapeImport';
+import { assignHandRoles } from '@/services/HandRoles';
+import { MediaPipeHandSource } from '@/services/MediaPipeHandSource';
+import { SimulatedHandSource } from '@/services/SimulatedHandSource';
+import type { HandInputKind } from '@/services/HandInputSource';
+import { applyPinchAdjustments } from '@/services/PhysicsControl';
+import { getForceFields } from '@/services/ParticleForces';
+import { shapeRegistry } from '@/services/ShapeRegistry';
 import { StatusDisplay } from '@/components/ui/StatusDisplay';
 import { GestureDisplay } from '@/components/ui/GestureDisplay';
 import { PhysicsDisplay } from '@/components/ui/PhysicsDisplay';
+import { GestureTrainer } from '@/components/ui/GestureTrainer';
+import { PinchDisplay } from '@/components/ui/PinchDisplay';
+import { RecordingControls } from '@/components/ui/RecordingControls';
+import { VideoControls } from '@/components/ui/VideoControls';
+import { CameraSettings } from '@/components/ui/CameraSettings';
+import { ClusterModeToggle } from '@/components/ui/ClusterModeToggle';
+import { ShapePicker } from '@/components/ui/ShapePicker';
 import { CyberpunkBorder } from '@/components/ui/CyberpunkBorder';
 import { VideoFeed } from '@/components/VideoFeed';
 import { ThreeCanvas } from '@/components/ThreeCanvas';
-import { LANDMARK_INDICES, ANIMATION_CONFIG } from '@/config/constants';
+import type {
+  ClusterMode,
+  PaletteName,
+  PinchTarget,
+  RecognitionMode,
+  SimulationMode,
+} from '@/types/shapes';
+import {
+  LANDMARK_INDICES,
+  ANIMATION_CONFIG,
+  CUSTOM_GESTURE_CONFIG,
+  PINCH_CONFIG,
+  CLUSTER_CONFIG,
+  FORCE_CONFIG,
+} from '@/config/constants';
 
 export default function ParticleHandTracker() {
   const containerRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
 
-  // Load MediaPipe scripts
-  const { handsReady, cameraReady, onHandsLoad, onCameraLoad } = useMediaPipeScripts();
+  // Load MediaPipe scripts (self-hosted, CDN fallback)
+  const scripts = useMediaPipeScripts();
+  const { handsReady, handsBaseUrl } = scripts;
+  const scriptFailure = scripts.hands.status === 'error' ? scripts.hands : null;
+
+  // Hand input: a loaded recording takes precedence over the live camera/video/simulator
+  const [liveInput, setLiveInput] = useState<Exclude<HandInputKind, 'recording'>>('camera');
+  const cameraSource = useMemo(
+    () => (handsBaseUrl ? new MediaPipeHandSource(videoRef, handsBaseUrl) : null),
+    [handsBaseUrl]
+  );
+  const simulatorSource = useMemo(() => new SimulatedHandSource(), []);
+  const videoFile = useVideoFileInput(videoRef, handsBaseUrl);
+  const recorder = useHandRecording();
+  const liveSources = {
+    camera: cameraSource,
+    video: videoFile.source,
+    simulator: simulatorSource,
+  };
+  const source = recorder.source ?? liveSources[liveInput];
+  const handleVideoFile = (file: File): void => {
+    videoFile.load(file);
+    setLiveInput('video');
+  };
 
   // Initialize hand tracking
-  const { landmarks, status } = useHandTracking(videoRef, handsReady, cameraReady);
+  const { hands, timestamp, aspect, status, presence, handPresence } = useHandTracking(
+    source,
+    { onFrame: recorder.capture }
+  );
+
+  // Camera and detection settings; re-list cameras on status changes so device
+  // names show up once permission is granted
+  const captureSettings = useCaptureSettings(status);
+  const { capture, detection } = captureSettings.settings;
+  useEffect(() => {
+    cameraSource?.setCapture(capture);
+  }, [cameraSource, capture]);
+  useEffect(() => {
+    simulatorSource.setMirrored(capture.mirror);
+  }, [simulatorSource, capture.mirror]);
+  useEffect(() => {
+    cameraSource?.setDetectionOptions(detection);
+    videoFile.source?.setDetectionOptions(detection);
+  }, [cameraSource, videoFile.source, detection]);
+  const inference = useInferenceMetrics(source);
+
+  // Split hands into command (shape) and physics (rotation/spread/speed) roles
+  const roles = useMemo(() => assignHandRoles(hands), [hands]);
+  const commandPresence =
+    handPresence.find((p) => p.label === roles.command?.label)?.state ?? 'gone';
+
+  // User-trained gestures, recorded from the command hand
+  const commandLandmarks = roles.command?.landmarks ?? null;
+  const customGestures = useCustomGestures(commandLandmarks, aspect);
+  const [recognitionMode, setRecognitionMode] = useState<RecognitionMode>(
+    CUSTOM_GESTURE_CONFIG.DEFAULT_MODE
+  );
+
+  // Detect gestures from the command hand
+  const {
+    shape,
+    color,
+    displayName,
+    confidence,
+    candidate,
+    lowConfidence,
+    transition,
+    motion,
+    selectShape,
+  } = useGestureDetection(commandLandmarks, {
+    customGestures: customGestures.gestures,
+    recognitionMode,
+    mirrored: capture.mirror,
+    timestamp,
+    aspect,
+  });
+  const holdMs =
+    transition && transition.type !== 'gestureEnd' ? transition.duration : undefined;
+
+  // A palette picked at runtime recolors every shape until it is cleared
+  const [palette, setPalette] = useState<PaletteName | null>(null);
+
+  // Imported models and images become shapes and are shown right away
+  const shapeImport = useShapeImport(selectShape);
+  const handleDrop = (event: DragEvent<HTMLDivElement>): void => {
+    event.preventDefault();
+    const file = event.dataTransfer.files[0];
+    if (file) shapeImport.importFile(file);
+  };
+
+  // Derive physics parameters from the physics hand, with pinch drags on top
+  const physicsLandmarks = roles.physics?.landmarks ?? null;
+  const handPhysics = usePhysicsControl(physicsLandmarks, aspect);
+  const [pinchTarget, setPinchTarget] = useState<PinchTarget>(PINCH_CONFIG.DEFAULT_TARGET);
+  const { pinch, adjustments, resetAdjustments } = usePinchControl(
+    physicsLandmarks,
+    pinchTarget,
+    aspect
+  );
+  const physics = useMemo(
+    () => applyPinchAdjustments(handPhysics, adjustments),
+    [handPhysics, adjustments]
+  );
+
+  // With several hands, each hand can own a cluster with its own gesture shape
+  const [clusterMode, setClusterMode] = useState<ClusterMode>(CLUSTER_CONFIG.DEFAULT_MODE);
+  const [simulation, setSimulation] = useState<SimulationMode>(FORCE_CONFIG.DEFAULT_MODE);
+  const handGestures = useHandGestures(
+    hands,
+    clusterMode === 'per-hand' || simulation === 'forces',
+    aspect
+  );
+  const clusters = useHandClusters(hands, {
+    mode: clusterMode,
+    command: roles.command,
+    shape,
+    color,
+    gestures: handGestures,
+    mirrored: capture.mirror,
+  });
 
-  // Detect gestures from landmarks
-  const { shape, displayName } = useGestureDetection(landmarks);
+  // In force mode every fingertip attracts (fist) or repels particles
+  const fields = useMemo(
+    () => (simulation === 'forces' ? getForceFields(hands, handGestures, capture.mirror) : []),
+    [simulation, hands, handGestures, capture.mirror]
+  );
+  const clustered = clusters.length > 1;
 
   // Initialize Three.js scene with custom animation callback
+  const rotation = shapeRegistry.getRotation(shape);
   const { scene } = useThreeScene(containerRef, (sceneInstance) => {
     // Custom animation logic for particle rotation based on hand position
-    if (landmarks && particlesRef.current) {
-      const recognizer = new GestureRecognizer(landmarks);
-      const handCenter = recognizer.getHandCenter();
-
-      if (shape === 'sphere') {
-        // Hand controls rotation for sphere
-        particlesRef.current.rotation.y = (handCenter.x - 0.5) * ANIMATION_CONFIG.HAND_ROTATION_MULTIPLIER;
-        particlesRef.current.rotation.x = (handCenter.y - 0.5) * ANIMATION_CONFIG.HAND_ROTATION_MULTIPLIER;
-      } else if (shape === 'scatter') {
+    if (roles.physics && particlesRef.current) {
+      if (!clustered && (rotation === 'hand' || (roles.twoHanded && rotation !== 'spin'))) {
+        // Physics hand controls rotation (always with a dedicated physics hand)
+        particlesRef.current.rotation.y = physics.rotationY;
+        particlesRef.current.rotation.x = physics.rotationX;
+      } else if (!clustered && rotation === 'spin') {
         // Continuous rotation for scatter effect
         particlesRef.current.rotation.y += ANIMATION_CONFIG.SCATTER_ROTATION_INCREMENT;
         particlesRef.current.rotation.x += ANIMATION_CONFIG.SCATTER_ROTATION_INCREMENT;
       } else {
-        // Smoothly return to neutral rotation for other shapes
+        // Smoothly return to neutral rotation for other shapes and per-hand clusters
         particlesRef.current.rotation.y = THREE.MathUtils.lerp(
           particlesRef.current.rotation.y,
           0,
@@ -62,7 +217,15 @@ export default function ParticleHandTracker() {
   });
 
   // Initialize particle system
-  const { particles, currentShape, particleCount } = useParticleSystem(scene, shape);
+  const { particles, currentShape, particleCount } = useParticleSystem(scene, shape, {
+    physics,
+    color,
+    presence,
+    clusters,
+    simulation,
+    fields,
+    palette,
+  });
   const particlesRef = useRef<THREE.Points | null>(null);
 
   // Update particles ref when particles change
@@ -72,20 +235,22 @@ export default function ParticleHandTracker() {
 
   return (
     <>
-      {/* Load MediaPipe scripts */}
+      {/* Load MediaPipe script */}
       <Script
-        src="https://cdn.jsdelivr.net/npm/@mediapipe/camera_utils/camera_utils.js"
-        onLoad={onCameraLoad}
-      />
-      <Script
-        src="https://cdn.jsdelivr.net/npm/@mediapipe/hands/hands.js"
-        onLoad={onHandsLoad}
+        key={scripts.handsSrc}
+        src={scripts.handsSrc}
+        onLoad={scripts.onHandsLoad}
+        onError={scripts.onHandsError}
       />
 
       {/* Main container */}
-      <div className="relative w-full h-screen overflow-hidden">
+      <div
+        className="relative w-full h-screen overflow-hidden"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={handleDrop}
+      >
         {/* Video feed with overlay */}
-        <VideoFeed videoRef={videoRef} isActive={cameraReady} />
+        <VideoFeed videoRef={videoRef} isActive={handsReady} mirrored={capture.mirror} />
 
         {/* Three.js canvas container */}
         <ThreeCanvas containerRef={containerRef} />
@@ -95,7 +260,16 @@ export default function ParticleHandTracker() {
 
         {/* UI Overlays */}
         <div className="absolute top-10 left-10 font-mono text-cyan-400 select-none z-50">
-          <StatusDisplay label="SYSTEM STATUS" value="ONLINE" />
+          <StatusDisplay
+            label="SYSTEM STATUS"
+            value={scriptFailure ? 'DEGRADED' : 'ONLINE'}
+            subtitle={
+              scriptFailure
+                ? scriptFailure.failures.join(' | ')
+                : `MEDIAPIPE: ${scripts.hands.source.toUpperCase()}`
+            }
+            color={scriptFailure ? 'pink' : 'cyan'}
+          />
           <div className="mt-4">
             <StatusDisplay
               label="PARTICLES"
@@ -103,14 +277,128 @@ export default function ParticleHandTracker() {
               subtitle="FPS: 60 | SECTOR 7"
             />
           </div>
+          {inference && (
+            <div className="mt-4">
+              <StatusDisplay
+                label="INFERENCE"
+                value={`${inference.mode === 'worker' ? 'WORKER' : 'MAIN'} ${Math.round(
+                  inference.latencyMs
+                )}MS`}
+                subtitle={`MODEL: ${Math.round(inference.inferenceMs)}MS | DROPPED: ${
+                  inference.dropped
+                }/${inference.processed + inference.dropped}`}
+                color={inference.mode === 'worker' ? 'cyan' : 'pink'}
+              />
+            </div>
+          )}
+          <div className="mt-4">
+            <RecordingControls
+              liveInput={liveInput}
+              onLiveInputChange={setLiveInput}
+              onVideoFile={handleVideoFile}
+              recording={recorder.recording}
+              playback={recorder.playback}
+              onRecord={recorder.startRecording}
+              onStop={recorder.stopRecording}
+              onPlay={recorder.play}
+              onPause={recorder.pause}
+              onSeek={recorder.seek}
+              onLoopChange={recorder.setLoop}
+              onEject={recorder.eject}
+              onExport={recorder.exportJson}
+              onImport={recorder.importJson}
+            />
+          </div>
+          <div className="mt-4">
+            <CameraSettings
+              settings={captureSettings.settings}
+              cameras={captureSettings.cameras}
+              onCaptureChange={captureSettings.updateCapture}
+              onDetectionChange={captureSettings.updateDetection}
+              onReset={captureSettings.reset}
+            />
+          </div>
+          <div className="mt-4">
+            <ShapePicker
+              shape={shape}
+              onSelect={selectShape}
+              onImport={shapeImport.importFile}
+              message={shapeImport.message}
+              imageOptions={shapeImport.imageOptions}
+              onImageOptionsChange={shapeImport.updateImageOptions}
+              palette={palette}
+              onPaletteChange={setPalette}
+            />
+          </div>
+          <div className="mt-4">
+            <ClusterModeToggle
+              mode={clusterMode}
+              clusterCount={clusters.length}
+              onModeChange={setClusterMode}
+            />
+          </div>
+          {liveInput === 'video' &&
+            !recorder.source &&
+            videoFile.source &&
+            videoFile.playback && (
+              <div className="mt-4">
+                <VideoControls
+                  fileName={videoFile.source.file.name}
+                  playback={videoFile.playback}
+                  onPlay={videoFile.play}
+                  onPause={videoFile.pause}
+                  onSeek={videoFile.seek}
+                  onStep={videoFile.step}
+                  onLoopChange={videoFile.setLoop}
+                />
+              </div>
+            )}
+        </div>
+
+        <div className="absolute top-10 right-10 font-mono select-none z-50">
+          <GestureTrainer
+            gestures={customGestures.gestures}
+            training={customGestures.training}
+            mode={recognitionMode}
+            onModeChange={setRecognitionMode}
+            onTrain={customGestures.startTraining}
+            onCancel={customGestures.cancelTraining}
+            onRemove={customGestures.removeGesture}
+            onExport={customGestures.exportJson}
+            onImport={customGestures.importJson}
+          />
         </div>
 
         <div className="absolute bottom-10 left-10 font-mono select-none z-50">
-          <GestureDisplay gesture={displayName} />
+          <GestureDisplay
+            gesture={displayName}
+            confidence={confidence}
+            rejected={lowConfidence ? candidate : null}
+            holdMs={holdMs}
+            hand={roles.command}
+            presence={commandPresence}
+            motion={motion}
+          />
         </div>
 
         <div className="absolute bottom-10 right-10 font-mono text-right select-none z-50">
-          <PhysicsDisplay mode={currentShape} />
+          <div className="mb-4">
+            <PinchDisplay
+              pinch={pinch}
+              target={pinchTarget}
+              adjustments={adjustments}
+              onTargetChange={setPinchTarget}
+              onReset={resetAdjustments}
+            />
+          </div>
+          <PhysicsDisplay
+            mode={currentShape}
+            physics={physics}
+            hand={roles.physics}
+            simulation={simulation}
+            onSimulationChange={setSimulation}
+            fields={fields}
+          />
         </div>
       </div>
     </>
@@ -1,7 +1,7 @@
 /**
  * Video Feed Component
  *
- * Displays the webcam video feed with mirroring and overlay effects.
+ * Displays the input video (webcam or video file) with mirroring and overlay effects.
  */
 
 import React from 'react';
@@ -14,29 +14,33 @@ interface VideoFeedProps {
   videoRef: React.RefObject<HTMLVideoElement | null>;
   /** Whether the camera is active */
   isActive: boolean;
+  /** Show the feed mirrored, like a selfie view (default: true) */
+  mirrored?: boolean;
 }
 
 /**
  * VideoFeed component
  *
- * Renders the video element for webcam feed with mirror effect and dark overlay.
+ * Renders the video element for webcam feed with optional mirror effect and dark overlay.
  *
  * @example
  * ```tsx
  * const videoRef = useRef<HTMLVideoElement>(null);
- * <VideoFeed videoRef={videoRef} isActive={cameraReady} />
+ * <VideoFeed videoRef={videoRef} isActive={handsReady} mirrored={capture.mirror} />
  * ```
  */
-export function VideoFeed({ videoRef, isActive }: VideoFeedProps) {
+export function VideoFeed({ videoRef, isActive, mirrored = true }: VideoFeedProps) {
   return (
     <>
       {/* Webcam video feed */}
       <video
         ref={videoRef}
-        className="absolute top-0 left-0 w-full h-full object-cover transform scale-x-[-1] z-10"
+        className={`absolute top-0 left-0 w-full h-full object-cover z-10 ${
+          mirrored ? 'transform scale-x-[-1]' : ''
+        }`}
         playsInline
         muted
-        aria-label="Webcam feed for hand tracking"
+        aria-label="Video feed for hand tracking"
       />
 
       {/* Dark overlay for particle contrast */}
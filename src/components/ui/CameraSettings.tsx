@@ -0,0 +1,182 @@
+/**
+ * Camera Settings Component
+ *
+ * Collapsible panel for choosing the camera, its capture format and mirroring,
+ * and the MediaPipe model complexity and confidence thresholds.
+ */
+
+import React, { useState } from 'react';
+import type { CameraDevice } from '@/services/CameraDevices';
+import type {
+  CaptureSettings,
+  DetectionSettings,
+  TrackingSettings,
+} from '@/services/CaptureSettingsStore';
+import { CAMERA_CONFIG } from '@/config/constants';
+
+/**
+ * Component props
+ */
+interface CameraSettingsProps {
+  /** Current settings */
+  settings: TrackingSettings;
+  /** Cameras to choose from */
+  cameras: CameraDevice[];
+  onCaptureChange: (changes: Partial<CaptureSettings>) => void;
+  onDetectionChange: (changes: Partial<DetectionSettings>) => void;
+  /** Restores the default settings */
+  onReset: () => void;
+}
+
+const MODEL_LABELS: Record<DetectionSettings['modelComplexity'], string> = {
+  0: 'LITE',
+  1: 'FULL',
+  2: 'HEAVY',
+};
+
+const selectClass = 'bg-black/60 border border-cyan-400/40 text-white';
+
+/**
+ * CameraSettings component
+ *
+ * Collapsed to a header line by default. Changes apply immediately: a new
+ * camera, resolution or frame rate reopens the stream, everything else takes
+ * effect on the next frame.
+ *
+ * @example
+ * ```tsx
+ * <CameraSettings settings={settings} cameras={cameras} onCaptureChange={updateCapture} ... />
+ * ```
+ */
+export function CameraSettings({
+  settings,
+  cameras,
+  onCaptureChange,
+  onDetectionChange,
+  onReset,
+}: CameraSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const { capture, detection } = settings;
+
+  return (
+    <div className="border-l-2 border-cyan-400 pl-2 text-xs w-64 pointer-events-auto">
+      <button onClick={() => setOpen(!open)} className="text-cyan-400/70">
+        CAMERA {open ? '▾' : '▸'}
+      </button>
+
+      {open && (
+        <div className="mt-1 space-y-1 text-cyan-400">
+          <select
+            value={capture.deviceId ?? ''}
+            onChange={(e) => onCaptureChange({ deviceId: e.target.value || null })}
+            className={`${selectClass} w-full`}
+            aria-label="Camera"
+          >
+            <option value="">DEFAULT CAMERA</option>
+            {cameras.map((camera) => (
+              <option key={camera.deviceId} value={camera.deviceId}>
+                {camera.label}
+              </option>
+            ))}
+          </select>
+
+          <div className="flex gap-2">
+            <select
+              value={`${capture.width}x${capture.height}`}
+              onChange={(e) => {
+                const [width, height] = e.target.value.split('x').map(Number);
+                onCaptureChange({ width, height });
+              }}
+              className={selectClass}
+              aria-label="Resolution"
+            >
+              {CAMERA_CONFIG.RESOLUTIONS.map(([width, height]) => (
+                <option key={width} value={`${width}x${height}`}>
+                  {width}×{height}
+                </option>
+              ))}
+            </select>
+            <select
+              value={capture.frameRate}
+              onChange={(e) => onCaptureChange({ frameRate: Number(e.target.value) })}
+              className={selectClass}
+              aria-label="Frame rate"
+            >
+              {CAMERA_CONFIG.FRAME_RATES.map((fps) => (
+                <option key={fps} value={fps}>
+                  {fps} FPS
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={capture.mirror}
+                onChange={(e) => onCaptureChange({ mirror: e.target.checked })}
+              />
+              MIRROR
+            </label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="text-cyan-400/50">MODEL</span>
+            {([0, 1, 2] as const).map((complexity) => (
+              <button
+                key={complexity}
+                onClick={() => onDetectionChange({ modelComplexity: complexity })}
+                className={`px-1 border ${
+                  complexity === detection.modelComplexity
+                    ? 'border-cyan-400 text-cyan-400'
+                    : 'border-cyan-400/30 text-cyan-400/50'
+                }`}
+              >
+                {MODEL_LABELS[complexity]}
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2">
+            <span className="w-14 text-cyan-400/50">DETECT</span>
+            <input
+              type="range"
+              min={0.1}
+              max={0.9}
+              step={0.05}
+              value={detection.minDetectionConfidence}
+              onChange={(e) =>
+                onDetectionChange({ minDetectionConfidence: Number(e.target.value) })
+              }
+              className="flex-1 accent-pink-500"
+            />
+            <span className="text-white/80">
+              {detection.minDetectionConfidence.toFixed(2)}
+            </span>
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="w-14 text-cyan-400/50">TRACK</span>
+            <input
+              type="range"
+              min={0.1}
+              max={0.9}
+              step={0.05}
+              value={detection.minTrackingConfidence}
+              onChange={(e) =>
+                onDetectionChange({ minTrackingConfidence: Number(e.target.value) })
+              }
+              className="flex-1 accent-pink-500"
+            />
+            <span className="text-white/80">
+              {detection.minTrackingConfidence.toFixed(2)}
+            </span>
+          </label>
+
+          <button onClick={onReset} className="text-pink-500">
+            RESET
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CameraSettings;
@@ -0,0 +1,60 @@
+/**
+ * Cluster Mode Toggle Component
+ *
+ * Switches between one shared particle formation and one cluster per hand.
+ */
+
+import React from 'react';
+import type { ClusterMode } from '@/types/shapes';
+
+/**
+ * Component props
+ */
+interface ClusterModeToggleProps {
+  /** Current mode */
+  mode: ClusterMode;
+  /** Number of clusters currently shown (0 while the formation is shared) */
+  clusterCount: number;
+  onModeChange: (mode: ClusterMode) => void;
+}
+
+const MODES: ClusterMode[] = ['single', 'per-hand'];
+
+/**
+ * ClusterModeToggle component
+ *
+ * @example
+ * ```tsx
+ * <ClusterModeToggle mode={mode} clusterCount={clusters.length} onModeChange={setMode} />
+ * ```
+ */
+export function ClusterModeToggle({
+  mode,
+  clusterCount,
+  onModeChange,
+}: ClusterModeToggleProps) {
+  return (
+    <div className="border-l-2 border-cyan-400 pl-2 text-xs pointer-events-auto">
+      <div className="text-cyan-400/70">
+        CLUSTERS [{clusterCount > 1 ? `${clusterCount} ACTIVE` : 'MERGED'}]
+      </div>
+      <div className="flex gap-1 mt-1">
+        {MODES.map((m) => (
+          <button
+            key={m}
+            onClick={() => onModeChange(m)}
+            className={`px-1 uppercase border ${
+              m === mode
+                ? 'border-cyan-400 text-cyan-400'
+                : 'border-cyan-400/30 text-cyan-400/50'
+            }`}
+          >
+            {m === 'per-hand' ? 'PER HAND' : m}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ClusterModeToggle;
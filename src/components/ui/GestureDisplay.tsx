@@ -5,6 +5,9 @@
  */
 
 import React from 'react';
+import type { HandPresenceState, TrackedHand } from '@/types/mediapipe';
+import type { GestureResult, MotionGestureResult } from '@/types/shapes';
+import { HAND_ROLE_CONFIG } from '@/config/constants';
 
 /**
  * Component props
@@ -12,6 +15,18 @@ import React from 'react';
 interface GestureDisplayProps {
   /** The current gesture name to display */
   gesture: string;
+  /** Confidence (0-1) of the current gesture */
+  confidence?: number;
+  /** Latest detection rejected for low confidence, or null if accepted */
+  rejected?: GestureResult | null;
+  /** How long the current gesture has been held, in milliseconds */
+  holdMs?: number;
+  /** The command hand, or null if not in view */
+  hand?: TrackedHand | null;
+  /** Presence of the command hand; 'lost' means its last pose is being held */
+  presence?: HandPresenceState;
+  /** Most recent motion gesture, or null if none yet */
+  motion?: MotionGestureResult | null;
 }
 
 /**
@@ -21,20 +36,54 @@ interface GestureDisplayProps {
  *
  * @example
  * ```tsx
- * <GestureDisplay gesture="BLAST!" />
+ * <GestureDisplay gesture="BLAST!" confidence={0.82} hand={roles.command} />
  * ```
  */
-export function GestureDisplay({ gesture }: GestureDisplayProps) {
+export function GestureDisplay({
+  gesture,
+  confidence,
+  rejected = null,
+  holdMs,
+  hand = null,
+  presence = hand ? 'detected' : 'gone',
+  motion = null,
+}: GestureDisplayProps) {
   return (
     <div className="border-l-2 border-cyan-400 pl-2">
-      <div className="text-xs text-cyan-400/70">LEFT HAND [COMMAND]</div>
+      <div className="text-xs text-cyan-400/70">
+        {HAND_ROLE_CONFIG.COMMAND_HAND.toUpperCase()} HAND [COMMAND]
+      </div>
       <div className="flex items-center gap-2">
         <span className="text-pink-500 font-bold">CMD:</span>
         <span className="text-xl text-white font-bold tracking-widest uppercase">
           {gesture || 'STANDBY'}
         </span>
+        {confidence !== undefined && (
+          <span className="text-xs text-cyan-400/70">{Math.round(confidence * 100)}%</span>
+        )}
+        {holdMs !== undefined && (
+          <span className="text-xs text-cyan-400/50">HOLD {(holdMs / 1000).toFixed(1)}S</span>
+        )}
+      </div>
+      {rejected && (
+        <div className="text-xs text-yellow-400/80 uppercase">
+          LOW CONFIDENCE: {rejected.name} {Math.round(rejected.confidence * 100)}%
+        </div>
+      )}
+      {motion && (
+        <div className="text-xs text-pink-500/70 uppercase">
+          MOTION: {motion.name} | {motion.velocity.toFixed(1)}/S |{' '}
+          {Math.round(motion.confidence * 100)}%
+        </div>
+      )}
+      <div className="text-xs text-cyan-400/50">
+        {hand
+          ? `GESTURE CONTROL | ${hand.label.toUpperCase()} ${Math.round(hand.score * 100)}%`
+          : 'GESTURE CONTROL | NO HAND'}
       </div>
-      <div className="text-xs text-cyan-400/50">GESTURE CONTROL</div>
+      {presence === 'lost' && (
+        <div className="text-xs text-pink-500">SIGNAL LOST | HOLDING POSE</div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,188 @@
+/**
+ * Gesture Trainer Component
+ *
+ * Panel for recording, managing and sharing user-trained gestures.
+ */
+
+import React, { useRef, useState } from 'react';
+import type { CustomGesture, RecognitionMode, ShapeType } from '@/types/shapes';
+import type { TrainingState } from '@/hooks/useCustomGestures';
+import type { CustomGestureImport } from '@/services/CustomGestureStore';
+import { useShapes } from '@/hooks/useShapes';
+
+/**
+ * Component props
+ */
+interface GestureTrainerProps {
+  /** Stored custom gestures */
+  gestures: CustomGesture[];
+  /** Current training session, or null if idle */
+  training: TrainingState | null;
+  /** Active recognition mode */
+  mode: RecognitionMode;
+  /** Called when the user picks a different recognition mode */
+  onModeChange: (mode: RecognitionMode) => void;
+  /** Starts training; returns an error message or null */
+  onTrain: (name: string, shape: ShapeType) => string | null;
+  /** Aborts training */
+  onCancel: () => void;
+  /** Deletes a gesture */
+  onRemove: (name: string) => void;
+  /** Serializes gestures to JSON */
+  onExport: () => string;
+  /** Merges gestures from JSON; throws on invalid input */
+  onImport: (json: string) => CustomGestureImport;
+}
+
+const MODES: RecognitionMode[] = ['rules', 'combined', 'custom'];
+
+/**
+ * GestureTrainer component
+ *
+ * Lets the user name a pose, pick its target shape, record it, and
+ * export/import the training data as JSON.
+ *
+ * @example
+ * ```tsx
+ * <GestureTrainer gestures={gestures} training={training} mode={mode} ... />
+ * ```
+ */
+export function GestureTrainer({
+  gestures,
+  training,
+  mode,
+  onModeChange,
+  onTrain,
+  onCancel,
+  onRemove,
+  onExport,
+  onImport,
+}: GestureTrainerProps) {
+  const [name, setName] = useState('');
+  const [shape, setShape] = useState<ShapeType>('sphere');
+  const shapes = useShapes();
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleTrain = (): void => {
+    const error = onTrain(name, shape);
+    setMessage(error ?? 'Hold the pose...');
+    if (!error) setName('');
+  };
+
+  const handleExport = (): void => {
+    const blob = new Blob([onExport()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'custom-gestures.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { imported, skipped } = onImport(await file.text());
+      setMessage(
+        `Imported ${imported} gesture${imported === 1 ? '' : 's'}` +
+          (skipped.length > 0 ? `, skipped built-in ${skipped.join(', ')}` : '')
+      );
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  return (
+    <div className="border-r-2 border-pink-500 pr-2 text-right text-xs w-64 pointer-events-auto">
+      <div className="text-pink-500/70">CUSTOM GESTURES [TRAINING]</div>
+
+      <div className="flex justify-end gap-1 mt-1">
+        {MODES.map((m) => (
+          <button
+            key={m}
+            onClick={() => onModeChange(m)}
+            className={`px-1 uppercase border ${
+              m === mode ? 'border-cyan-400 text-cyan-400' : 'border-cyan-400/30 text-cyan-400/50'
+            }`}
+          >
+            {m}
+          </button>
+        ))}
+      </div>
+
+      {training ? (
+        <div className="mt-2 text-white">
+          <div className="uppercase">
+            {training.phase === 'countdown' ? 'GET READY' : 'RECORDING'}: {training.name}
+          </div>
+          <div className="h-1 bg-cyan-400/20 mt-1">
+            <div
+              className="h-1 bg-pink-500"
+              style={{ width: `${Math.round(training.progress * 100)}%` }}
+            />
+          </div>
+          <button onClick={onCancel} className="mt-1 text-pink-500 uppercase">
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div className="flex justify-end gap-1 mt-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="NAME"
+            className="w-20 bg-black/60 border border-cyan-400/40 text-white px-1"
+          />
+          <select
+            value={shape}
+            onChange={(e) => setShape(e.target.value as ShapeType)}
+            className="bg-black/60 border border-cyan-400/40 text-white"
+          >
+            {shapes.map((s) => (
+              <option key={s.name} value={s.name}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+          <button onClick={handleTrain} className="border border-pink-500 text-pink-500 px-1">
+            REC
+          </button>
+        </div>
+      )}
+
+      {message && <div className="mt-1 text-cyan-400/70">{message}</div>}
+
+      <ul className="mt-2 text-white/80">
+        {gestures.map((gesture) => (
+          <li key={gesture.name} className="flex justify-end gap-2">
+            <span className="uppercase">{gesture.name}</span>
+            <span className="text-cyan-400/50">→ {gesture.shape}</span>
+            <button onClick={() => onRemove(gesture.name)} className="text-pink-500">
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex justify-end gap-2 mt-2 text-cyan-400">
+        <button onClick={handleExport} disabled={gestures.length === 0}>
+          EXPORT
+        </button>
+        <button onClick={() => fileInputRef.current?.click()}>IMPORT</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+    </div>
+  );
+}
+
+export default GestureTrainer;
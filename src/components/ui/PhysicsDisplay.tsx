@@ -5,6 +5,9 @@
  */
 
 import React from 'react';
+import type { TrackedHand } from '@/types/mediapipe';
+import type { ForceField, PhysicsParams, SimulationMode } from '@/types/shapes';
+import { HAND_ROLE_CONFIG } from '@/config/constants';
 
 /**
  * Component props
@@ -12,24 +15,49 @@ import React from 'react';
 interface PhysicsDisplayProps {
   /** The current particle mode/shape */
   mode: string;
+  /** Parameters driven by the physics hand */
+  physics?: PhysicsParams;
+  /** The physics hand, or null if not in view */
+  hand?: TrackedHand | null;
+  /** How particles move: eased morphing or force simulation */
+  simulation?: SimulationMode;
+  /** Shows MORPH/FORCES buttons when provided */
+  onSimulationChange?: (simulation: SimulationMode) => void;
+  /** Fingertip fields acting in force mode */
+  fields?: ForceField[];
 }
 
+const SIMULATIONS: SimulationMode[] = ['morph', 'forces'];
+
 /**
  * PhysicsDisplay component
  *
- * Shows the current particle physics mode (scatter vs morph) in a styled panel.
+ * Shows the current particle physics mode (scatter, morph or forces) and the
+ * parameters driven by the physics hand in a styled panel. In force mode it
+ * also lists the fingertip fields by polarity.
  *
  * @example
  * ```tsx
- * <PhysicsDisplay mode="scatter" />
+ * <PhysicsDisplay mode="scatter" physics={physics} hand={roles.physics} simulation="forces" />
  * ```
  */
-export function PhysicsDisplay({ mode }: PhysicsDisplayProps) {
-  const displayMode = mode === 'scatter' ? 'SCATTER' : 'MORPH';
+export function PhysicsDisplay({
+  mode,
+  physics,
+  hand = null,
+  simulation = 'morph',
+  onSimulationChange,
+  fields = [],
+}: PhysicsDisplayProps) {
+  const displayMode =
+    simulation === 'forces' ? 'FORCES' : mode === 'scatter' ? 'SCATTER' : 'MORPH';
+  const attracting = fields.filter((field) => field.polarity === 'attract').length;
 
   return (
     <div className="border-r-2 border-pink-500 pr-2 text-right">
-      <div className="text-xs text-pink-500/70">RIGHT HAND [PHYSICS]</div>
+      <div className="text-xs text-pink-500/70">
+        {HAND_ROLE_CONFIG.PHYSICS_HAND.toUpperCase()} HAND [PHYSICS]
+      </div>
       <div className="flex flex-col items-end">
         <div className="flex items-center gap-2">
           <span className="text-cyan-400 font-bold">MODE:</span>
@@ -37,7 +65,36 @@ export function PhysicsDisplay({ mode }: PhysicsDisplayProps) {
             {displayMode}
           </span>
         </div>
-        <div className="text-xs text-pink-500/50">MIRROR FIELD</div>
+        {physics && (
+          <div className="text-xs text-cyan-400/70">
+            SPREAD {physics.spread.toFixed(2)} | SPEED {physics.speed.toFixed(2)}x
+          </div>
+        )}
+        {simulation === 'forces' && (
+          <div className="text-xs text-cyan-400/70">
+            FIELDS: {attracting} ATTRACT | {fields.length - attracting} REPEL
+          </div>
+        )}
+        {onSimulationChange && (
+          <div className="flex gap-1 mt-1 text-xs pointer-events-auto">
+            {SIMULATIONS.map((s) => (
+              <button
+                key={s}
+                onClick={() => onSimulationChange(s)}
+                className={`px-1 uppercase border ${
+                  s === simulation
+                    ? 'border-pink-500 text-pink-500'
+                    : 'border-pink-500/30 text-pink-500/50'
+                }`}
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="text-xs text-pink-500/50">
+          {hand ? 'MIRROR FIELD' : 'MIRROR FIELD | NO HAND'}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,76 @@
+/**
+ * Pinch Display Component
+ *
+ * Shows pinch state and lets the user choose what a pinch drag controls.
+ */
+
+import React from 'react';
+import type { PinchAdjustments, PinchState, PinchTarget } from '@/types/shapes';
+
+/**
+ * Component props
+ */
+interface PinchDisplayProps {
+  /** Current pinch measurement */
+  pinch: PinchState;
+  /** Parameter a pinch drag adjusts */
+  target: PinchTarget;
+  /** Multipliers set by pinch dragging */
+  adjustments: PinchAdjustments;
+  /** Called when the user picks a different target */
+  onTargetChange: (target: PinchTarget) => void;
+  /** Resets all multipliers */
+  onReset: () => void;
+}
+
+const TARGETS: PinchTarget[] = ['scale', 'size', 'speed'];
+
+/**
+ * PinchDisplay component
+ *
+ * Renders target selector buttons with the current multiplier of each and
+ * highlights the active one while a pinch is held.
+ *
+ * @example
+ * ```tsx
+ * <PinchDisplay pinch={pinch} target="size" adjustments={adjustments} ... />
+ * ```
+ */
+export function PinchDisplay({
+  pinch,
+  target,
+  adjustments,
+  onTargetChange,
+  onReset,
+}: PinchDisplayProps) {
+  return (
+    <div className="border-r-2 border-cyan-400 pr-2 text-right text-xs pointer-events-auto">
+      <div className="text-cyan-400/70">
+        PINCH [{pinch.pinching ? 'ENGAGED' : 'OPEN'}]
+        {Number.isFinite(pinch.distance) && ` ${pinch.distance.toFixed(2)}`}
+      </div>
+      <div className="flex justify-end gap-1 mt-1">
+        {TARGETS.map((t) => (
+          <button
+            key={t}
+            onClick={() => onTargetChange(t)}
+            className={`px-1 uppercase border ${
+              t === target
+                ? pinch.pinching
+                  ? 'border-pink-500 text-pink-500'
+                  : 'border-cyan-400 text-cyan-400'
+                : 'border-cyan-400/30 text-cyan-400/50'
+            }`}
+          >
+            {t} {adjustments[t].toFixed(2)}x
+          </button>
+        ))}
+        <button onClick={onReset} className="px-1 text-cyan-400/50">
+          RESET
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default PinchDisplay;
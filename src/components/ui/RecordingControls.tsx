@@ -0,0 +1,210 @@
+/**
+ * Recording Controls Component
+ *
+ * Panel for choosing the hand input (camera, video file or simulator), recording
+ * sessions and replaying them in place of live input.
+ */
+
+import React, { useRef, useState } from 'react';
+import type { PlaybackState } from '@/services/HandRecording';
+import type { HandInputKind } from '@/services/HandInputSource';
+import { VIDEO_FILE_CONFIG } from '@/config/constants';
+
+/**
+ * Component props
+ */
+interface RecordingControlsProps {
+  /** Live input used when no recording is loaded */
+  liveInput: LiveInputKind;
+  /** Called when the user picks a different live input */
+  onLiveInputChange: (input: LiveInputKind) => void;
+  /** Called with a video file chosen as input */
+  onVideoFile: (file: File) => void;
+  /** Whether live frames are being recorded */
+  recording: boolean;
+  /** Playback state of the loaded recording, or null when tracking live */
+  playback: PlaybackState | null;
+  onRecord: () => void;
+  onStop: () => void;
+  onPlay: () => void;
+  onPause: () => void;
+  /** Called with a position in milliseconds */
+  onSeek: (position: number) => void;
+  onLoopChange: (loop: boolean) => void;
+  /** Unloads the recording and returns to the camera */
+  onEject: () => void;
+  /** Serializes the loaded recording */
+  onExport: () => string | null;
+  /** Loads a recording from JSON; throws on invalid input */
+  onImport: (json: string) => void;
+}
+
+type LiveInputKind = Exclude<HandInputKind, 'recording'>;
+
+const LIVE_INPUTS: LiveInputKind[] = ['camera', 'video', 'simulator'];
+
+const LIVE_INPUT_LABELS: Record<LiveInputKind, string> = {
+  camera: 'CAM',
+  video: 'FILE',
+  simulator: 'SIM',
+};
+
+function formatTime(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * RecordingControls component
+ *
+ * Shows the live input selector and REC/STOP while tracking live, and a
+ * transport bar (play/pause, seek slider, loop) once a recording is loaded.
+ *
+ * @example
+ * ```tsx
+ * <RecordingControls liveInput="camera" recording={recording} playback={playback} ... />
+ * ```
+ */
+export function RecordingControls({
+  liveInput,
+  onLiveInputChange,
+  onVideoFile,
+  recording,
+  playback,
+  onRecord,
+  onStop,
+  onPlay,
+  onPause,
+  onSeek,
+  onLoopChange,
+  onEject,
+  onExport,
+  onImport,
+}: RecordingControlsProps) {
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+
+  const handleVideoFile = (event: React.ChangeEvent<HTMLInputElement>): void => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onVideoFile(file);
+  };
+
+  const handleExport = (): void => {
+    const json = onExport();
+    if (!json) return;
+
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'hand-recording.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ): Promise<void> => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onImport(await file.text());
+      setMessage(null);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  return (
+    <div className="border-l-2 border-pink-500 pl-2 text-xs w-64 pointer-events-auto">
+      <div className="text-pink-500/70">
+        INPUT [{playback ? 'REPLAY' : liveInput.toUpperCase()}]
+        {recording && <span className="text-pink-500"> ● REC</span>}
+      </div>
+
+      {playback ? (
+        <div className="mt-1 text-cyan-400">
+          <div className="flex items-center gap-2">
+            <button onClick={playback.playing ? onPause : onPlay} className="uppercase">
+              {playback.playing ? 'PAUSE' : 'PLAY'}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={playback.duration}
+              value={playback.position}
+              onChange={(e) => onSeek(Number(e.target.value))}
+              className="flex-1 accent-pink-500"
+            />
+            <span className="text-white/80">
+              {formatTime(playback.position)}/{formatTime(playback.duration)}
+            </span>
+          </div>
+          <div className="flex gap-2 mt-1">
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={playback.loop}
+                onChange={(e) => onLoopChange(e.target.checked)}
+              />
+              LOOP
+            </label>
+            <button onClick={handleExport}>EXPORT</button>
+            <button onClick={onEject} className="text-pink-500">
+              LIVE
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2 mt-1 text-cyan-400">
+          {LIVE_INPUTS.map((input) => (
+            <button
+              key={input}
+              onClick={() =>
+                input === 'video'
+                  ? videoInputRef.current?.click()
+                  : onLiveInputChange(input)
+              }
+              className={`px-1 uppercase border ${
+                input === liveInput
+                  ? 'border-cyan-400 text-cyan-400'
+                  : 'border-cyan-400/30 text-cyan-400/50'
+              }`}
+            >
+              {LIVE_INPUT_LABELS[input]}
+            </button>
+          ))}
+          <button
+            onClick={recording ? onStop : onRecord}
+            className="border border-pink-500 text-pink-500 px-1"
+          >
+            {recording ? 'STOP' : 'REC'}
+          </button>
+          <button onClick={() => fileInputRef.current?.click()}>LOAD</button>
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json"
+        onChange={handleImport}
+        className="hidden"
+      />
+      <input
+        ref={videoInputRef}
+        type="file"
+        accept={VIDEO_FILE_CONFIG.ACCEPT}
+        onChange={handleVideoFile}
+        className="hidden"
+      />
+
+      {message && <div className="mt-1 text-cyan-400/70">{message}</div>}
+    </div>
+  );
+}
+
+export default RecordingControls;
@@ -0,0 +1,183 @@
+/**
+ * Shape Picker Component
+ *
+ * Collapsible panel listing every registered shape, for picking one by hand
+ * instead of by gesture, recoloring shapes with a named palette, and for
+ * importing 3D models and images as new shapes.
+ */
+
+import React, { useRef, useState } from 'react';
+import type { PaletteName, ShapeType } from '@/types/shapes';
+import type { ImageSampleMode, ImageSampleOptions } from '@/utils/geometry/imageSampler';
+import { useShapes } from '@/hooks/useShapes';
+import { COLOR_PALETTES, IMAGE_CONFIG, MODEL_CONFIG } from '@/config/constants';
+
+/**
+ * Component props
+ */
+interface ShapePickerProps {
+  /** Shape currently shown */
+  shape: ShapeType;
+  onSelect: (shape: ShapeType) => void;
+  /** Turns a chosen file into a shape; shows an IMPORT button when provided */
+  onImport?: (file: File) => void;
+  /** Import progress or error */
+  message?: string | null;
+  /** How imported images are sampled; shows the image controls when provided */
+  imageOptions?: ImageSampleOptions;
+  onImageOptionsChange?: (changes: Partial<ImageSampleOptions>) => void;
+  /** Palette recoloring every shape, or null for the shapes' own colors */
+  palette?: PaletteName | null;
+  /** Shows the palette buttons when provided */
+  onPaletteChange?: (palette: PaletteName | null) => void;
+}
+
+const SAMPLE_MODES: ImageSampleMode[] = ['luminance', 'alpha'];
+const PALETTES = [null, ...(Object.keys(COLOR_PALETTES) as PaletteName[])];
+
+/**
+ * ShapePicker component
+ *
+ * Collapsed to a header line showing the current shape. Shapes registered at
+ * runtime, including imported models and images, appear as soon as they are
+ * registered. The image controls apply to the next imported image.
+ *
+ * @example
+ * ```tsx
+ * <ShapePicker shape={shape} onSelect={selectShape} onImport={importFile} />
+ * ```
+ */
+export function ShapePicker({
+  shape,
+  onSelect,
+  onImport,
+  message = null,
+  imageOptions,
+  onImageOptionsChange,
+  palette = null,
+  onPaletteChange,
+}: ShapePickerProps) {
+  const [open, setOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const shapes = useShapes();
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>): void => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file && onImport) onImport(file);
+  };
+
+  return (
+    <div className="border-l-2 border-cyan-400 pl-2 text-xs w-64 pointer-events-auto">
+      <button onClick={() => setOpen(!open)} className="text-cyan-400/70 uppercase">
+        SHAPE [{shape}] {open ? '▾' : '▸'}
+      </button>
+
+      {open && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {shapes.map(({ name }) => (
+            <button
+              key={name}
+              onClick={() => onSelect(name)}
+              className={`px-1 uppercase border ${
+                name === shape
+                  ? 'border-cyan-400 text-cyan-400'
+                  : 'border-cyan-400/30 text-cyan-400/50'
+              }`}
+            >
+              {name}
+            </button>
+          ))}
+          {onImport && (
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-1 border border-pink-500 text-pink-500"
+            >
+              IMPORT
+            </button>
+          )}
+        </div>
+      )}
+
+      {open && onPaletteChange && (
+        <div className="flex items-center gap-1 mt-1">
+          <span className="text-cyan-400/70">PALETTE</span>
+          {PALETTES.map((p) => (
+            <button
+              key={p ?? 'shape'}
+              onClick={() => onPaletteChange(p)}
+              className={`px-1 uppercase border ${
+                p === palette
+                  ? 'border-cyan-400 text-cyan-400'
+                  : 'border-cyan-400/30 text-cyan-400/50'
+              }`}
+            >
+              {p ?? 'SHAPE'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {open && imageOptions && onImageOptionsChange && (
+        <div className="mt-1 space-y-1 text-cyan-400">
+          <div className="flex items-center gap-1">
+            <span className="text-cyan-400/70">IMAGE</span>
+            {SAMPLE_MODES.map((mode) => (
+              <button
+                key={mode}
+                onClick={() => onImageOptionsChange({ mode })}
+                className={`px-1 uppercase border ${
+                  mode === imageOptions.mode
+                    ? 'border-cyan-400 text-cyan-400'
+                    : 'border-cyan-400/30 text-cyan-400/50'
+                }`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2">
+            <span className="w-14 text-cyan-400/50">DENSITY</span>
+            <input
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={imageOptions.density}
+              onChange={(e) => onImageOptionsChange({ density: Number(e.target.value) })}
+              className="flex-1 accent-pink-500"
+            />
+            <span className="text-white/80">
+              {Math.round(imageOptions.density * 100)}%
+            </span>
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="w-14 text-cyan-400/50">RELIEF</span>
+            <input
+              type="range"
+              min={0}
+              max={30}
+              step={1}
+              value={imageOptions.relief}
+              onChange={(e) => onImageOptionsChange({ relief: Number(e.target.value) })}
+              className="flex-1 accent-pink-500"
+            />
+            <span className="text-white/80">{imageOptions.relief}</span>
+          </label>
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={`${MODEL_CONFIG.ACCEPT},${IMAGE_CONFIG.ACCEPT}`}
+        onChange={handleImport}
+        className="hidden"
+      />
+
+      {message && <div className="mt-1 text-cyan-400/70">{message}</div>}
+    </div>
+  );
+}
+
+export default ShapePicker;
@@ -0,0 +1,92 @@
+/**
+ * Video Controls Component
+ *
+ * Transport bar for a video file used as hand tracking input.
+ */
+
+import React from 'react';
+import type { VideoPlaybackState } from '@/services/VideoFileHandSource';
+
+/**
+ * Component props
+ */
+interface VideoControlsProps {
+  /** Name of the loaded file */
+  fileName: string;
+  /** Current playback state */
+  playback: VideoPlaybackState;
+  onPlay: () => void;
+  onPause: () => void;
+  /** Called with a position in seconds */
+  onSeek: (time: number) => void;
+  /** Called with a number of frames to move (negative steps backwards) */
+  onStep: (frames: number) => void;
+  onLoopChange: (loop: boolean) => void;
+}
+
+/**
+ * VideoControls component
+ *
+ * Play/pause, single-frame stepping, a seek slider and loop toggle, with the
+ * current time and frame number.
+ *
+ * @example
+ * ```tsx
+ * <VideoControls fileName={file.name} playback={playback} onStep={step} ... />
+ * ```
+ */
+export function VideoControls({
+  fileName,
+  playback,
+  onPlay,
+  onPause,
+  onSeek,
+  onStep,
+  onLoopChange,
+}: VideoControlsProps) {
+  return (
+    <div className="border-l-2 border-cyan-400 pl-2 text-xs w-64 pointer-events-auto">
+      <div className="text-cyan-400/70 truncate">VIDEO [{fileName}]</div>
+
+      <div className="flex items-center gap-2 mt-1 text-cyan-400">
+        <button onClick={() => onStep(-1)} aria-label="Previous frame">
+          ◀
+        </button>
+        <button onClick={playback.playing ? onPause : onPlay} className="uppercase">
+          {playback.playing ? 'PAUSE' : 'PLAY'}
+        </button>
+        <button onClick={() => onStep(1)} aria-label="Next frame">
+          ▶
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={playback.duration}
+          step={1 / playback.fps}
+          value={playback.time}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="flex-1 accent-cyan-400"
+        />
+      </div>
+
+      <div className="flex gap-2 mt-1 text-white/80">
+        <span>
+          {playback.time.toFixed(2)}s / {playback.duration.toFixed(2)}s
+        </span>
+        <span>
+          F{playback.frame} @ {playback.fps}FPS
+        </span>
+        <label className="flex items-center gap-1 text-cyan-400">
+          <input
+            type="checkbox"
+            checked={playback.loop}
+            onChange={(e) => onLoopChange(e.target.checked)}
+          />
+          LOOP
+        </label>
+      </div>
+    </div>
+  );
+}
+
+export default VideoControls;
@@ -37,6 +37,48 @@ export const SHAPE_CONFIG = {
   TEXT_FONT: '350px "Noto Sans Sinhala", sans-serif',
 } as const;
 
+/**
+ * 3D model import configuration
+ */
+export const MODEL_CONFIG = {
+  /** File types offered by the file picker */
+  ACCEPT: '.obj,.ply,.glb,.gltf',
+  /** Particle color for models without vertex colors */
+  DEFAULT_COLOR: new THREE.Color(0.9, 0.9, 1.0),
+} as const;
+
+/**
+ * Image import configuration
+ */
+export const IMAGE_CONFIG = {
+  /** File types offered by the file picker */
+  ACCEPT: 'image/png,image/jpeg,image/svg+xml',
+  /** Longer side of the sampling canvas (pixels) */
+  CANVAS_SIZE: 256,
+  /** Width of the longer image side in 3D space */
+  SIZE: 80,
+  /** Default pixels that become particles: 'luminance' or 'alpha' */
+  DEFAULT_MODE: 'luminance' as 'luminance' | 'alpha',
+  /** Default fraction of canvas pixels sampled along each axis */
+  DENSITY: 0.5,
+  /** Default minimum luminance or alpha (0-1) of a sampled pixel */
+  THRESHOLD: 0.15,
+  /** Default depth of the luminance relief (0 = flat) */
+  RELIEF: 0,
+} as const;
+
+/**
+ * Morph target resampling and assignment configuration
+ */
+export const TARGET_CONFIG = {
+  /** Random offset of filled-in targets, as a fraction of the typical point spacing */
+  JITTER: 0.5,
+  /** Gaps wider than this many typical spacings are not bridged by filled-in targets */
+  SPREAD_LIMIT: 3,
+  /** How particles pick targets: 'spatial' (nearby to nearby) or 'index' (particle i, target i) */
+  ASSIGNMENT: 'spatial' as 'spatial' | 'index',
+} as const;
+
 /**
  * Animation and interpolation configuration
  */
@@ -59,26 +101,260 @@ export const ANIMATION_CONFIG = {
  * MediaPipe Hands configuration
  */
 export const MEDIAPIPE_CONFIG = {
-  /** Maximum number of hands to detect (1-2) */
-  MAX_NUM_HANDS: 1,
+  /** Maximum number of hands to detect (1-4, see CLUSTER_CONFIG.MAX_CLUSTERS) */
+  MAX_NUM_HANDS: 4,
   /** Model complexity: 0=lite, 1=full, 2=heavy */
   MODEL_COMPLEXITY: 1 as 0 | 1 | 2,
   /** Minimum confidence for hand detection (0-1) */
   MIN_DETECTION_CONFIDENCE: 0.5,
   /** Minimum confidence for hand tracking (0-1) */
   MIN_TRACKING_CONFIDENCE: 0.5,
-  /** CDN base URL for MediaPipe files */
-  CDN_BASE_URL: 'https://cdn.jsdelivr.net/npm/@mediapipe/hands/',
+  /**
+   * Base URL of the self-hosted MediaPipe packages. `npm run dev`/`build` copy
+   * them from node_modules into public/mediapipe/<package>/.
+   */
+  LOCAL_BASE_URL: '/mediapipe/',
+  /** CDN base URL, used only as a fallback (packages live at <base><package>/) */
+  CDN_BASE_URL: 'https://cdn.jsdelivr.net/npm/@mediapipe/',
+  /** Try the CDN when a self-hosted script fails to load; disable for offline installs */
+  CDN_FALLBACK: true,
+  /**
+   * Swap Left/Right labels. MediaPipe assumes a mirrored (selfie) image, but the
+   * camera feed is sent unmirrored and only flipped with CSS for display.
+   */
+  SWAP_HANDEDNESS: true,
+} as const;
+
+/**
+ * Hand inference configuration
+ */
+export const INFERENCE_CONFIG = {
+  /** Run MediaPipe in a Web Worker when supported; otherwise on the main thread */
+  USE_WORKER: true,
+  /** Give up on the worker (and fall back to the main thread) if it is not ready by then (ms) */
+  WORKER_INIT_TIMEOUT_MS: 15000,
+  /** Switch to the main thread after this many frames in a row fail in the worker */
+  WORKER_MAX_FRAME_ERRORS: 5,
+  /** Weight of the newest sample in the smoothed latency averages (0-1) */
+  METRICS_SMOOTHING: 0.1,
+  /** How often the UI refreshes inference metrics (ms) */
+  METRICS_INTERVAL_MS: 500,
+} as const;
+
+/**
+ * Per-hand particle cluster configuration
+ *
+ * In per-hand mode every tracked hand owns an equal share of the particles,
+ * formed into the shape of its own gesture next to the hand. When hands
+ * leave, their particles rejoin the remaining clusters.
+ */
+export const CLUSTER_CONFIG = {
+  /** Most clusters shown at once (one per hand) */
+  MAX_CLUSTERS: 4,
+  /** Size of a cluster's formation relative to the full-size shape */
+  SCALE: 0.45,
+  /** Rate at which a cluster follows its hand (per frame) */
+  ANCHOR_LERP_FACTOR: 0.15,
+  /** Formation mode on startup */
+  DEFAULT_MODE: 'per-hand' as 'single' | 'per-hand',
+} as const;
+
+/**
+ * Force-based physics configuration (per frame, world units)
+ */
+export const FORCE_CONFIG = {
+  /** Spring acceleration per unit of distance from the shape */
+  STIFFNESS: 0.02,
+  /** Fraction of velocity lost each frame (0-1) */
+  DAMPING: 0.1,
+  /** Largest random acceleration, keeps a settled shape shimmering */
+  NOISE: 0.05,
+  /** Distance from a fingertip at which its field vanishes (sphere radius is 30) */
+  FIELD_RADIUS: 25,
+  /** Acceleration right at a fingertip, falling off linearly to the radius */
+  FIELD_STRENGTH: 1.5,
+  /** Landmarks that act as fields: the five fingertips (see LANDMARK_INDICES) */
+  FINGERTIPS: [4, 8, 12, 16, 20],
+  /** Gestures that flip a hand's fields from the default polarity */
+  FIELD_GESTURES: { fist: 'attract' } as Record<string, 'attract' | 'repel'>,
+  /** Polarity of a hand's fields for every other gesture */
+  DEFAULT_POLARITY: 'repel' as 'attract' | 'repel',
+  /** Simulation mode on startup */
+  DEFAULT_MODE: 'morph' as 'morph' | 'forces',
+} as const;
+
+/**
+ * Hand presence configuration
+ *
+ * A hand missing from a frame is first "lost": its last pose is held so
+ * gestures and physics carry on through brief occlusions. Only after the
+ * grace period is it "gone".
+ */
+export const PRESENCE_CONFIG = {
+  /** How long a lost hand's last pose is held before it is gone (ms) */
+  GRACE_MS: 500,
+  /** Interval at which lost hands are checked for expiry when no frames arrive (ms) */
+  TICK_MS: 50,
+  /**
+   * Wrist distance (normalized image units) within which a newly detected hand
+   * replaces a missing one, so a flipped handedness label does not leave a ghost
+   */
+  RELABEL_DISTANCE: 0.15,
+  /** Particle opacity multiplier while every hand is lost */
+  LOST_OPACITY_FACTOR: 0.5,
+  /** Rate at which the particle opacity eases to its target (per frame) */
+  OPACITY_LERP_FACTOR: 0.1,
+} as const;
+
+/**
+ * Landmark smoothing configuration
+ *
+ * Raw MediaPipe landmarks jitter by a few pixels even on a still hand. Each
+ * coordinate of each landmark is run through its own filter before use.
+ */
+export const FILTER_CONFIG = {
+  /** Default filter: 'none' passes landmarks through unchanged */
+  DEFAULT_TYPE: 'one-euro' as 'none' | 'one-euro' | 'kalman',
+  /** One Euro cutoff frequency at rest (Hz); lower = steadier but laggier */
+  ONE_EURO_MIN_CUTOFF: 1.5,
+  /** One Euro speed coefficient; higher = less lag on fast motion */
+  ONE_EURO_BETA: 10,
+  /** One Euro cutoff frequency for the velocity estimate (Hz) */
+  ONE_EURO_D_CUTOFF: 1,
+  /** Kalman acceleration variance; higher = follows changes faster */
+  KALMAN_PROCESS_NOISE: 5,
+  /** Kalman measurement variance; higher = smoother */
+  KALMAN_MEASUREMENT_NOISE: 1e-5,
+  /** A gap between frames longer than this (ms) restarts the filter */
+  RESET_GAP_MS: 500,
+} as const;
+
+/**
+ * Hand recording and replay configuration
+ */
+export const RECORDING_CONFIG = {
+  /** Version written to recording files; other versions are rejected */
+  FORMAT_VERSION: 1,
+  /** Decimal places kept for landmark coordinates (keeps files small) */
+  PRECISION: 5,
+  /** Recording stops by itself after this long (ms) */
+  MAX_DURATION_MS: 5 * 60 * 1000,
+  /** Playback position is published at most this often while playing (ms) */
+  POSITION_UPDATE_MS: 100,
+} as const;
+
+/**
+ * Video file input configuration
+ */
+export const VIDEO_FILE_CONFIG = {
+  /** Frame rate assumed for stepping until the real rate has been measured */
+  DEFAULT_FPS: 30,
+  /** Lowest and highest frame rates accepted from measured frame intervals */
+  MIN_FPS: 10,
+  MAX_FPS: 120,
+  /** File types offered by the file picker */
+  ACCEPT: 'video/*',
+} as const;
+
+/**
+ * Simulated hand input (mouse and keyboard)
+ */
+export const SIMULATOR_CONFIG = {
+  /** Frames emitted per second */
+  FPS: 30,
+  /** Which hand the simulator pretends to be */
+  LABEL: 'Right' as 'Left' | 'Right',
+  /** Initial wrist to middle MCP distance (fraction of image height) */
+  DEFAULT_SIZE: 0.2,
+  /** Smallest hand size reachable with the mouse wheel (far from camera) */
+  MIN_SIZE: 0.08,
+  /** Largest hand size reachable with the mouse wheel (close to camera) */
+  MAX_SIZE: 0.4,
+  /** Hand size change per pixel of wheel scroll */
+  WHEEL_SENSITIVITY: 0.0002,
+  /** Per-frame lerp factor when morphing between poses */
+  POSE_LERP_FACTOR: 0.3,
+} as const;
+
+/**
+ * Two-hand role assignment
+ *
+ * The command hand selects the shape via gestures, the physics hand drives
+ * rotation, spread and speed. A lone hand takes both roles.
+ */
+export const HAND_ROLE_CONFIG = {
+  /** Hand that issues gesture commands */
+  COMMAND_HAND: 'Left' as 'Left' | 'Right',
+  /** Hand that drives particle physics */
+  PHYSICS_HAND: 'Right' as 'Left' | 'Right',
+} as const;
+
+/**
+ * Physics hand parameter ranges
+ */
+export const PHYSICS_CONFIG = {
+  /** Shape scale with a closed physics hand */
+  SPREAD_MIN: 0.5,
+  /** Shape scale with a fully open physics hand */
+  SPREAD_MAX: 2.0,
+  /** Palm size (wrist to middle MCP, normalized) of a hand far from the camera */
+  PALM_SIZE_FAR: 0.12,
+  /** Palm size of a hand close to the camera */
+  PALM_SIZE_NEAR: 0.35,
+  /** Morph speed multiplier with the hand far away */
+  SPEED_MIN: 0.5,
+  /** Morph speed multiplier with the hand close up */
+  SPEED_MAX: 3.0,
+  /** Lerp factor for easing the particle scale towards the spread */
+  SPREAD_LERP_FACTOR: 0.1,
+} as const;
+
+/**
+ * Pinch control configuration
+ *
+ * Distances are thumb tip to index tip in palm units; the gap between start
+ * and end is hysteresis so the pinch does not flicker at the boundary.
+ */
+export const PINCH_CONFIG = {
+  /** Distance below which a pinch starts */
+  START_DISTANCE: 0.25,
+  /** Distance above which a pinch ends */
+  END_DISTANCE: 0.4,
+  /** Doublings of the adjusted value per image height dragged upwards */
+  DRAG_GAIN: 3,
+  /** Lowest multiplier a pinch drag can reach */
+  MIN_MULTIPLIER: 0.25,
+  /** Highest multiplier a pinch drag can reach */
+  MAX_MULTIPLIER: 4,
+  /** Parameter adjusted by default */
+  DEFAULT_TARGET: 'scale' as 'scale' | 'size' | 'speed',
 } as const;
 
 /**
  * Camera configuration
+ *
+ * WIDTH/HEIGHT/FRAME_RATE/MIRROR are the defaults of the capture settings the
+ * user can change at runtime (see CaptureSettingsStore).
  */
 export const CAMERA_CONFIG = {
   /** Camera feed width in pixels */
   WIDTH: 1280,
   /** Camera feed height in pixels */
   HEIGHT: 720,
+  /** Requested camera frame rate */
+  FRAME_RATE: 30,
+  /** Show the feed mirrored, like a selfie view */
+  MIRROR: true,
+  /** Selectable resolutions */
+  RESOLUTIONS: [
+    [640, 360],
+    [1280, 720],
+    [1920, 1080],
+  ] as readonly (readonly [number, number])[],
+  /** Selectable frame rates */
+  FRAME_RATES: [15, 30, 60] as readonly number[],
+  /** localStorage key for the capture settings */
+  STORAGE_KEY: 'particle-hand-tracker:capture-settings',
 } as const;
 
 /**
@@ -130,6 +406,48 @@ export const SHAPE_COLORS = {
   'sinhala-great': new THREE.Color(0.0, 1.0, 0.5),   // Greenish
   'sinhala-hello': new THREE.Color(0.5, 0.0, 1.0),   // Purple
   scatter: new THREE.Color(1.0, 0.2, 0.2),     // Red/Fire
+  cube: new THREE.Color(0.2, 0.6, 1.0),        // Electric blue
+  torus: new THREE.Color(1.0, 0.8, 0.2),       // Yellow
+  helix: new THREE.Color(0.3, 1.0, 0.3),       // Green
+  heart: new THREE.Color(1.0, 0.2, 0.5),       // Pink
+  galaxy: new THREE.Color(0.7, 0.6, 1.0),      // Lavender
+  mobius: new THREE.Color(1.0, 0.5, 0.0),      // Orange
+  lissajous: new THREE.Color(0.0, 0.8, 0.8),   // Teal
+  'wave-grid': new THREE.Color(0.4, 0.4, 1.0), // Indigo
+} as const;
+
+/**
+ * Named palettes for color rules and the runtime palette picker, from the
+ * low end of a gradient to the high end
+ */
+export const COLOR_PALETTES = {
+  neon: [
+    new THREE.Color(1.0, 0.0, 1.0),  // Magenta
+    new THREE.Color(0.0, 1.0, 1.0),  // Cyan
+    new THREE.Color(0.5, 1.0, 0.0),  // Lime
+  ],
+  fire: [
+    new THREE.Color(0.5, 0.0, 0.0),  // Ember
+    new THREE.Color(1.0, 0.1, 0.0),  // Red
+    new THREE.Color(1.0, 0.5, 0.0),  // Orange
+    new THREE.Color(1.0, 0.9, 0.2),  // Yellow
+  ],
+  ocean: [
+    new THREE.Color(0.0, 0.1, 0.4),  // Deep blue
+    new THREE.Color(0.0, 0.4, 1.0),  // Blue
+    new THREE.Color(0.0, 0.9, 0.9),  // Cyan
+    new THREE.Color(0.8, 1.0, 1.0),  // Foam
+  ],
+} as const;
+
+/**
+ * Color rule configuration
+ */
+export const COLOR_CONFIG = {
+  /** Default feature size of noise coloring (higher = smaller blotches) */
+  NOISE_SCALE: 0.08,
+  /** Axis a runtime palette is spread along for shapes without a color rule */
+  PALETTE_AXIS: 'y' as 'x' | 'y' | 'z',
 } as const;
 
 /**
@@ -171,14 +489,106 @@ export const LANDMARK_INDICES = {
   PINKY_TIP: 20,
 } as const;
 
+/** Landmarks per detected hand */
+export const HAND_LANDMARK_COUNT = LANDMARK_INDICES.PINKY_TIP + 1;
+
 /**
  * Gesture detection thresholds
  */
 export const GESTURE_CONFIG = {
-  /** Minimum fingers required for open palm gesture */
-  OPEN_PALM_FINGER_COUNT: 4,
   /** Pixel threshold for determining if text pixel is considered "on" */
   TEXT_PIXEL_THRESHOLD: 128,
+  /** Summed MCP+PIP+DIP bend (radians) of a fully curled finger */
+  FINGER_FULL_CURL_ANGLE: Math.PI * 1.25,
+  /** Summed MCP+IP bend (radians) of a fully curled thumb */
+  THUMB_FULL_CURL_ANGLE: Math.PI * 0.6,
+  /** Thumb tip to pinky MCP distance (palm units) of an extended thumb */
+  THUMB_EXTENDED_REACH: 0.9,
+  /** Thumb tip to pinky MCP distance (palm units) of a thumb tucked over the fingers */
+  THUMB_CURLED_REACH: 0.55,
+  /** Curl (0-1) below which a finger counts as extended */
+  EXTENDED_CURL_THRESHOLD: 0.4,
+  /** Minimum gesture confidence (0-1) before the shape changes */
+  MIN_CONFIDENCE: 0.5,
+} as const;
+
+/**
+ * Gesture stabilization (hysteresis and timing)
+ *
+ * A gesture commits once it has stayed above the enter confidence for the
+ * hold time, and stays committed while above the lower exit confidence.
+ */
+export const STABILIZER_CONFIG = {
+  /** Confidence needed to start a gesture (see GESTURE_CONFIG.MIN_CONFIDENCE) */
+  ENTER_CONFIDENCE: GESTURE_CONFIG.MIN_CONFIDENCE,
+  /** Confidence below which a committed gesture starts releasing */
+  EXIT_CONFIDENCE: 0.35,
+  /** Time a candidate must be held before it commits (ms) */
+  MIN_HOLD_MS: 150,
+  /** Time a committed gesture may be missing before it ends (ms) */
+  RELEASE_DELAY_MS: 300,
+  /** Interval between gestureHold events (ms) */
+  HOLD_EVENT_INTERVAL_MS: 250,
+  /** Interval at which the stabilizer clock advances when input is unchanged (ms) */
+  TICK_MS: 50,
+} as const;
+
+/**
+ * User-trained gesture configuration
+ */
+export const CUSTOM_GESTURE_CONFIG = {
+  /** Neighbours consulted by the k-NN classifier */
+  K: 5,
+  /** Feature distance beyond which a neighbour does not count as a match */
+  MAX_DISTANCE: 1.2,
+  /** Samples recorded per training session */
+  SAMPLES_PER_GESTURE: 30,
+  /** Interval between training samples (ms) */
+  SAMPLE_INTERVAL_MS: 50,
+  /** Time to get into pose before recording starts (ms) */
+  COUNTDOWN_MS: 1500,
+  /** localStorage key for the trained gestures */
+  STORAGE_KEY: 'particle-hand-tracker:custom-gestures',
+  /** Version of the exported JSON format */
+  EXPORT_VERSION: 1,
+  /** Default recognition mode */
+  DEFAULT_MODE: 'combined' as 'rules' | 'custom' | 'combined',
+} as const;
+
+/**
+ * Motion gesture detection thresholds
+ *
+ * Distances are in image heights (see landmarkToVector), times in milliseconds.
+ */
+export const MOTION_CONFIG = {
+  /** How much hand history to keep */
+  BUFFER_DURATION_MS: 1500,
+  /** Minimum samples before any motion is evaluated */
+  MIN_SAMPLES: 6,
+  /** Ignore new motions for this long after a detection */
+  COOLDOWN_MS: 600,
+  /** Report horizontal motions as seen in a mirrored video feed, unless told otherwise */
+  MIRROR_X: true,
+  /** Time window a swipe must complete within */
+  SWIPE_WINDOW_MS: 350,
+  /** Minimum swipe travel */
+  SWIPE_MIN_DISTANCE: 0.3,
+  /** Minimum ratio of dominant to cross axis travel for a swipe */
+  SWIPE_MIN_AXIS_RATIO: 2,
+  /** Minimum net angle swept for a circle (radians) */
+  CIRCLE_MIN_ANGLE: Math.PI * 1.7,
+  /** Minimum circle radius */
+  CIRCLE_MIN_RADIUS: 0.06,
+  /** Maximum radius coefficient of variation for a circle */
+  CIRCLE_MAX_RADIUS_VARIATION: 0.45,
+  /** Minimum horizontal travel between wave reversals */
+  WAVE_MIN_AMPLITUDE: 0.08,
+  /** Direction reversals needed for a wave */
+  WAVE_MIN_REVERSALS: 3,
+  /** Time window a push or pull must complete within */
+  PUSH_WINDOW_MS: 450,
+  /** Palm size ratio (end/start) that counts as a push; the inverse is a pull */
+  PUSH_MIN_SCALE_RATIO: 1.25,
 } as const;
 
 /**
@@ -0,0 +1,86 @@
+/**
+ * Capture Settings Hook
+ *
+ * Exposes the persisted camera and detection settings together with the list
+ * of cameras the user can pick from.
+ */
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import {
+  captureSettingsStore,
+  type CaptureSettings,
+  type DetectionSettings,
+  type TrackingSettings,
+} from '@/services/CaptureSettingsStore';
+import {
+  listCameras,
+  subscribeCameraChanges,
+  type CameraDevice,
+} from '@/services/CameraDevices';
+
+/**
+ * Hook return value
+ */
+interface UseCaptureSettingsResult {
+  /** Current settings (persisted across reloads) */
+  settings: TrackingSettings;
+  /** Available cameras */
+  cameras: CameraDevice[];
+  updateCapture: (changes: Partial<CaptureSettings>) => void;
+  updateDetection: (changes: Partial<DetectionSettings>) => void;
+  /** Restores the defaults from CAMERA_CONFIG and MEDIAPIPE_CONFIG */
+  reset: () => void;
+}
+
+const updateCapture = (changes: Partial<CaptureSettings>): void =>
+  captureSettingsStore.updateCapture(changes);
+const updateDetection = (changes: Partial<DetectionSettings>): void =>
+  captureSettingsStore.updateDetection(changes);
+const reset = (): void => captureSettingsStore.reset();
+
+/**
+ * Manages camera choice, capture format and detection options
+ *
+ * The camera list is refreshed when devices change and whenever
+ * `refreshKey` changes; pass the camera status so device names appear once
+ * permission has been granted.
+ *
+ * @param refreshKey - Any value whose change should re-list the cameras
+ * @returns Settings, cameras and update functions
+ *
+ * @example
+ * ```tsx
+ * const { settings, cameras, updateCapture } = useCaptureSettings(status);
+ * <select onChange={(e) => updateCapture({ deviceId: e.target.value })}>...</select>
+ * ```
+ */
+export function useCaptureSettings(refreshKey?: unknown): UseCaptureSettingsResult {
+  const settings = useSyncExternalStore(
+    captureSettingsStore.subscribe,
+    captureSettingsStore.getSnapshot,
+    captureSettingsStore.getServerSnapshot
+  );
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    const refresh = (): void => {
+      listCameras()
+        .then((devices) => {
+          if (active) setCameras(devices);
+        })
+        .catch((err) => console.error('Failed to list cameras:', err));
+    };
+
+    refresh();
+    const unsubscribe = subscribeCameraChanges(refresh);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [refreshKey]);
+
+  return { settings, cameras, updateCapture, updateDetection, reset };
+}
+
+export {};
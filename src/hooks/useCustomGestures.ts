@@ -0,0 +1,159 @@
+/**
+ * Custom Gesture Training Hook
+ *
+ * Records palm-space samples of a held pose, stores them as a named custom
+ * gesture, and exposes the stored gestures for classification.
+ */
+
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import type { HandLandmarks } from '@/types/mediapipe';
+import type { CustomGesture, ShapeType } from '@/types/shapes';
+import { CUSTOM_GESTURE_CONFIG } from '@/config/constants';
+import {
+  customGestureStore,
+  type CustomGestureImport,
+} from '@/services/CustomGestureStore';
+import { gestureRegistry } from '@/services/GestureRegistry';
+import { getPalmFeatures } from '@/utils/geometry/handGeometry';
+
+/**
+ * Progress of a training session
+ */
+export interface TrainingState {
+  /** Name the gesture will be saved under */
+  name: string;
+  /** Shape the gesture will map to */
+  shape: ShapeType;
+  /** 'countdown' while the user gets into pose, then 'recording' */
+  phase: 'countdown' | 'recording';
+  /** Fraction of samples recorded (0-1) */
+  progress: number;
+}
+
+/**
+ * Hook return value
+ */
+interface UseCustomGesturesResult {
+  /** Stored custom gestures */
+  gestures: CustomGesture[];
+  /** Current training session, or null if not training */
+  training: TrainingState | null;
+  /** Starts a training session; returns an error message or null */
+  startTraining: (name: string, shape: ShapeType) => string | null;
+  /** Aborts the current training session without saving */
+  cancelTraining: () => void;
+  /** Deletes a stored gesture */
+  removeGesture: (name: string) => void;
+  /** Serializes all stored gestures to JSON */
+  exportJson: () => string;
+  /** Merges gestures from JSON, skipping built-in names; throws if the JSON is invalid */
+  importJson: (json: string) => CustomGestureImport;
+}
+
+/**
+ * Manages user-trained gestures
+ *
+ * Training waits for a short countdown, then samples the hand at a fixed
+ * interval. Frames without a hand are skipped rather than recorded.
+ *
+ * @param landmarks - Landmarks of the hand to train with, or null if absent
+ * @param aspect - Width divided by height of the image they were detected in
+ * @returns Stored gestures and training controls
+ *
+ * @example
+ * ```tsx
+ * const { gestures, startTraining } = useCustomGestures(landmarks);
+ * startTraining('rock-on', 'gemini');
+ * ```
+ */
+export function useCustomGestures(
+  landmarks: HandLandmarks | null,
+  aspect?: number
+): UseCustomGesturesResult {
+  const gestures = useSyncExternalStore(
+    customGestureStore.subscribe,
+    customGestureStore.getSnapshot,
+    customGestureStore.getServerSnapshot
+  );
+  const [training, setTraining] = useState<TrainingState | null>(null);
+
+  const landmarksRef = useRef(landmarks);
+  const aspectRef = useRef(aspect);
+  const countdownRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const samplerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  useEffect(() => {
+    landmarksRef.current = landmarks;
+    aspectRef.current = aspect;
+  }, [landmarks, aspect]);
+
+  const clearTimers = useCallback(() => {
+    if (countdownRef.current !== null) clearTimeout(countdownRef.current);
+    if (samplerRef.current !== null) clearInterval(samplerRef.current);
+    countdownRef.current = null;
+    samplerRef.current = null;
+  }, []);
+
+  // Stop sampling on unmount
+  useEffect(() => clearTimers, [clearTimers]);
+
+  const cancelTraining = useCallback(() => {
+    clearTimers();
+    setTraining(null);
+  }, [clearTimers]);
+
+  const startTraining = useCallback(
+    (rawName: string, shape: ShapeType): string | null => {
+      const name = rawName.trim();
+      if (!name) return 'Enter a gesture name';
+      if (gestureRegistry.has(name)) return `"${name}" is already a registered gesture`;
+
+      clearTimers();
+      const samples: number[][] = [];
+      setTraining({ name, shape, phase: 'countdown', progress: 0 });
+
+      countdownRef.current = setTimeout(() => {
+        setTraining({ name, shape, phase: 'recording', progress: 0 });
+
+        samplerRef.current = setInterval(() => {
+          const current = landmarksRef.current;
+          if (!current || current.length === 0) return;
+
+          samples.push(getPalmFeatures(current, aspectRef.current));
+
+          if (samples.length >= CUSTOM_GESTURE_CONFIG.SAMPLES_PER_GESTURE) {
+            clearTimers();
+            customGestureStore.save({ name, shape, samples, createdAt: Date.now() });
+            setTraining(null);
+          } else {
+            setTraining({
+              name,
+              shape,
+              phase: 'recording',
+              progress: samples.length / CUSTOM_GESTURE_CONFIG.SAMPLES_PER_GESTURE,
+            });
+          }
+        }, CUSTOM_GESTURE_CONFIG.SAMPLE_INTERVAL_MS);
+      }, CUSTOM_GESTURE_CONFIG.COUNTDOWN_MS);
+
+      return null;
+    },
+    [clearTimers]
+  );
+
+  const removeGesture = useCallback((name: string) => customGestureStore.remove(name), []);
+  const exportJson = useCallback(() => customGestureStore.exportJson(), []);
+  const importJson = useCallback((json: string) => customGestureStore.importJson(json), []);
+
+  return {
+    gestures,
+    training,
+    startTraining,
+    cancelTraining,
+    removeGesture,
+    exportJson,
+    importJson,
+  };
+}
+
+export {};
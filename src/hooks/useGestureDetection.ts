@@ -1,63 +1,245 @@
-import { useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type * as THREE from 'three';
 import type { HandLandmarks } from '@/types/mediapipe';
-import type { GestureResult } from '@/types/shapes';
-import { GestureRecognizer, mapGestureToShape } from '@/services/GestureRecognizer';
-import { useThrottle } from './useThrottle';
+import type {
+  CustomGesture,
+  GestureResult,
+  GestureTransition,
+  GestureTransitionListener,
+  MotionGestureResult,
+  RecognitionMode,
+  ShapeType,
+} from '@/types/shapes';
+import {
+  GestureRecognizer,
+  mapGestureToShape,
+  mapMotionGestureToShape,
+} from '@/services/GestureRecognizer';
+import {
+  GestureStabilizer,
+  DEFAULT_STABILIZER_OPTIONS,
+  type GestureStabilizerOptions,
+} from '@/services/GestureStabilizer';
+import { CustomGestureClassifier } from '@/services/CustomGestureClassifier';
+import { gestureRegistry } from '@/services/GestureRegistry';
+import { shapeRegistry } from '@/services/ShapeRegistry';
+import {
+  CUSTOM_GESTURE_CONFIG,
+  MOTION_CONFIG,
+  STABILIZER_CONFIG,
+} from '@/config/constants';
+import { useMotionGestures } from './useMotionGestures';
 
 interface UseGestureDetectionResult {
+  /** Committed (stabilized) gesture */
   gesture: string;
+  /** Latest confidence of the committed gesture */
   confidence: number;
-  shape: string;
+  /** Shape to show for the committed gesture */
+  shape: ShapeType;
+  /** Particle color for the committed gesture */
+  color: THREE.Color;
   displayName: string;
+  /** Latest per-frame detection, before stabilization */
+  candidate: GestureResult;
+  /** Whether the latest detection is below the enter confidence */
+  lowConfidence: boolean;
+  /** Most recent gesture transition, or null if none yet */
+  transition: GestureTransition | null;
+  /** Subscribes to gestureStart/gestureHold/gestureEnd; returns an unsubscribe function */
+  subscribe: (listener: GestureTransitionListener) => () => void;
+  /** Most recent motion gesture, or null if none yet */
+  motion: MotionGestureResult | null;
+  /** Shows a shape until the committed gesture changes (e.g. from a shape picker) */
+  selectShape: (shape: ShapeType) => void;
 }
 
+/**
+ * Hook options: stabilizer tuning plus custom gesture classification
+ */
+interface UseGestureDetectionOptions extends Partial<GestureStabilizerOptions> {
+  /** User-trained gestures to classify alongside or instead of the rules */
+  customGestures?: CustomGesture[];
+  /** Which classifiers to run */
+  recognitionMode?: RecognitionMode;
+  /** Whether the video feed is displayed mirrored (motion gesture directions) */
+  mirrored?: boolean;
+  /** Capture time of `landmarks` (ms), for motion gesture timing */
+  timestamp?: number;
+  /** Width divided by height of the image `landmarks` were detected in */
+  aspect?: number;
+}
+
+/**
+ * Shape chosen by a motion gesture or selectShape(), valid while the static
+ * gesture it was chosen during is held
+ */
+interface ShapeOverride {
+  gesture: string;
+  shape: ShapeType;
+}
+
+const NO_HAND: GestureResult = { name: 'none', confidence: 1 };
+const NO_GESTURE: GestureResult = { name: 'none', confidence: 0 };
+const NO_CUSTOM_GESTURES: CustomGesture[] = [];
+
+/**
+ * Recognizes and stabilizes the gestures of one hand
+ *
+ * Per-frame detections pass through a GestureStabilizer, so the committed
+ * gesture (and with it the shape) only changes on gestureStart/gestureEnd.
+ *
+ * @param landmarks - Hand landmarks, or null if no hand is visible
+ * @param options - Stabilizer tuning, custom gestures, recognition mode and frame info
+ * @returns Committed gesture, mapped shape and transition subscription
+ *
+ * @example
+ * ```tsx
+ * const { shape, subscribe } = useGestureDetection(landmarks, { minHoldMs: 200 });
+ * useEffect(() => subscribe((t) => console.log(t.type, t.gesture)), [subscribe]);
+ * ```
+ */
 export function useGestureDetection(
   landmarks: HandLandmarks | null,
-  throttleMs: number = 100
+  options: UseGestureDetectionOptions = {}
 ): UseGestureDetectionResult {
-  // Detect gesture from landmarks
+  const {
+    enterConfidence = DEFAULT_STABILIZER_OPTIONS.enterConfidence,
+    exitConfidence = DEFAULT_STABILIZER_OPTIONS.exitConfidence,
+    minHoldMs = DEFAULT_STABILIZER_OPTIONS.minHoldMs,
+    releaseDelayMs = DEFAULT_STABILIZER_OPTIONS.releaseDelayMs,
+    holdIntervalMs = DEFAULT_STABILIZER_OPTIONS.holdIntervalMs,
+    customGestures = NO_CUSTOM_GESTURES,
+    recognitionMode = CUSTOM_GESTURE_CONFIG.DEFAULT_MODE,
+    mirrored = MOTION_CONFIG.MIRROR_X,
+    timestamp,
+    aspect,
+  } = options;
+
+  const classifier = useMemo(
+    () => new CustomGestureClassifier(customGestures),
+    [customGestures]
+  );
+
+  // Detect gesture from landmarks. No hand at all is an unambiguous 'none'.
   const gestureResult: GestureResult = useMemo(() => {
     if (!landmarks || landmarks.length === 0) {
-      return { name: 'none', confidence: 0 };
+      return NO_HAND;
     }
 
-    const recognizer = new GestureRecognizer(landmarks);
-    return recognizer.recognizeGesture();
-  }, [landmarks]);
+    const ruleResult =
+      recognitionMode !== 'custom'
+        ? new GestureRecognizer(landmarks, aspect).recognizeGesture()
+        : NO_GESTURE;
+    const customResult =
+      recognitionMode !== 'rules' ? classifier.classify(landmarks, aspect) : null;
+
+    // In combined mode the more confident classifier wins
+    return customResult && customResult.confidence >= ruleResult.confidence
+      ? customResult
+      : ruleResult;
+  }, [landmarks, aspect, classifier, recognitionMode]);
 
-  // Throttle gesture updates to prevent excessive re-renders
-  const throttledGesture = useThrottle(gestureResult, throttleMs);
+  const [committedGesture, setCommittedGesture] = useState<GestureResult>(NO_HAND);
+  const [transition, setTransition] = useState<GestureTransition | null>(null);
+  const stabilizerRef = useRef<GestureStabilizer | null>(null);
+  const listenersRef = useRef(new Set<GestureTransitionListener>());
 
-  // Map gesture to shape and display name
-  const shape = mapGestureToShape(throttledGesture.name);
-  const displayName = getGestureDisplayName(throttledGesture.name);
+  // (Re)create the stabilizer when its tuning changes
+  useEffect(() => {
+    const stabilizer = new GestureStabilizer({
+      enterConfidence,
+      exitConfidence,
+      minHoldMs,
+      releaseDelayMs,
+      holdIntervalMs,
+    });
+    stabilizerRef.current = stabilizer;
+
+    const listeners = listenersRef.current;
+    const unsubscribe = stabilizer.subscribe((event) => {
+      setTransition(event);
+      setCommittedGesture(
+        event.type === 'gestureEnd'
+          ? NO_HAND
+          : { name: event.gesture, confidence: event.confidence }
+      );
+      listeners.forEach((listener) => listener(event));
+    });
+
+    return () => {
+      unsubscribe();
+      stabilizer.reset(performance.now());
+      stabilizerRef.current = null;
+    };
+  }, [enterConfidence, exitConfidence, minHoldMs, releaseDelayMs, holdIntervalMs]);
+
+  // Feed detections, and keep the clock running while the input is unchanged
+  // (e.g. the hand left the frame) so hold and release timers still expire
+  useEffect(() => {
+    const stabilizer = stabilizerRef.current;
+    if (!stabilizer) return;
+
+    stabilizer.update(gestureResult, performance.now());
+    const timer = setInterval(() => {
+      stabilizer.update(gestureResult, performance.now());
+    }, STABILIZER_CONFIG.TICK_MS);
+
+    return () => clearInterval(timer);
+  }, [gestureResult]);
+
+  const subscribe = useCallback((listener: GestureTransitionListener) => {
+    const listeners = listenersRef.current;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
+  const lowConfidence =
+    gestureResult.name !== 'none' && gestureResult.confidence < enterConfidence;
+
+  // Map gesture to shape and display name; an override wins until the pose changes
+  const [override, setOverride] = useState<ShapeOverride | null>(null);
+  const overrideActive = override !== null && override.gesture === committedGesture.name;
+  const customGesture = customGestures.find((g) => g.name === committedGesture.name);
+  const definition = gestureRegistry.get(committedGesture.name);
+  const shape = overrideActive
+    ? override.shape
+    : (customGesture?.shape ?? mapGestureToShape(committedGesture.name));
+  const color =
+    overrideActive || customGesture ? shapeRegistry.getColor(shape) : definition.color;
+  const displayName = customGesture ? customGesture.name : definition.displayName;
+
+  // Motion gestures (swipes, circles, ...) step the shape from wherever it is now
+  const motion = useMotionGestures(
+    landmarks,
+    (detected) => {
+      const nextShape = mapMotionGestureToShape(detected.name, shape);
+      if (nextShape) {
+        setOverride({ gesture: committedGesture.name, shape: nextShape });
+      }
+    },
+    { mirrored, timestamp, aspect }
+  );
+
+  const selectShape = (selected: ShapeType) => {
+    setOverride({ gesture: committedGesture.name, shape: selected });
+  };
 
   return {
-    gesture: throttledGesture.name,
-    confidence: throttledGesture.confidence,
+    gesture: committedGesture.name,
+    confidence: committedGesture.confidence,
     shape,
+    color,
     displayName,
+    candidate: gestureResult,
+    lowConfidence,
+    transition,
+    subscribe,
+    motion,
+    selectShape,
   };
 }
 
-/**
- * Maps gesture names to user-friendly display names
- *
- * @param gestureName - Internal gesture name
- * @returns User-friendly display name
- */
-function getGestureDisplayName(gestureName: string): string {
-  const displayNames: Record<string, string> = {
-    'thumbs-up': 'BLAST!',
-    'index': 'Hello',
-    'peace': 'Gemini',
-    'three-fingers': 'නියමයි (Great)',
-    'open-palm': 'Open Palm',
-    'fist': 'ආයුබෝවන් (Ayubowan)',
-    'none': 'STANDBY',
-  };
-
-  return displayNames[gestureName] || 'STANDBY';
-}
-
 export {};
@@ -0,0 +1,87 @@
+/**
+ * Hand Clusters Hook
+ *
+ * Splits the particles into one cluster per tracked hand, each with the
+ * shape and color of that hand's gesture, anchored next to the hand.
+ */
+
+import { useMemo } from 'react';
+import type * as THREE from 'three';
+import type { TrackedHand } from '@/types/mediapipe';
+import type {
+  ClusterMode,
+  GestureName,
+  ParticleCluster,
+  ShapeType,
+} from '@/types/shapes';
+import { CLUSTER_CONFIG, LANDMARK_INDICES } from '@/config/constants';
+import { mapGestureToShape } from '@/services/GestureRecognizer';
+import { gestureRegistry } from '@/services/GestureRegistry';
+import { getHandKeys } from '@/services/HandRoles';
+
+/**
+ * Hook options
+ */
+interface UseHandClustersOptions {
+  /** 'single' never splits the particles */
+  mode: ClusterMode;
+  /** Command hand; its cluster uses `shape`/`color` (custom and motion gestures included) */
+  command: TrackedHand | null;
+  /** Shape chosen by the command hand */
+  shape: ShapeType;
+  /** Color chosen by the command hand */
+  color: THREE.Color;
+  /** Gesture per hand key (see useHandGestures) */
+  gestures: Record<string, GestureName>;
+  /** Whether the video feed is displayed mirrored */
+  mirrored: boolean;
+}
+
+const NO_CLUSTERS: ParticleCluster[] = [];
+
+/**
+ * Derives per-hand particle clusters from the tracked hands
+ *
+ * Returns no clusters (a single formation) in 'single' mode or with fewer
+ * than two hands. Hands beyond CLUSTER_CONFIG.MAX_CLUSTERS are ignored.
+ *
+ * @param hands - Tracked hands (held poses of lost hands included)
+ * @param options - Mode, command hand result, every hand's gesture and mirroring
+ * @returns One cluster per hand, or an empty array for a single formation
+ *
+ * @example
+ * ```tsx
+ * const gestures = useHandGestures(hands);
+ * const clusters = useHandClusters(hands, { mode: 'per-hand', command, shape, color, gestures, mirrored });
+ * useParticleSystem(scene, shape, { physics, color, presence, clusters });
+ * ```
+ */
+export function useHandClusters(
+  hands: TrackedHand[],
+  { mode, command, shape, color, gestures, mirrored }: UseHandClustersOptions
+): ParticleCluster[] {
+  const clusterHands = useMemo(
+    () => (mode === 'per-hand' ? hands.slice(0, CLUSTER_CONFIG.MAX_CLUSTERS) : []),
+    [mode, hands]
+  );
+
+  return useMemo(() => {
+    if (clusterHands.length < 2) return NO_CLUSTERS;
+
+    const keys = getHandKeys(clusterHands);
+    return clusterHands.map((hand, i) => {
+      const gesture = gestures[keys[i]] ?? 'none';
+      const isCommand = hand === command;
+      const knuckle = hand.landmarks[LANDMARK_INDICES.MIDDLE_MCP];
+
+      return {
+        key: keys[i],
+        shape: isCommand ? shape : mapGestureToShape(gesture),
+        color: isCommand ? color : gestureRegistry.get(gesture).color,
+        anchor: { x: mirrored ? 1 - knuckle.x : knuckle.x, y: knuckle.y },
+      };
+    });
+  }, [clusterHands, gestures, command, shape, color, mirrored]);
+}
+
+export {};
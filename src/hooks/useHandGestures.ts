@@ -0,0 +1,61 @@
+/**
+ * Hand Gestures Hook
+ *
+ * Recognizes a stabilized gesture for every tracked hand independently.
+ */
+
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import type { TrackedHand } from '@/types/mediapipe';
+import type { GestureName } from '@/types/shapes';
+import { STABILIZER_CONFIG } from '@/config/constants';
+import { HandGestureTracker } from '@/services/HandGestureTracker';
+
+/**
+ * Follows the rule-based gesture of each tracked hand
+ *
+ * useGestureDetection drives the command hand (custom and motion gestures
+ * included); this is for features that need every hand's gesture, such as
+ * per-hand clusters and force fields.
+ *
+ * @param hands - Tracked hands
+ * @param enabled - Whether any consumer needs the gestures; when false nothing is recognized
+ * @param aspect - Width divided by height of the image the hands were detected in
+ * @returns Committed gesture per hand key (see getHandKeys)
+ *
+ * @example
+ * ```tsx
+ * const gestures = useHandGestures(hands, clusterMode === 'per-hand');
+ * gestures.Left; // 'peace'
+ * ```
+ */
+export function useHandGestures(
+  hands: TrackedHand[],
+  enabled: boolean = true,
+  aspect?: number
+): Record<string, GestureName> {
+  const tracker = useMemo(() => new HandGestureTracker(), []);
+  const gestures = useSyncExternalStore(
+    tracker.subscribe,
+    tracker.getSnapshot,
+    tracker.getSnapshot
+  );
+
+  // Feed the hands, and keep the clock running so release timers expire
+  useEffect(() => {
+    if (!enabled || hands.length === 0) {
+      tracker.reset();
+      return;
+    }
+
+    tracker.update(hands, performance.now(), aspect);
+    const timer = setInterval(() => {
+      tracker.update(hands, performance.now(), aspect);
+    }, STABILIZER_CONFIG.TICK_MS);
+
+    return () => clearInterval(timer);
+  }, [tracker, hands, enabled, aspect]);
+
+  return gestures;
+}
+
+export {};
@@ -0,0 +1,150 @@
+/**
+ * Hand Recording Hook
+ *
+ * Records live hand detections to a versioned JSON format and replays
+ * recordings through the hand tracking pipeline, so the app can be driven
+ * without a camera.
+ */
+
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import type { HandFrame } from '@/types/mediapipe';
+import {
+  HandRecorder,
+  RecordingPlayer,
+  parseRecording,
+  serializeRecording,
+  type PlaybackState,
+} from '@/services/HandRecording';
+import { RecordingHandSource } from '@/services/RecordingHandSource';
+
+/**
+ * Hook return value
+ */
+interface UseHandRecordingResult {
+  /** Whether live frames are being recorded */
+  recording: boolean;
+  /** Input source replaying the loaded recording, or null when tracking live */
+  source: RecordingHandSource | null;
+  /** Playback state of the loaded recording, or null if none */
+  playback: PlaybackState | null;
+  /** Feeds a frame to the recorder; pass to useHandTracking as onFrame */
+  capture: (frame: HandFrame, timestamp: number) => void;
+  /** Starts recording live frames (unloads any recording being replayed) */
+  startRecording: () => void;
+  /** Stops recording and loads the result for replay */
+  stopRecording: () => void;
+  play: () => void;
+  pause: () => void;
+  /** Jumps to a position in milliseconds */
+  seek: (position: number) => void;
+  setLoop: (loop: boolean) => void;
+  /** Unloads the recording and returns to live tracking */
+  eject: () => void;
+  /** Serializes the loaded recording, or returns null if none */
+  exportJson: () => string | null;
+  /** Loads a recording from JSON; throws if the JSON is invalid */
+  importJson: (json: string) => void;
+}
+
+const subscribeNothing = (): (() => void) => () => {};
+
+/**
+ * Records and replays hand tracking sessions
+ *
+ * @returns Recording state, the replay source and playback controls
+ *
+ * @example
+ * ```tsx
+ * const recorder = useHandRecording();
+ * const { hands } = useHandTracking(recorder.source ?? cameraSource, {
+ *   onFrame: recorder.capture,
+ * });
+ * ```
+ */
+export function useHandRecording(): UseHandRecordingResult {
+  const [recording, setRecording] = useState(false);
+  const [player, setPlayer] = useState<RecordingPlayer | null>(null);
+  const recorderRef = useRef(new HandRecorder());
+
+  // Stop the previous player's clock whenever it is replaced or unloaded
+  useEffect(() => {
+    if (!player) return;
+    return () => player.dispose();
+  }, [player]);
+
+  const source = useMemo(
+    () => (player ? new RecordingHandSource(player) : null),
+    [player]
+  );
+
+  const playback = useSyncExternalStore(
+    player ? player.subscribeState : subscribeNothing,
+    () => player?.getState() ?? null,
+    () => null
+  );
+
+  const stopRecording = useCallback(() => {
+    const result = recorderRef.current.stop();
+    setRecording(false);
+    if (result) setPlayer(new RecordingPlayer(result));
+  }, []);
+
+  const capture = useCallback(
+    (frame: HandFrame, timestamp: number) => {
+      const recorder = recorderRef.current;
+      if (recorder.isRecording && !recorder.capture(frame, timestamp)) {
+        // Maximum duration reached
+        stopRecording();
+      }
+    },
+    [stopRecording]
+  );
+
+  const startRecording = useCallback(() => {
+    setPlayer(null);
+    recorderRef.current.start(performance.now());
+    setRecording(true);
+  }, []);
+
+  const play = useCallback(() => player?.play(), [player]);
+  const pause = useCallback(() => player?.pause(), [player]);
+  const seek = useCallback((position: number) => player?.seek(position), [player]);
+  const setLoop = useCallback((loop: boolean) => player?.setLoop(loop), [player]);
+  const eject = useCallback(() => setPlayer(null), []);
+
+  const exportJson = useCallback(
+    () => (player ? serializeRecording(player.recording) : null),
+    [player]
+  );
+
+  const importJson = useCallback((json: string) => {
+    recorderRef.current.stop();
+    setRecording(false);
+    setPlayer(new RecordingPlayer(parseRecording(json)));
+  }, []);
+
+  return {
+    recording,
+    source,
+    playback,
+    capture,
+    startRecording,
+    stopRecording,
+    play,
+    pause,
+    seek,
+    setLoop,
+    eject,
+    exportJson,
+    importJson,
+  };
+}
+
+export {};
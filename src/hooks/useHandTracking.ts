@@ -1,151 +1,247 @@
 /**
  * Hand Tracking Hook
  *
- * Manages MediaPipe Hands initialization, camera setup, and hand detection.
- * Provides hand landmarks and status updates.
+ * Runs a hand input source (camera, recording or simulator) and turns its
+ * detections into tracked hands. Provides raw and smoothed hand landmarks,
+ * hand presence and status updates.
  */
 
-import { useEffect, useRef, useState } from 'react';
-import type { HandLandmarks, HandResults, HandsInstance, CameraInstance } from '@/types/mediapipe';
-import { MEDIAPIPE_CONFIG, CAMERA_CONFIG } from '@/config/constants';
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import type {
+  HandFrame,
+  HandLandmarks,
+  HandPresence,
+  HandPresenceListener,
+  HandPresenceState,
+  TrackedHand,
+} from '@/types/mediapipe';
+import { PRESENCE_CONFIG } from '@/config/constants';
+import { HandKeyTracker, toTrackedHands } from '@/services/HandRoles';
+import { HandPresenceTracker } from '@/services/HandPresence';
+import {
+  HandSmoother,
+  DEFAULT_LANDMARK_FILTER_OPTIONS,
+  type LandmarkFilterType,
+} from '@/services/LandmarkFilter';
+import type { HandInputSource, HandInputStatus } from '@/services/HandInputSource';
+import { DEFAULT_ASPECT } from '@/utils/geometry/handGeometry';
 
 /**
  * Hook return value
  */
 interface UseHandTrackingResult {
-  /** Hand landmarks (21 points) or null if no hand detected */
+  /** Detected hands with handedness labels, smoothed, plus the held poses of lost hands */
+  hands: TrackedHand[];
+  /** All detected hands exactly as the source reported them */
+  rawHands: TrackedHand[];
+  /** Smoothed landmarks (21 points) of the first tracked hand, or null if none */
   landmarks: HandLandmarks | null;
+  /** Raw landmarks of the first detected hand, or null if none */
+  rawLandmarks: HandLandmarks | null;
+  /** 'detected' if any hand is in view, 'lost' while only held hands remain, else 'gone' */
+  presence: HandPresenceState;
+  /** Presence of each detected or lost hand */
+  handPresence: HandPresence[];
+  /** Subscribes to handDetected/handLost/handGone; returns an unsubscribe function */
+  subscribePresence: (listener: HandPresenceListener) => () => void;
+  /** Time of the latest frame from the source, on its clock (ms; 0 before the first) */
+  timestamp: number;
+  /** Width divided by height of the latest frame's image (DEFAULT_ASPECT if unknown) */
+  aspect: number;
   /** Current status message */
   status: string;
-  /** Error message if initialization failed */
+  /** Error message if the source failed to start */
   error: string | null;
 }
 
 /**
- * Manages hand tracking using MediaPipe Hands
+ * Hook options: landmark smoothing filter and its tuning
+ */
+interface UseHandTrackingOptions {
+  /** Smoothing filter applied to `hands`/`landmarks` */
+  filter?: LandmarkFilterType;
+  /** One Euro cutoff frequency at rest (Hz) */
+  minCutoff?: number;
+  /** One Euro speed coefficient */
+  beta?: number;
+  /** One Euro cutoff frequency for the velocity estimate (Hz) */
+  dCutoff?: number;
+  /** Kalman acceleration variance */
+  processNoise?: number;
+  /** Kalman measurement variance */
+  measurementNoise?: number;
+  /** How long a lost hand's last pose is held before it is gone (ms) */
+  graceMs?: number;
+  /** Receives every detection from the source, e.g. for recording */
+  onFrame?: (frame: HandFrame, timestamp: number) => void;
+}
+
+interface TrackedFrame {
+  timestamp: number;
+  aspect: number;
+  raw: TrackedHand[];
+  smoothed: TrackedHand[];
+  presence: HandPresenceState;
+  handPresence: HandPresence[];
+}
+
+const NO_HANDS: TrackedFrame = {
+  timestamp: 0,
+  aspect: DEFAULT_ASPECT,
+  raw: [],
+  smoothed: [],
+  presence: 'gone',
+  handPresence: [],
+};
+const NO_SOURCE_STATUS: HandInputStatus = {
+  state: 'idle',
+  message: 'Waiting for input...',
+};
+const subscribeNothing = (): (() => void) => () => {};
+
+/**
+ * Tracks hands from an input source
  *
- * Initializes MediaPipe Hands and Camera utilities, processes video frames,
- * and provides hand landmark data for gesture recognition.
+ * Starts the source, converts its detections into labelled hands and runs
+ * them through a per-hand smoothing filter; the raw stream stays available.
+ * A hand that drops out of view is held at its last pose for the grace
+ * period (see HandPresenceTracker), so brief occlusions do not reset
+ * gestures. Switching sources stops the old one and clears the hands.
  *
- * @param videoRef - React ref to the video element
- * @param handsReady - Whether MediaPipe Hands script is loaded
- * @param cameraReady - Whether MediaPipe Camera script is loaded
+ * @param source - Where detections come from, or null if none is ready yet
+ * @param options - Smoothing filter, tuning, grace period and a raw frame callback
  * @returns Hand tracking state and landmarks
  *
  * @example
  * ```tsx
- * const videoRef = useRef<HTMLVideoElement>(null);
- * const { landmarks, status } = useHandTracking(videoRef, handsReady, cameraReady);
+ * const source = useMemo(() => new MediaPipeHandSource(videoRef), []);
+ * const { hands, rawHands, status } = useHandTracking(source, { filter: 'kalman' });
  * ```
  */
 export function useHandTracking(
-  videoRef: React.RefObject<HTMLVideoElement | null>,
-  handsReady: boolean,
-  cameraReady: boolean
+  source: HandInputSource | null,
+  options: UseHandTrackingOptions = {}
 ): UseHandTrackingResult {
-  const [landmarks, setLandmarks] = useState<HandLandmarks | null>(null);
-  const [status, setStatus] = useState<string>('Initializing...');
-  const [error, setError] = useState<string | null>(null);
+  const {
+    filter = DEFAULT_LANDMARK_FILTER_OPTIONS.type,
+    minCutoff = DEFAULT_LANDMARK_FILTER_OPTIONS.oneEuro.minCutoff,
+    beta = DEFAULT_LANDMARK_FILTER_OPTIONS.oneEuro.beta,
+    dCutoff = DEFAULT_LANDMARK_FILTER_OPTIONS.oneEuro.dCutoff,
+    processNoise = DEFAULT_LANDMARK_FILTER_OPTIONS.kalman.processNoise,
+    measurementNoise = DEFAULT_LANDMARK_FILTER_OPTIONS.kalman.measurementNoise,
+    graceMs = PRESENCE_CONFIG.GRACE_MS,
+    onFrame,
+  } = options;
+
+  const [frame, setFrame] = useState<TrackedFrame>(NO_HANDS);
+  const inputStatus = useSyncExternalStore(
+    source ? source.subscribeStatus : subscribeNothing,
+    () => source?.getStatus() ?? NO_SOURCE_STATUS,
+    () => NO_SOURCE_STATUS
+  );
+
+  const keysRef = useRef(new HandKeyTracker());
+  const smootherRef = useRef(new HandSmoother());
+  const presenceRef = useRef(new HandPresenceTracker(graceMs));
+  const presenceListenersRef = useRef(new Set<HandPresenceListener>());
+  const onFrameRef = useRef(onFrame);
 
-  const handsRef = useRef<HandsInstance | null>(null);
-  const cameraRef = useRef<CameraInstance | null>(null);
+  useEffect(() => {
+    onFrameRef.current = onFrame;
+  }, [onFrame]);
 
+  // (Re)create the smoother when the filter or its tuning changes
   useEffect(() => {
-    // Wait for scripts to load
-    if (!handsReady || !cameraReady) {
-      setStatus('Loading MediaPipe libraries...');
-      return;
-    }
-
-    // Check if MediaPipe globals are available
-    if (!window.Hands || !window.Camera) {
-      setStatus('Waiting for MediaPipe...');
-      return;
-    }
-
-    // Check if video element is ready
-    if (!videoRef.current) {
-      setStatus('Waiting for video element...');
-      return;
-    }
-
-    // Initialize MediaPipe Hands
-    try {
-      setStatus('Initializing hand tracking...');
-
-      const hands = new window.Hands({
-        locateFile: (file: string) => {
-          return `${MEDIAPIPE_CONFIG.CDN_BASE_URL}${file}`;
-        },
-      });
+    smootherRef.current = new HandSmoother({
+      type: filter,
+      oneEuro: { minCutoff, beta, dCutoff },
+      kalman: { processNoise, measurementNoise },
+      resetGapMs: DEFAULT_LANDMARK_FILTER_OPTIONS.resetGapMs,
+    });
+  }, [filter, minCutoff, beta, dCutoff, processNoise, measurementNoise]);
+
+  // (Re)create the presence tracker when the grace period changes
+  useEffect(() => {
+    const tracker = new HandPresenceTracker(graceMs);
+    const listeners = presenceListenersRef.current;
+    presenceRef.current = tracker;
 
-      hands.setOptions({
-        maxNumHands: MEDIAPIPE_CONFIG.MAX_NUM_HANDS,
-        modelComplexity: MEDIAPIPE_CONFIG.MODEL_COMPLEXITY,
-        minDetectionConfidence: MEDIAPIPE_CONFIG.MIN_DETECTION_CONFIDENCE,
-        minTrackingConfidence: MEDIAPIPE_CONFIG.MIN_TRACKING_CONFIDENCE,
-      });
+    return tracker.subscribe((event) => {
+      listeners.forEach((listener) => listener(event));
+    });
+  }, [graceMs]);
 
-      // Set up results callback
-      hands.onResults((results: HandResults) => {
-        if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-          setLandmarks(results.multiHandLandmarks[0]);
-        } else {
-          setLandmarks(null);
-        }
+  // Run the source and feed its detections through the pipeline
+  useEffect(() => {
+    if (!source) return;
+
+    const keys = keysRef.current;
+    keys.reset();
+    smootherRef.current.reset();
+    const unsubscribe = source.subscribe((results, timestamp) => {
+      onFrameRef.current?.(results, timestamp);
+      const raw = keys.assign(toTrackedHands(results));
+      const presence = presenceRef.current;
+      const smoothed = presence.update(
+        smootherRef.current.apply(raw, timestamp),
+        timestamp
+      );
+      setFrame({
+        timestamp,
+        aspect: results.aspect ?? DEFAULT_ASPECT,
+        raw,
+        smoothed,
+        presence: presence.getState(),
+        handPresence: presence.getPresence(),
       });
+    });
+    source.start();
+
+    // End grace periods even when the source stops sending frames
+    const timer = setInterval(() => {
+      const presence = presenceRef.current;
+      if (!presence.expire(performance.now())) return;
+      setFrame((previous) => ({
+        timestamp: previous.timestamp,
+        aspect: previous.aspect,
+        raw: previous.raw,
+        smoothed: presence.getHands(),
+        presence: presence.getState(),
+        handPresence: presence.getPresence(),
+      }));
+    }, PRESENCE_CONFIG.TICK_MS);
+
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+      source.stop();
+      keys.reset();
+      smootherRef.current.reset();
+      presenceRef.current.reset(performance.now());
+      setFrame(NO_HANDS);
+    };
+  }, [source]);
 
-      handsRef.current = hands;
-    } catch (err) {
-      console.error('Failed to initialize MediaPipe Hands:', err);
-      setError('Failed to initialize hand tracking');
-      setStatus('Error: Hand tracking initialization failed');
-      return;
-    }
-
-    // Initialize camera
-    if (videoRef.current) {
-      try {
-        const camera = new window.Camera(videoRef.current, {
-          onFrame: async () => {
-            if (videoRef.current && handsRef.current) {
-              await handsRef.current.send({ image: videoRef.current });
-            }
-          },
-          width: CAMERA_CONFIG.WIDTH,
-          height: CAMERA_CONFIG.HEIGHT,
-        });
-
-        camera.start();
-        cameraRef.current = camera;
-        setStatus('Camera active. Detecting hands...');
-      } catch (err) {
-        console.error('Failed to initialize camera:', err);
-        setError('Failed to start camera');
-        setStatus('Error: Camera initialization failed');
-        return;
-      }
-    }
-
-    // Cleanup
+  const subscribePresence = useCallback((listener: HandPresenceListener) => {
+    const listeners = presenceListenersRef.current;
+    listeners.add(listener);
     return () => {
-      try {
-        if (handsRef.current) {
-          handsRef.current.close();
-        }
-        if (cameraRef.current) {
-          cameraRef.current.stop();
-        }
-      } catch (err) {
-        console.error('Error during cleanup:', err);
-      }
+      listeners.delete(listener);
     };
-  }, [videoRef, handsReady, cameraReady]);
+  }, []);
 
   return {
-    landmarks,
-    status,
-    error,
+    hands: frame.smoothed,
+    rawHands: frame.raw,
+    landmarks: frame.smoothed.length > 0 ? frame.smoothed[0].landmarks : null,
+    rawLandmarks: frame.raw.length > 0 ? frame.raw[0].landmarks : null,
+    presence: frame.presence,
+    handPresence: frame.handPresence,
+    timestamp: frame.timestamp,
+    aspect: frame.aspect,
+    subscribePresence,
+    status: inputStatus.message,
+    error: inputStatus.state === 'error' ? inputStatus.message : null,
   };
 }
 
@@ -0,0 +1,40 @@
+/**
+ * Inference Metrics Hook
+ *
+ * Samples the inference timing of the active hand input source at a fixed
+ * interval, so the UI does not re-render on every detected frame.
+ */
+
+import { useSyncExternalStore } from 'react';
+import type { HandInputSource } from '@/services/HandInputSource';
+import type { InferenceMetrics } from '@/services/HandDetector';
+import { INFERENCE_CONFIG } from '@/config/constants';
+
+const subscribeInterval = (listener: () => void): (() => void) => {
+  const id = setInterval(listener, INFERENCE_CONFIG.METRICS_INTERVAL_MS);
+  return () => clearInterval(id);
+};
+
+/**
+ * Reads inference metrics from a hand input source
+ *
+ * @param source - Active input source, or null
+ * @returns Latest metrics, or null if the source does not run detection
+ *
+ * @example
+ * ```tsx
+ * const metrics = useInferenceMetrics(source);
+ * <span>{metrics ? `${metrics.latencyMs.toFixed(0)}ms` : '--'}</span>
+ * ```
+ */
+export function useInferenceMetrics(
+  source: HandInputSource | null
+): InferenceMetrics | null {
+  return useSyncExternalStore(
+    subscribeInterval,
+    () => source?.getMetrics?.() ?? null,
+    () => null
+  );
+}
+
+export {};
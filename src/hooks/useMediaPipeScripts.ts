@@ -1,18 +1,31 @@
 /**
  * MediaPipe Script Loading Hook
  *
- * Manages loading of MediaPipe external scripts from CDN.
- * Tracks loading state and provides ready indicators.
+ * Manages loading of the MediaPipe Hands script, self-hosted first with the
+ * CDN as an optional fallback. Tracks loading state, which source the script
+ * came from, and why any attempt failed.
  */
 
 import { useState } from 'react';
+import {
+  describeLoadFailure,
+  getAssetSources,
+  getPackageBaseUrl,
+  getScriptUrl,
+  type AssetSource,
+  type MediaPipePackage,
+} from '@/services/MediaPipeAssets';
 
 /**
- * Script loading state
+ * Loading state of one script
  */
-interface ScriptLoadingState {
-  hands: boolean;
-  camera: boolean;
+export interface ScriptLoadState {
+  /** Source being loaded, or the one that loaded */
+  source: AssetSource;
+  /** 'error' once every source has failed */
+  status: 'loading' | 'ready' | 'error';
+  /** Reason for each failed attempt, oldest first */
+  failures: string[];
 }
 
 /**
@@ -21,57 +34,88 @@ interface ScriptLoadingState {
 interface UseMediaPipeScriptsResult {
   /** Whether MediaPipe Hands script is loaded */
   handsReady: boolean;
-  /** Whether MediaPipe Camera script is loaded */
-  cameraReady: boolean;
-  /** Whether all scripts are loaded */
-  allReady: boolean;
+  /** Current src for the Hands <Script> tag */
+  handsSrc: string;
+  /** Base URL for Hands wasm/model files, or null until the script has loaded */
+  handsBaseUrl: string | null;
+  /** Loading state of the Hands script */
+  hands: ScriptLoadState;
   /** Function to call when Hands script loads */
   onHandsLoad: () => void;
-  /** Function to call when Camera script loads */
-  onCameraLoad: () => void;
+  /** Function to call when Hands script fails to load */
+  onHandsError: () => void;
 }
 
+type ScriptStates = Record<MediaPipePackage, ScriptLoadState>;
+
+const INITIAL_STATE: ScriptLoadState = {
+  source: getAssetSources()[0],
+  status: 'loading',
+  failures: [],
+};
+
 /**
  * Manages MediaPipe script loading state
  *
- * Provides callback functions for Next.js Script component's onLoad events
- * and tracks when scripts are ready for use.
+ * Provides script URLs and callbacks for Next.js Script component's
+ * onLoad/onError events. When a script fails, the reason is recorded and the
+ * next source is tried; key each <Script> by its src so it reloads.
  *
- * @returns Script loading state and callbacks
+ * @returns Script URLs, loading state and callbacks
  *
  * @example
  * ```tsx
- * const { handsReady, cameraReady, onHandsLoad, onCameraLoad } = useMediaPipeScripts();
+ * const { handsSrc, handsReady, hands, onHandsLoad, onHandsError } = useMediaPipeScripts();
  *
  * return (
  *   <>
- *     <Script src="..." onLoad={onHandsLoad} />
- *     <Script src="..." onLoad={onCameraLoad} />
- *     {handsReady && cameraReady && <HandTracker />}
+ *     <Script key={handsSrc} src={handsSrc} onLoad={onHandsLoad} onError={onHandsError} />
+ *     {hands.status === 'error' && <p>{hands.failures.join('; ')}</p>}
  *   </>
  * );
  * ```
  */
 export function useMediaPipeScripts(): UseMediaPipeScriptsResult {
-  const [scriptsLoaded, setScriptsLoaded] = useState<ScriptLoadingState>({
-    hands: false,
-    camera: false,
+  const [scripts, setScripts] = useState<ScriptStates>({
+    hands: INITIAL_STATE,
   });
 
-  const onHandsLoad = (): void => {
-    setScriptsLoaded((prev) => ({ ...prev, hands: true }));
+  const onLoad = (pkg: MediaPipePackage): void => {
+    setScripts((prev) => ({ ...prev, [pkg]: { ...prev[pkg], status: 'ready' } }));
   };
 
-  const onCameraLoad = (): void => {
-    setScriptsLoaded((prev) => ({ ...prev, camera: true }));
+  const onError = async (pkg: MediaPipePackage): Promise<void> => {
+    const failedSource = scripts[pkg].source;
+    const reason = await describeLoadFailure(getScriptUrl(pkg, failedSource));
+    const sources = getAssetSources();
+    const next = sources[sources.indexOf(failedSource) + 1];
+
+    console.error(`Failed to load MediaPipe ${pkg} from ${failedSource}: ${reason}`);
+
+    setScripts((prev) => {
+      // Ignore stale errors from a source that was already replaced
+      if (prev[pkg].source !== failedSource) return prev;
+
+      const failures = [...prev[pkg].failures, reason];
+      return {
+        ...prev,
+        [pkg]: next
+          ? { source: next, status: 'loading', failures }
+          : { ...prev[pkg], status: 'error', failures },
+      };
+    });
   };
 
   return {
-    handsReady: scriptsLoaded.hands,
-    cameraReady: scriptsLoaded.camera,
-    allReady: scriptsLoaded.hands && scriptsLoaded.camera,
-    onHandsLoad,
-    onCameraLoad,
+    handsReady: scripts.hands.status === 'ready',
+    handsSrc: getScriptUrl('hands', scripts.hands.source),
+    handsBaseUrl:
+      scripts.hands.status === 'ready'
+        ? getPackageBaseUrl('hands', scripts.hands.source)
+        : null,
+    hands: scripts.hands,
+    onHandsLoad: () => onLoad('hands'),
+    onHandsError: () => void onError('hands'),
   };
 }
 
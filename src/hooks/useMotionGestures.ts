@@ -0,0 +1,87 @@
+/**
+ * Motion Gesture Hook
+ *
+ * Feeds hand landmarks into a MotionGestureRecognizer over time and reports
+ * swipes, circles, waves and push/pull motions.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { HandLandmarks } from '@/types/mediapipe';
+import type { MotionGestureResult } from '@/types/shapes';
+import { MotionGestureRecognizer } from '@/services/MotionGestureRecognizer';
+import { MOTION_CONFIG } from '@/config/constants';
+
+/**
+ * Hook options
+ */
+interface UseMotionGesturesOptions {
+  /** Whether the video feed is displayed mirrored; directions are as seen on screen */
+  mirrored?: boolean;
+  /** Capture time of `landmarks` (ms); defaults to the time the hook sees them */
+  timestamp?: number;
+  /** Width divided by height of the image `landmarks` were detected in */
+  aspect?: number;
+}
+
+/**
+ * Tracks motion gestures of a single hand
+ *
+ * The buffer is reset whenever the hand is lost, so motions never span
+ * separate appearances of the hand. Pass the frame's timestamp so speeds and
+ * durations follow capture time rather than render timing, which keeps
+ * replays of recordings and videos consistent.
+ *
+ * @param landmarks - Hand landmarks for the current frame, or null if no hand
+ * @param onMotion - Optional callback invoked once per detected motion
+ * @param options - Display mirroring, the frame's timestamp and aspect ratio
+ * @returns The most recently detected motion, or null if none yet
+ *
+ * @example
+ * ```tsx
+ * const motion = useMotionGestures(landmarks, (m) => console.log(m.name), {
+ *   mirrored,
+ *   timestamp,
+ * });
+ * ```
+ */
+export function useMotionGestures(
+  landmarks: HandLandmarks | null,
+  onMotion?: (motion: MotionGestureResult) => void,
+  options: UseMotionGesturesOptions = {}
+): MotionGestureResult | null {
+  const { mirrored = MOTION_CONFIG.MIRROR_X, timestamp, aspect } = options;
+  const [motion, setMotion] = useState<MotionGestureResult | null>(null);
+  const recognizerRef = useRef<MotionGestureRecognizer | null>(null);
+
+  // Keep track of the latest callback without triggering effects
+  const onMotionRef = useRef(onMotion);
+
+  useEffect(() => {
+    onMotionRef.current = onMotion;
+  }, [onMotion]);
+
+  useEffect(() => {
+    if (!recognizerRef.current) {
+      recognizerRef.current = new MotionGestureRecognizer(mirrored);
+    }
+    const recognizer = recognizerRef.current;
+    recognizer.setMirrored(mirrored);
+
+    if (!landmarks || landmarks.length === 0) {
+      recognizer.reset();
+      return;
+    }
+
+    recognizer.addFrame(landmarks, timestamp ?? performance.now(), aspect);
+    const detected = recognizer.detect();
+
+    if (detected) {
+      setMotion(detected);
+      onMotionRef.current?.(detected);
+    }
+  }, [landmarks, mirrored, timestamp, aspect]);
+
+  return motion;
+}
+
+export {};
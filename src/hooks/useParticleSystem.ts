@@ -1,84 +1,275 @@
 import { useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
-import type { ShapeType } from '@/types/shapes';
-import { PARTICLE_CONFIG, ANIMATION_CONFIG, SHAPE_COLORS } from '@/config/constants';
-import { getSphereCoordinates, getScatterCoordinates } from '@/utils/geometry/shapeGenerators';
-import { getTextCoordinates } from '@/utils/geometry/textRenderer';
-import { lerpPositions, lerpColors } from '@/utils/math/interpolation';
+import type {
+  ShapeType,
+  PhysicsParams,
+  ParticleCluster,
+  SimulationMode,
+  ForceField,
+  PaletteName,
+} from '@/types/shapes';
+import type { HandPresenceState } from '@/types/mediapipe';
+import {
+  PARTICLE_CONFIG,
+  ANIMATION_CONFIG,
+  PHYSICS_CONFIG,
+  PRESENCE_CONFIG,
+  CLUSTER_CONFIG,
+  TARGET_CONFIG,
+} from '@/config/constants';
+import { DEFAULT_PHYSICS_PARAMS } from '@/services/PhysicsControl';
+import { lerp } from '@/utils/math/interpolation';
+import { videoToWorld } from '@/utils/geometry/viewport';
+import { assignTargets, resampleTargets } from '@/utils/geometry/targetSampling';
+import { useShapes } from '@/hooks/useShapes';
+import { ParticleMorpher } from '@/services/ParticleMorpher';
+import { shapeRegistry } from '@/services/ShapeRegistry';
+import { ParticleForceSimulator } from '@/services/ParticleForces';
+import type { PlacedField } from '@/services/ParticleForces';
+
+const NO_CLUSTERS: ParticleCluster[] = [];
+const NO_FIELDS: ForceField[] = [];
+
+/**
+ * Uploads the targets of the single formation, or of the per-hand clusters
+ * when there are at least two
+ *
+ * With clusters, particles are split into contiguous, equally sized ranges,
+ * one per cluster, so when a hand leaves its range is absorbed by the
+ * remaining clusters.
+ */
+function retarget(
+  morpher: ParticleMorpher,
+  single: { targets: THREE.Vector3[]; colors: THREE.Color[] },
+  clusters: ParticleCluster[],
+  anchors: Map<string, THREE.Vector3>,
+  palette: PaletteName | null
+): void {
+  if (clusters.length < 2 && single.targets.length === 0) return;
+
+  const count = morpher.count;
+  const targets: THREE.Vector3[] = new Array(count);
+  const colors: THREE.Color[] = new Array(count);
+  // Bakes the morph, so these are the positions the particles start from
+  const positions = morpher.holdPositions();
+
+  if (clusters.length < 2) {
+    fillRange(positions, 0, count, single, targets, colors);
+    morpher.setTargets(targets, colors);
+    return;
+  }
+
+  const clusterIds = new Uint8Array(count);
+
+  clusters.forEach((cluster, c) => {
+    const clusterTargets = shapeRegistry.getCoordinates(cluster.shape, count);
+    const formation = {
+      targets: clusterTargets,
+      colors: shapeColors(cluster.shape, clusterTargets, cluster.color, palette),
+    };
+    const start = Math.floor((c * count) / clusters.length);
+    const end = Math.floor(((c + 1) * count) / clusters.length);
+
+    fillRange(positions, start, end, formation, targets, colors);
+    clusterIds.fill(c, start, end);
+  });
+
+  morpher.setTargets(targets, colors, clusterIds);
+  placeClusters(morpher, clusters, anchors);
+}
+
+/**
+ * Particle colors of a shape
+ *
+ * A selected palette recolors every shape; otherwise a shape with a palette
+ * or color rule keeps its colors and `color` only replaces a single shape
+ * color.
+ */
+function shapeColors(
+  shape: ShapeType,
+  points: THREE.Vector3[],
+  color: THREE.Color | undefined,
+  palette: PaletteName | null
+): THREE.Color[] {
+  const definition = shapeRegistry.get(shape);
+  return palette || !(definition.color instanceof THREE.Color) || !color
+    ? shapeRegistry.getParticleColors(definition.name, points, palette)
+    : [color];
+}
+
+/**
+ * Gives particles start..end-1 targets and colors from a formation
+ *
+ * The formation is resampled to exactly the particles in the range, without
+ * stacking, and each particle takes the target nearest its place in the
+ * current formation (see TARGET_CONFIG.ASSIGNMENT).
+ */
+function fillRange(
+  positions: Float32Array,
+  start: number,
+  end: number,
+  formation: { targets: THREE.Vector3[]; colors: THREE.Color[] },
+  targets: THREE.Vector3[],
+  colors: THREE.Color[]
+): void {
+  // An empty formation (e.g. text that failed to render) keeps its particles in place
+  if (formation.targets.length === 0 || formation.colors.length === 0) {
+    for (let i = start; i < end; i++) {
+      targets[i] = new THREE.Vector3().fromArray(positions, i * 3);
+      colors[i] = formation.colors[0] ?? new THREE.Color(1, 1, 1);
+    }
+    return;
+  }
+
+  const { points, sources } = resampleTargets(formation.targets, end - start);
+  const particles = Uint32Array.from({ length: end - start }, (_, k) => start + k);
+  const assignment =
+    TARGET_CONFIG.ASSIGNMENT === 'spatial'
+      ? assignTargets(positions, particles, points)
+      : particles.map((_, k) => k);
+
+  for (let k = 0; k < particles.length; k++) {
+    const target = assignment[k];
+    targets[start + k] = points[target];
+    colors[start + k] = formation.colors[sources[target] % formation.colors.length];
+  }
+}
+
+/**
+ * Moves each cluster towards its hand
+ *
+ * @param anchors - Smoothed world position per cluster key, updated in place
+ */
+function placeClusters(
+  morpher: ParticleMorpher,
+  clusters: ParticleCluster[],
+  anchors: Map<string, THREE.Vector3>
+): void {
+  const aspect = window.innerWidth / window.innerHeight;
+  const anchorTarget = new THREE.Vector3();
+
+  clusters.forEach((cluster, c) => {
+    videoToWorld(cluster.anchor, anchorTarget, aspect);
+
+    let anchor = anchors.get(cluster.key);
+    if (anchor) {
+      anchor.lerp(anchorTarget, CLUSTER_CONFIG.ANCHOR_LERP_FACTOR);
+    } else {
+      anchor = anchorTarget.clone();
+      anchors.set(cluster.key, anchor);
+    }
+
+    morpher.setClusterTransform(c, anchor, CLUSTER_CONFIG.SCALE);
+  });
+}
+
+/**
+ * Converts screen-anchored fields into the particles' local space, so they
+ * line up with the fingertips whatever the formation's rotation and scale
+ */
+function placeFields(fields: ForceField[], particles: THREE.Object3D): PlacedField[] {
+  const aspect = window.innerWidth / window.innerHeight;
+
+  return fields.map((field) => ({
+    position: particles.worldToLocal(videoToWorld(field.anchor, new THREE.Vector3(), aspect)),
+    polarity: field.polarity,
+  }));
+}
 
 interface UseParticleSystemResult {
   particles: THREE.Points | null;
   currentShape: ShapeType;
-  setTargetShape: (shape: ShapeType) => void;
+  setTargetShape: (shape: ShapeType, color?: THREE.Color) => void;
   particleCount: number;
 }
 
+/**
+ * Hook options: everything besides the shape that moves or colors the particles
+ */
+interface UseParticleSystemOptions {
+  /** Rotation, spread, speed and particle size from the physics hand */
+  physics?: PhysicsParams;
+  /** Replaces the color of single-color shapes */
+  color?: THREE.Color;
+  /** The formation dims while every hand is lost */
+  presence?: HandPresenceState;
+  /** Per-hand clusters; fewer than two show the single formation */
+  clusters?: ParticleCluster[];
+  /** Eased morphing or the force simulation */
+  simulation?: SimulationMode;
+  /** Fingertip fields, used by the force simulation */
+  fields?: ForceField[];
+  /** Recolors every shape, or null for the shapes' own colors */
+  palette?: PaletteName | null;
+}
+
+/**
+ * Creates the particles in `scene` and morphs them into the target shape
+ *
+ * @param scene - Scene to add the particles to, or null until it exists
+ * @param targetShape - Shape of the single formation
+ * @param options - Physics, color, presence, clusters, simulation, fields and palette
+ * @returns The particles and the shape they are morphing into
+ *
+ * @example
+ * ```tsx
+ * const { particles } = useParticleSystem(scene, shape, { physics, color, clusters });
+ * ```
+ */
 export function useParticleSystem(
   scene: THREE.Scene | null,
-  targetShape: string
+  targetShape: ShapeType,
+  options: UseParticleSystemOptions = {}
 ): UseParticleSystemResult {
+  const {
+    physics = DEFAULT_PHYSICS_PARAMS,
+    color: targetColor,
+    presence = 'detected',
+    clusters = NO_CLUSTERS,
+    simulation = 'morph',
+    fields = NO_FIELDS,
+    palette = null,
+  } = options;
   const [currentShape, setCurrentShape] = useState<ShapeType>('sphere');
   const particlesRef = useRef<THREE.Points | null>(null);
-  const geometryRef = useRef<THREE.BufferGeometry | null>(null);
-  const materialRef = useRef<THREE.PointsMaterial | null>(null);
+  const morpherRef = useRef<ParticleMorpher | null>(null);
   const targetPositionsRef = useRef<THREE.Vector3[]>([]);
   const targetColorsRef = useRef<THREE.Color[]>([]);
   const animationIdRef = useRef<number | null>(null);
-
-  // Shape coordinates (generated on client side only)
-  const shapesRef = useRef<Record<string, THREE.Vector3[]> | null>(null);
+  const physicsRef = useRef<PhysicsParams>(physics);
+  const presenceRef = useRef<HandPresenceState>(presence);
+  const clustersRef = useRef<ParticleCluster[]>(clusters);
+  const clusterLayoutRef = useRef('');
+  const clusterAnchorsRef = useRef(new Map<string, THREE.Vector3>());
+  const lerpFactorRef = useRef<number>(ANIMATION_CONFIG.DEFAULT_LERP_FACTOR);
+  const simulationRef = useRef<SimulationMode>(simulation);
+  const fieldsRef = useRef<ForceField[]>(fields);
+  const paletteRef = useRef<PaletteName | null>(palette);
+  const forcesRef = useRef<ParticleForceSimulator | null>(null);
+  const goalsRef = useRef<Float32Array | null>(null);
+
+  // Registered shapes; re-registering or removing the current shape re-targets
+  const shapes = useShapes();
+  const targetDefinition = shapes.find((definition) => definition.name === targetShape);
 
   // Initialize particle system
   useEffect(() => {
     if (!scene) return;
 
-    // Generate shape coordinates (client-side only)
-    if (!shapesRef.current) {
-      shapesRef.current = {
-        sphere: getSphereCoordinates(PARTICLE_CONFIG.COUNT),
-        hello: getTextCoordinates('Hello'),
-        gemini: getTextCoordinates('Gemini'),
-        'sinhala-great': getTextCoordinates('නියමයි'),
-        'sinhala-hello': getTextCoordinates('ආයුබෝවන්'),
-        scatter: getScatterCoordinates(PARTICLE_CONFIG.COUNT),
-      };
-    }
-
-    // Create geometry
-    const geometry = new THREE.BufferGeometry();
-    geometryRef.current = geometry;
-
-    const positions = new Float32Array(PARTICLE_CONFIG.COUNT * 3);
-    const colors = new Float32Array(PARTICLE_CONFIG.COUNT * 3);
-
-    // Initialize with random positions
-    for (let i = 0; i < PARTICLE_CONFIG.COUNT; i++) {
-      positions[i * 3] = (Math.random() - 0.5) * 200;
-      positions[i * 3 + 1] = (Math.random() - 0.5) * 200;
-      positions[i * 3 + 2] = (Math.random() - 0.5) * 200;
-      colors[i * 3] = 0;
-      colors[i * 3 + 1] = 1;
-      colors[i * 3 + 2] = 1;
-    }
-
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-
-    // Create material
-    const material = new THREE.PointsMaterial({
-      size: PARTICLE_CONFIG.SIZE,
-      vertexColors: true,
-      blending: THREE.AdditiveBlending,
-      depthWrite: false,
-      transparent: true,
-      opacity: PARTICLE_CONFIG.OPACITY,
-    });
-    materialRef.current = material;
-
-    // Create particles
-    const particles = new THREE.Points(geometry, material);
-    particlesRef.current = particles;
-    scene.add(particles);
+    // Create particles (morphed on the GPU, starting from a random cloud)
+    const morpher = new ParticleMorpher(PARTICLE_CONFIG.COUNT);
+    morpherRef.current = morpher;
+    particlesRef.current = morpher.points;
+    scene.add(morpher.points);
+    forcesRef.current = new ParticleForceSimulator(morpher.count);
+    goalsRef.current = new Float32Array(morpher.count * 3);
+    retarget(
+      morpher,
+      { targets: targetPositionsRef.current, colors: targetColorsRef.current },
+      clustersRef.current,
+      clusterAnchorsRef.current,
+      paletteRef.current
+    );
 
     // Start animation loop
     startAnimation();
@@ -89,12 +280,9 @@ export function useParticleSystem(
         cancelAnimationFrame(animationIdRef.current);
       }
 
-      if (geometryRef.current) {
-        geometryRef.current.dispose();
-      }
-
-      if (materialRef.current) {
-        materialRef.current.dispose();
+      if (morpherRef.current) {
+        morpherRef.current.dispose();
+        morpherRef.current = null;
       }
 
       if (particlesRef.current && scene) {
@@ -103,35 +291,104 @@ export function useParticleSystem(
     };
   }, [scene]);
 
-  // Update target shape when it changes
+  // Keep the latest physics parameters available to the animation loop
   useEffect(() => {
-    if (!targetShape) return;
-    updateTargetShape(targetShape as ShapeType);
-  }, [targetShape]);
+    physicsRef.current = physics;
+  }, [physics]);
 
-  /**
-   * Updates the target shape for particle morphing
-   */
-  const updateTargetShape = (shapeKey: ShapeType): void => {
-    if (!shapesRef.current) return;
+  // Dim the formation while the hands are lost and only their last pose is held
+  useEffect(() => {
+    presenceRef.current = presence;
+  }, [presence]);
 
-    setCurrentShape(shapeKey);
+  // Switching to force mode starts every particle at rest
+  useEffect(() => {
+    simulationRef.current = simulation;
+    forcesRef.current?.reset();
+  }, [simulation]);
 
-    let newTargets = shapesRef.current[shapeKey] || shapesRef.current.sphere;
-    const newColor = SHAPE_COLORS[shapeKey] || new THREE.Color(1, 1, 1);
+  // Keep the latest fingertip fields available to the animation loop
+  useEffect(() => {
+    fieldsRef.current = fields;
+  }, [fields]);
 
-    // Regenerate scatter for dynamic effect
-    if (shapeKey === 'scatter') {
-      newTargets = getScatterCoordinates(PARTICLE_CONFIG.COUNT);
+  // Keep the latest palette available to re-targeting
+  useEffect(() => {
+    paletteRef.current = palette;
+  }, [palette]);
+
+  // Re-target when clusters appear, leave or change shape or color, or the
+  // palette changes; moving hands only move the cluster transforms. Without
+  // clusters the target shape effect below handles palette changes
+  useEffect(() => {
+    clustersRef.current = clusters;
+
+    const layout = [
+      clusters.length < 2 ? null : palette,
+      ...clusters.map(
+        (cluster) => `${cluster.key}:${cluster.shape}:${cluster.color.getHexString()}`
+      ),
+    ].join('|');
+    if (layout === clusterLayoutRef.current) return;
+    clusterLayoutRef.current = layout;
+
+    const anchors = clusterAnchorsRef.current;
+    const keys = new Set(clusters.map((cluster) => cluster.key));
+    for (const key of anchors.keys()) {
+      if (!keys.has(key)) anchors.delete(key);
     }
 
-    // Set target positions and colors
-    targetPositionsRef.current = [];
-    targetColorsRef.current = [];
+    if (morpherRef.current) {
+      retarget(
+        morpherRef.current,
+        { targets: targetPositionsRef.current, colors: targetColorsRef.current },
+        clusters,
+        anchors,
+        palette
+      );
+    }
+  }, [clusters, palette]);
 
-    for (let i = 0; i < PARTICLE_CONFIG.COUNT; i++) {
-      targetPositionsRef.current.push(newTargets[i % newTargets.length]);
-      targetColorsRef.current.push(newColor);
+  // Update target shape when it changes (or the palette recolors it). Colors
+  // are compared by value: callers may pass a new but equal color every render
+  const targetColorHex = targetColor?.getHex(THREE.LinearSRGBColorSpace);
+  useEffect(() => {
+    if (!targetShape) return;
+    const color =
+      targetColorHex === undefined
+        ? undefined
+        : new THREE.Color().setHex(targetColorHex, THREE.LinearSRGBColorSpace);
+    updateTargetShape(targetShape, color);
+  }, [targetShape, targetColorHex, targetDefinition, palette]);
+
+  /**
+   * Updates the target shape (and optionally its color) for particle morphing
+   *
+   * Unknown shapes fall back to the sphere. A selected palette recolors every
+   * shape; otherwise a shape with a palette or color rule keeps its colors and
+   * `color` only replaces a single shape color.
+   */
+  const updateTargetShape = (shapeKey: ShapeType, color?: THREE.Color): void => {
+    const definition = shapeRegistry.get(shapeKey);
+    setCurrentShape(definition.name);
+
+    const newTargets = shapeRegistry.getCoordinates(definition.name);
+    const newColors = shapeColors(definition.name, newTargets, color, paletteRef.current);
+
+    // Set target positions, colors and morph speed
+    targetPositionsRef.current = newTargets;
+    targetColorsRef.current = newColors;
+    lerpFactorRef.current = shapeRegistry.getLerpFactor(definition.name);
+
+    // Per-hand clusters take their shapes from the clusters instead
+    if (morpherRef.current && clustersRef.current.length < 2) {
+      retarget(
+        morpherRef.current,
+        { targets: newTargets, colors: newColors },
+        NO_CLUSTERS,
+        clusterAnchorsRef.current,
+        paletteRef.current
+      );
     }
   };
 
@@ -142,33 +399,54 @@ export function useParticleSystem(
     const animate = (): void => {
       animationIdRef.current = requestAnimationFrame(animate);
 
-      if (!geometryRef.current || targetPositionsRef.current.length === 0) return;
-
-      const positionsArray = geometryRef.current.attributes.position
-        .array as Float32Array;
-      const colorsArray = geometryRef.current.attributes.color.array as Float32Array;
-
-      // Determine lerp factor based on current shape
-      const posLerpFactor =
-        currentShape === 'scatter'
-          ? ANIMATION_CONFIG.SCATTER_LERP_FACTOR
-          : ANIMATION_CONFIG.DEFAULT_LERP_FACTOR;
-
-      // Animate positions
-      lerpPositions(positionsArray, targetPositionsRef.current, posLerpFactor);
+      const morpher = morpherRef.current;
+      if (!morpher || targetPositionsRef.current.length === 0) return;
+
+      // With several hands, every hand's cluster follows its hand
+      const clusters = clustersRef.current;
+      const clustered = clusters.length > 1;
+      if (clustered) placeClusters(morpher, clusters, clusterAnchorsRef.current);
+
+      const { speed, spread, particleSize } = physicsRef.current;
+
+      // Lerp factor of the current shape, scaled by the physics hand
+      const posLerpFactor = Math.min(lerpFactorRef.current * speed, 1);
+
+      const colorLerpFactor = Math.min(ANIMATION_CONFIG.COLOR_LERP_FACTOR * speed, 1);
+
+      if (simulationRef.current === 'forces' && forcesRef.current && goalsRef.current) {
+        // Springs, damping, noise and fingertip fields move the particles on the CPU
+        const positions = morpher.holdPositions();
+        morpher.getGoals(goalsRef.current);
+        const placedFields = particlesRef.current
+          ? placeFields(fieldsRef.current, particlesRef.current)
+          : [];
+        forcesRef.current.step(positions, goalsRef.current, placedFields, speed);
+        morpher.commitPositions();
+        morpher.advance(0, colorLerpFactor);
+      } else {
+        // Animate positions and colors (blended in the vertex shader)
+        morpher.advance(posLerpFactor, colorLerpFactor);
+      }
 
-      // Animate colors
-      if (targetColorsRef.current.length > 0) {
-        lerpColors(
-          colorsArray,
-          targetColorsRef.current,
-          ANIMATION_CONFIG.COLOR_LERP_FACTOR
+      // Ease the formation scale towards the spread (clusters are placed in world space)
+      if (particlesRef.current) {
+        const scale = lerp(
+          particlesRef.current.scale.x,
+          clustered ? 1 : spread,
+          PHYSICS_CONFIG.SPREAD_LERP_FACTOR
         );
+        particlesRef.current.scale.setScalar(scale);
       }
 
-      // Mark for update
-      geometryRef.current.attributes.position.needsUpdate = true;
-      geometryRef.current.attributes.color.needsUpdate = true;
+      const opacity =
+        presenceRef.current === 'lost'
+          ? PARTICLE_CONFIG.OPACITY * PRESENCE_CONFIG.LOST_OPACITY_FACTOR
+          : PARTICLE_CONFIG.OPACITY;
+      morpher.setAppearance(
+        PARTICLE_CONFIG.SIZE * particleSize,
+        lerp(morpher.opacity, opacity, PRESENCE_CONFIG.OPACITY_LERP_FACTOR)
+      );
     };
 
     animate();
@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+import type { HandLandmarks } from '@/types/mediapipe';
+import type { PhysicsParams } from '@/types/shapes';
+import { getPhysicsParams } from '@/services/PhysicsControl';
+
+/**
+ * Maps the physics hand's landmarks to particle physics parameters
+ *
+ * @param landmarks - Landmarks of the physics hand, or null if absent
+ * @param aspect - Width divided by height of the image they were detected in
+ * @returns Rotation, spread and speed for the particle system
+ *
+ * @example
+ * ```tsx
+ * const physics = usePhysicsControl(roles.physics?.landmarks ?? null);
+ * ```
+ */
+export function usePhysicsControl(
+  landmarks: HandLandmarks | null,
+  aspect?: number
+): PhysicsParams {
+  return useMemo(() => getPhysicsParams(landmarks, aspect), [landmarks, aspect]);
+}
+
+export {};
@@ -0,0 +1,141 @@
+/**
+ * Pinch Control Hook
+ *
+ * Turns thumb-index pinches into analog control: while pinched, dragging the
+ * hand up or down scales the selected parameter multiplicatively.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { HandLandmarks } from '@/types/mediapipe';
+import type { PinchAdjustments, PinchEvent, PinchState, PinchTarget } from '@/types/shapes';
+import { PINCH_CONFIG } from '@/config/constants';
+import { PinchDetector, NO_PINCH } from '@/services/PinchDetector';
+import { clamp } from '@/utils/math/interpolation';
+
+type PinchListener = (event: PinchEvent) => void;
+
+/**
+ * Hook return value
+ */
+interface UsePinchControlResult {
+  /** Current pinch measurement */
+  pinch: PinchState;
+  /** Multipliers set by pinch dragging */
+  adjustments: PinchAdjustments;
+  /** Most recent pinch event, or null if none yet */
+  lastEvent: PinchEvent | null;
+  /** Subscribes to pinchStart/pinchEnd; returns an unsubscribe function */
+  subscribe: (listener: PinchListener) => () => void;
+  /** Resets all multipliers to 1 */
+  resetAdjustments: () => void;
+}
+
+export const DEFAULT_PINCH_ADJUSTMENTS: PinchAdjustments = { scale: 1, size: 1, speed: 1 };
+
+/**
+ * Drag in progress, anchored where the pinch started
+ */
+interface PinchDrag {
+  target: PinchTarget;
+  startY: number;
+  startValue: number;
+}
+
+/**
+ * Tracks pinches of one hand and maps pinch drags to parameter multipliers
+ *
+ * Each doubling needs 1 / PINCH_CONFIG.DRAG_GAIN image heights of travel.
+ * Values persist after the pinch ends, like a knob that stays where it was left.
+ *
+ * @param landmarks - Landmarks of the controlling hand, or null if absent
+ * @param target - Parameter a pinch drag adjusts
+ * @param aspect - Width divided by height of the image the landmarks were detected in
+ * @returns Pinch state, multipliers and event subscription
+ *
+ * @example
+ * ```tsx
+ * const { adjustments } = usePinchControl(landmarks, 'size');
+ * ```
+ */
+export function usePinchControl(
+  landmarks: HandLandmarks | null,
+  target: PinchTarget = PINCH_CONFIG.DEFAULT_TARGET,
+  aspect?: number
+): UsePinchControlResult {
+  const [pinch, setPinch] = useState<PinchState>(NO_PINCH);
+  const [adjustments, setAdjustments] = useState<PinchAdjustments>(DEFAULT_PINCH_ADJUSTMENTS);
+  const [lastEvent, setLastEvent] = useState<PinchEvent | null>(null);
+
+  const detectorRef = useRef<PinchDetector | null>(null);
+  const dragRef = useRef<PinchDrag | null>(null);
+  const listenersRef = useRef(new Set<PinchListener>());
+
+  // Keep the latest target and values available to the pinch listener
+  const targetRef = useRef(target);
+  const adjustmentsRef = useRef(adjustments);
+
+  useEffect(() => {
+    targetRef.current = target;
+    adjustmentsRef.current = adjustments;
+  }, [target, adjustments]);
+
+  useEffect(() => {
+    const detector = new PinchDetector();
+    detectorRef.current = detector;
+
+    const listeners = listenersRef.current;
+    const unsubscribe = detector.subscribe((event) => {
+      setLastEvent(event);
+      dragRef.current =
+        event.type === 'pinchStart'
+          ? {
+              target: targetRef.current,
+              startY: event.state.y,
+              startValue: adjustmentsRef.current[targetRef.current],
+            }
+          : null;
+      listeners.forEach((listener) => listener(event));
+    });
+
+    return () => {
+      unsubscribe();
+      detectorRef.current = null;
+      dragRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const detector = detectorRef.current;
+    if (!detector) return;
+
+    const state = detector.update(landmarks, performance.now(), aspect);
+    setPinch(state);
+
+    // Dragging upwards (smaller image y) increases the value
+    const drag = dragRef.current;
+    if (state.pinching && drag) {
+      const value = clamp(
+        drag.startValue * 2 ** ((drag.startY - state.y) * PINCH_CONFIG.DRAG_GAIN),
+        PINCH_CONFIG.MIN_MULTIPLIER,
+        PINCH_CONFIG.MAX_MULTIPLIER
+      );
+      setAdjustments((prev) =>
+        prev[drag.target] === value ? prev : { ...prev, [drag.target]: value }
+      );
+    }
+  }, [landmarks, aspect]);
+
+  const subscribe = useCallback((listener: PinchListener) => {
+    const listeners = listenersRef.current;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
+  const resetAdjustments = useCallback(() => setAdjustments(DEFAULT_PINCH_ADJUSTMENTS), []);
+
+  return { pinch, adjustments, lastEvent, subscribe, resetAdjustments };
+}
+
+export {};
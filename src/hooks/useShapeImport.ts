@@ -0,0 +1,78 @@
+/**
+ * Shape Import Hook
+ *
+ * Turns dropped or picked files (3D models and images) into registered
+ * particle shapes.
+ */
+
+import { useState } from 'react';
+import type { ShapeType } from '@/types/shapes';
+import { shapeRegistry } from '@/services/ShapeRegistry';
+import { createModelShape } from '@/services/ModelImporter';
+import { createImageShape, isImageFile } from '@/services/ImageImporter';
+import {
+  DEFAULT_IMAGE_SAMPLE_OPTIONS,
+  type ImageSampleOptions,
+} from '@/utils/geometry/imageSampler';
+
+/**
+ * Hook return value
+ */
+interface UseShapeImportResult {
+  /** How the next image is sampled */
+  imageOptions: ImageSampleOptions;
+  updateImageOptions: (changes: Partial<ImageSampleOptions>) => void;
+  /** Progress or the last error, or null when idle */
+  message: string | null;
+  /** Imports a model or image file as a shape; failures end up in `message` */
+  importFile: (file: File) => Promise<void>;
+}
+
+/**
+ * Imports files as particle shapes
+ *
+ * Images are sampled with the current image options, anything else is loaded
+ * as a 3D model. The new shape is registered under the file's name,
+ * replacing an earlier import of the same name; names of built-in shapes get
+ * a numeric suffix (see getFileShapeName).
+ *
+ * @param onImported - Called with the name of every imported shape
+ * @returns Image options, status message and the import function
+ *
+ * @example
+ * ```tsx
+ * const shapeImport = useShapeImport(selectShape);
+ * <div onDrop={(e) => shapeImport.importFile(e.dataTransfer.files[0])} />
+ * ```
+ */
+export function useShapeImport(
+  onImported: (shape: ShapeType) => void
+): UseShapeImportResult {
+  const [imageOptions, setImageOptions] = useState<ImageSampleOptions>(
+    DEFAULT_IMAGE_SAMPLE_OPTIONS
+  );
+  const [message, setMessage] = useState<string | null>(null);
+
+  const updateImageOptions = (changes: Partial<ImageSampleOptions>): void => {
+    setImageOptions((current) => ({ ...current, ...changes }));
+  };
+
+  const importFile = async (file: File): Promise<void> => {
+    setMessage(`LOADING ${file.name}`);
+
+    try {
+      const definition = isImageFile(file)
+        ? await createImageShape(file, imageOptions)
+        : await createModelShape(file);
+      shapeRegistry.register(definition);
+      onImported(definition.name);
+      setMessage(null);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  return { imageOptions, updateImageOptions, message, importFile };
+}
+
+export {};
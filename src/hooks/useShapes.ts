@@ -0,0 +1,31 @@
+/**
+ * Shapes Hook
+ *
+ * Lists the registered particle shapes and re-renders when shapes are
+ * registered or removed.
+ */
+
+import { useSyncExternalStore } from 'react';
+import type { ShapeDefinition } from '@/types/shapes';
+import { shapeRegistry } from '@/services/ShapeRegistry';
+
+/**
+ * Subscribes to the shape registry
+ *
+ * @returns Registered shapes, in registration order
+ *
+ * @example
+ * ```tsx
+ * const shapes = useShapes();
+ * shapes.map((shape) => <option key={shape.name}>{shape.name}</option>);
+ * ```
+ */
+export function useShapes(): ShapeDefinition[] {
+  return useSyncExternalStore(
+    shapeRegistry.subscribe,
+    shapeRegistry.getSnapshot,
+    shapeRegistry.getSnapshot
+  );
+}
+
+export {};
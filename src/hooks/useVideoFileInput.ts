@@ -0,0 +1,80 @@
+/**
+ * Video File Input Hook
+ *
+ * Holds the video file chosen as hand tracking input and exposes its
+ * playback controls.
+ */
+
+import { useCallback, useMemo, useState, useSyncExternalStore } from 'react';
+import {
+  VideoFileHandSource,
+  type VideoPlaybackState,
+} from '@/services/VideoFileHandSource';
+
+/**
+ * Hook return value
+ */
+interface UseVideoFileInputResult {
+  /** Input source for the loaded file, or null if none; pass to useHandTracking */
+  source: VideoFileHandSource | null;
+  /** Playback state of the loaded file, or null if none */
+  playback: VideoPlaybackState | null;
+  /** Loads a video file (replaces any previous one) */
+  load: (file: File) => void;
+  /** Forgets the loaded file */
+  eject: () => void;
+  play: () => void;
+  pause: () => void;
+  /** Jumps to a position in seconds */
+  seek: (time: number) => void;
+  /** Pauses and moves by whole frames (negative steps backwards) */
+  step: (frames: number) => void;
+  setLoop: (loop: boolean) => void;
+}
+
+const subscribeNothing = (): (() => void) => () => {};
+
+/**
+ * Manages a local video file as hand input
+ *
+ * @param videoRef - Video element the file plays in (the one VideoFeed shows)
+ * @param handsBaseUrl - Base URL of the loaded MediaPipe Hands assets, or null until loaded
+ * @returns The file's input source and playback controls
+ *
+ * @example
+ * ```tsx
+ * const video = useVideoFileInput(videoRef, handsBaseUrl);
+ * <input type="file" onChange={(e) => e.target.files && video.load(e.target.files[0])} />
+ * const { hands } = useHandTracking(video.source);
+ * ```
+ */
+export function useVideoFileInput(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  handsBaseUrl: string | null
+): UseVideoFileInputResult {
+  const [file, setFile] = useState<File | null>(null);
+
+  const source = useMemo(
+    () =>
+      file && handsBaseUrl ? new VideoFileHandSource(videoRef, file, handsBaseUrl) : null,
+    [videoRef, file, handsBaseUrl]
+  );
+
+  const playback = useSyncExternalStore(
+    source ? source.subscribePlayback : subscribeNothing,
+    () => source?.getPlayback() ?? null,
+    () => null
+  );
+
+  const load = useCallback((nextFile: File) => setFile(nextFile), []);
+  const eject = useCallback(() => setFile(null), []);
+  const play = useCallback(() => source?.play(), [source]);
+  const pause = useCallback(() => source?.pause(), [source]);
+  const seek = useCallback((time: number) => source?.seek(time), [source]);
+  const step = useCallback((frames: number) => source?.step(frames), [source]);
+  const setLoop = useCallback((loop: boolean) => source?.setLoop(loop), [source]);
+
+  return { source, playback, load, eject, play, pause, seek, step, setLoop };
+}
+
+export {};
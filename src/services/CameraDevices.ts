@@ -0,0 +1,96 @@
+import type { CaptureSettings } from '@/services/CaptureSettingsStore';
+
+/**
+ * A video input the user can choose
+ *
+ * @property deviceId - Browser device id
+ * @property label - Device name (generic until camera permission is granted)
+ */
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+/**
+ * Lists the available video inputs
+ *
+ * Browsers hide device names until camera permission has been granted, so
+ * unnamed devices are numbered instead.
+ *
+ * @returns Video inputs in the browser's order (empty if unsupported)
+ */
+export async function listCameras(): Promise<CameraDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === 'videoinput' && device.deviceId)
+    .map((device, i) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Camera ${i + 1}`,
+    }));
+}
+
+/**
+ * Calls the listener when cameras are plugged in or removed
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeCameraChanges(listener: () => void): () => void {
+  const mediaDevices = navigator.mediaDevices;
+  if (!mediaDevices?.addEventListener) return () => {};
+
+  mediaDevices.addEventListener('devicechange', listener);
+  return () => mediaDevices.removeEventListener('devicechange', listener);
+}
+
+/**
+ * Opens a camera stream with the requested settings
+ *
+ * Resolution and frame rate are preferences the camera may not meet exactly.
+ * If the chosen device is gone, the default camera is opened instead.
+ *
+ * @param settings - Capture settings (mirroring is display-only and ignored)
+ * @returns Live video stream
+ * @throws DOMException from getUserMedia, e.g. NotAllowedError without permission
+ *
+ * @example
+ * ```ts
+ * const stream = await openCamera({ ...settings.capture, deviceId: cameras[1].deviceId });
+ * video.srcObject = stream;
+ * ```
+ */
+export async function openCamera(settings: CaptureSettings): Promise<MediaStream> {
+  const video: MediaTrackConstraints = {
+    width: { ideal: settings.width },
+    height: { ideal: settings.height },
+    frameRate: { ideal: settings.frameRate },
+  };
+
+  if (!settings.deviceId) {
+    return navigator.mediaDevices.getUserMedia({ video });
+  }
+
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      video: { ...video, deviceId: { exact: settings.deviceId } },
+    });
+  } catch (err) {
+    const missing =
+      err instanceof DOMException &&
+      (err.name === 'NotFoundError' || err.name === 'OverconstrainedError');
+    if (!missing) throw err;
+
+    console.warn(`Camera ${settings.deviceId} is unavailable; using the default camera`);
+    return navigator.mediaDevices.getUserMedia({ video });
+  }
+}
+
+/**
+ * Describes a stream's actual capture format, e.g. "1280×720 @ 30fps"
+ */
+export function describeStream(stream: MediaStream): string {
+  const { width, height, frameRate } = stream.getVideoTracks()[0]?.getSettings() ?? {};
+  if (!width || !height) return 'unknown format';
+  return `${width}×${height}${frameRate ? ` @ ${Math.round(frameRate)}fps` : ''}`;
+}
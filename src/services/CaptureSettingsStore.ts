@@ -0,0 +1,177 @@
+import type { HandsOptions } from '@/types/mediapipe';
+import { CAMERA_CONFIG, MEDIAPIPE_CONFIG } from '@/config/constants';
+
+/**
+ * How the camera is captured
+ *
+ * @property deviceId - Camera to use, or null for the browser's default
+ * @property width - Requested width in pixels
+ * @property height - Requested height in pixels
+ * @property frameRate - Requested frames per second
+ * @property mirror - Whether the feed is displayed mirrored
+ */
+export interface CaptureSettings {
+  deviceId: string | null;
+  width: number;
+  height: number;
+  frameRate: number;
+  mirror: boolean;
+}
+
+/**
+ * MediaPipe Hands options that can change at runtime
+ */
+export type DetectionSettings = Pick<
+  HandsOptions,
+  'modelComplexity' | 'minDetectionConfidence' | 'minTrackingConfidence'
+>;
+
+/**
+ * Everything the camera settings panel controls
+ */
+export interface TrackingSettings {
+  capture: CaptureSettings;
+  detection: DetectionSettings;
+}
+
+type Listener = () => void;
+
+export const DEFAULT_TRACKING_SETTINGS: TrackingSettings = {
+  capture: {
+    deviceId: null,
+    width: CAMERA_CONFIG.WIDTH,
+    height: CAMERA_CONFIG.HEIGHT,
+    frameRate: CAMERA_CONFIG.FRAME_RATE,
+    mirror: CAMERA_CONFIG.MIRROR,
+  },
+  detection: {
+    modelComplexity: MEDIAPIPE_CONFIG.MODEL_COMPLEXITY,
+    minDetectionConfidence: MEDIAPIPE_CONFIG.MIN_DETECTION_CONFIDENCE,
+    minTrackingConfidence: MEDIAPIPE_CONFIG.MIN_TRACKING_CONFIDENCE,
+  },
+};
+
+/**
+ * Persistent camera and detection settings
+ *
+ * Backed by localStorage and shaped for React's useSyncExternalStore. Each
+ * group (capture, detection) is only replaced when one of its values
+ * changes, so consumers can depend on them separately.
+ */
+class CaptureSettingsStore {
+  private settings: TrackingSettings | null = null;
+  private listeners = new Set<Listener>();
+
+  public subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  public getSnapshot = (): TrackingSettings => {
+    if (this.settings === null) {
+      this.settings = this.load();
+    }
+    return this.settings;
+  };
+
+  public getServerSnapshot = (): TrackingSettings => DEFAULT_TRACKING_SETTINGS;
+
+  public updateCapture(changes: Partial<CaptureSettings>): void {
+    const current = this.getSnapshot();
+    if (!hasChanges(current.capture, changes)) return;
+    this.commit({ ...current, capture: { ...current.capture, ...changes } });
+  }
+
+  public updateDetection(changes: Partial<DetectionSettings>): void {
+    const current = this.getSnapshot();
+    if (!hasChanges(current.detection, changes)) return;
+    this.commit({ ...current, detection: { ...current.detection, ...changes } });
+  }
+
+  public reset(): void {
+    const current = this.getSnapshot();
+    const defaults = DEFAULT_TRACKING_SETTINGS;
+    const captureChanged = hasChanges(current.capture, defaults.capture);
+    const detectionChanged = hasChanges(current.detection, defaults.detection);
+    if (!captureChanged && !detectionChanged) return;
+
+    this.commit({
+      capture: captureChanged ? defaults.capture : current.capture,
+      detection: detectionChanged ? defaults.detection : current.detection,
+    });
+  }
+
+  private commit(settings: TrackingSettings): void {
+    this.settings = settings;
+    try {
+      window.localStorage.setItem(CAMERA_CONFIG.STORAGE_KEY, JSON.stringify(settings));
+    } catch (err) {
+      console.error('Failed to save capture settings:', err);
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private load(): TrackingSettings {
+    if (typeof window === 'undefined') return DEFAULT_TRACKING_SETTINGS;
+
+    try {
+      const stored = window.localStorage.getItem(CAMERA_CONFIG.STORAGE_KEY);
+      return stored ? parseSettings(stored) : DEFAULT_TRACKING_SETTINGS;
+    } catch (err) {
+      console.error('Failed to load capture settings:', err);
+      return DEFAULT_TRACKING_SETTINGS;
+    }
+  }
+}
+
+/**
+ * Whether applying `changes` would alter any value of `current`
+ */
+function hasChanges<T extends object>(current: T, changes: Partial<T>): boolean {
+  return (Object.keys(changes) as (keyof T)[]).some(
+    (key) => changes[key] !== current[key]
+  );
+}
+
+/**
+ * Reads stored settings, keeping defaults for missing or invalid values
+ */
+function parseSettings(json: string): TrackingSettings {
+  const data = JSON.parse(json) as Partial<TrackingSettings>;
+  const capture: Partial<CaptureSettings> = data.capture ?? {};
+  const detection: Partial<DetectionSettings> = data.detection ?? {};
+  const defaults = DEFAULT_TRACKING_SETTINGS;
+
+  const number = (value: unknown, fallback: number): number =>
+    typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+  return {
+    capture: {
+      deviceId: typeof capture.deviceId === 'string' ? capture.deviceId : null,
+      width: number(capture.width, defaults.capture.width),
+      height: number(capture.height, defaults.capture.height),
+      frameRate: number(capture.frameRate, defaults.capture.frameRate),
+      mirror:
+        typeof capture.mirror === 'boolean' ? capture.mirror : defaults.capture.mirror,
+    },
+    detection: {
+      modelComplexity: [0, 1, 2].includes(detection.modelComplexity as number)
+        ? (detection.modelComplexity as 0 | 1 | 2)
+        : defaults.detection.modelComplexity,
+      minDetectionConfidence: number(
+        detection.minDetectionConfidence,
+        defaults.detection.minDetectionConfidence
+      ),
+      minTrackingConfidence: number(
+        detection.minTrackingConfidence,
+        defaults.detection.minTrackingConfidence
+      ),
+    },
+  };
+}
+
+export const captureSettingsStore = new CaptureSettingsStore();
+
+export {};
@@ -0,0 +1,107 @@
+import type { HandLandmarks } from '@/types/mediapipe';
+import type { CustomGesture, GestureResult } from '@/types/shapes';
+import { CUSTOM_GESTURE_CONFIG } from '@/config/constants';
+import { getPalmFeatures } from '@/utils/geometry/handGeometry';
+import { clamp } from '@/utils/math/interpolation';
+
+interface LabeledSample {
+  name: string;
+  features: number[];
+}
+
+/**
+ * k-nearest-neighbour classifier over user-trained gestures
+ *
+ * Hands are compared as palm-space feature vectors (see getPalmFeatures), so
+ * a pose trained upright is also recognized when the hand is tilted.
+ *
+ * @example
+ * ```ts
+ * const classifier = new CustomGestureClassifier(gestures);
+ * const result = classifier.classify(landmarks); // { name: 'rock-on', confidence: 0.8 } or null
+ * ```
+ */
+export class CustomGestureClassifier {
+  private samples: LabeledSample[];
+  private k: number;
+  private maxDistance: number;
+
+  constructor(
+    gestures: CustomGesture[],
+    k: number = CUSTOM_GESTURE_CONFIG.K,
+    maxDistance: number = CUSTOM_GESTURE_CONFIG.MAX_DISTANCE
+  ) {
+    this.samples = gestures.flatMap((gesture) =>
+      gesture.samples.map((features) => ({ name: gesture.name, features }))
+    );
+    this.k = k;
+    this.maxDistance = maxDistance;
+  }
+
+  public get isEmpty(): boolean {
+    return this.samples.length === 0;
+  }
+
+  /**
+   * Classifies a hand against the trained samples
+   *
+   * Confidence is the winning gesture's share of the k votes, scaled down by
+   * how far its neighbours are. Neighbours beyond maxDistance do not vote.
+   *
+   * @param landmarks - 21 MediaPipe hand landmarks
+   * @param aspect - Width divided by height of the image they were detected in
+   * @returns Best matching gesture, or null if nothing is close enough
+   */
+  public classify(landmarks: HandLandmarks, aspect?: number): GestureResult | null {
+    if (this.isEmpty) return null;
+
+    const features = getPalmFeatures(landmarks, aspect);
+    const neighbours = this.samples
+      .map((sample) => ({ name: sample.name, distance: distance(features, sample.features) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, this.k)
+      .filter((neighbour) => neighbour.distance <= this.maxDistance);
+
+    if (neighbours.length === 0) return null;
+
+    const votes = new Map<string, number[]>();
+    for (const neighbour of neighbours) {
+      const distances = votes.get(neighbour.name) ?? [];
+      distances.push(neighbour.distance);
+      votes.set(neighbour.name, distances);
+    }
+
+    let bestName = '';
+    let bestDistances: number[] = [];
+    for (const [name, distances] of votes) {
+      if (distances.length > bestDistances.length) {
+        bestName = name;
+        bestDistances = distances;
+      }
+    }
+
+    const voteShare = bestDistances.length / Math.min(this.k, this.samples.length);
+    const meanDistance = bestDistances.reduce((sum, d) => sum + d, 0) / bestDistances.length;
+
+    return {
+      name: bestName,
+      confidence: clamp(voteShare * (1 - meanDistance / this.maxDistance), 0, 1),
+    };
+  }
+}
+
+/**
+ * Euclidean distance between feature vectors; vectors of different lengths
+ * (e.g. from another feature version) never match
+ */
+function distance(a: number[], b: number[]): number {
+  if (a.length !== b.length) return Infinity;
+
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += (a[i] - b[i]) ** 2;
+  }
+  return Math.sqrt(sum);
+}
+
+export {};
@@ -0,0 +1,175 @@
+import type { CustomGesture, ShapeType } from '@/types/shapes';
+import { CUSTOM_GESTURE_CONFIG } from '@/config/constants';
+import { gestureRegistry } from '@/services/GestureRegistry';
+import { PALM_FEATURE_COUNT } from '@/utils/geometry/handGeometry';
+
+/**
+ * Exported training data format
+ */
+interface CustomGestureExport {
+  version: number;
+  gestures: CustomGesture[];
+}
+
+/**
+ * Outcome of importing an export file
+ *
+ * @property imported - Number of gestures added or replaced
+ * @property skipped - Names that clash with registered (built-in) gestures
+ */
+export interface CustomGestureImport {
+  imported: number;
+  skipped: string[];
+}
+
+type Listener = () => void;
+
+const EMPTY: CustomGesture[] = [];
+
+/**
+ * Persistent collection of user-trained gestures
+ *
+ * Backed by localStorage and shaped for React's useSyncExternalStore:
+ * every change replaces the snapshot array and notifies subscribers.
+ */
+class CustomGestureStore {
+  private gestures: CustomGesture[] | null = null;
+  private listeners = new Set<Listener>();
+
+  public subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  public getSnapshot = (): CustomGesture[] => {
+    if (this.gestures === null) {
+      this.gestures = this.load();
+    }
+    return this.gestures;
+  };
+
+  public getServerSnapshot = (): CustomGesture[] => EMPTY;
+
+  /**
+   * Adds a gesture, replacing any existing gesture with the same name
+   */
+  public save(gesture: CustomGesture): void {
+    const others = this.getSnapshot().filter((g) => g.name !== gesture.name);
+    this.commit([...others, gesture]);
+  }
+
+  public remove(name: string): void {
+    this.commit(this.getSnapshot().filter((g) => g.name !== name));
+  }
+
+  /**
+   * Serializes all gestures to the versioned JSON export format
+   */
+  public exportJson(): string {
+    const data: CustomGestureExport = {
+      version: CUSTOM_GESTURE_CONFIG.EXPORT_VERSION,
+      gestures: this.getSnapshot(),
+    };
+    return JSON.stringify(data);
+  }
+
+  /**
+   * Merges gestures from an exported JSON string
+   *
+   * Gestures named like a registered gesture are skipped, as in training, so
+   * a shared file cannot shadow a built-in gesture.
+   *
+   * @returns Number of gestures imported and the names skipped
+   * @throws Error if the JSON is not a valid export
+   */
+  public importJson(json: string): CustomGestureImport {
+    const parsed = parseExport(json);
+    const imported = parsed.filter((g) => !gestureRegistry.has(g.name));
+    const names = new Set(imported.map((g) => g.name));
+    const kept = this.getSnapshot().filter((g) => !names.has(g.name));
+    this.commit([...kept, ...imported]);
+    return {
+      imported: imported.length,
+      skipped: parsed.filter((g) => gestureRegistry.has(g.name)).map((g) => g.name),
+    };
+  }
+
+  private commit(gestures: CustomGesture[]): void {
+    this.gestures = gestures;
+    try {
+      window.localStorage.setItem(CUSTOM_GESTURE_CONFIG.STORAGE_KEY, this.exportJson());
+    } catch (err) {
+      console.error('Failed to save custom gestures:', err);
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private load(): CustomGesture[] {
+    if (typeof window === 'undefined') return EMPTY;
+
+    try {
+      const stored = window.localStorage.getItem(CUSTOM_GESTURE_CONFIG.STORAGE_KEY);
+      // Drop gestures stored before imports checked for built-in names
+      return stored
+        ? parseExport(stored).filter((g) => !gestureRegistry.has(g.name))
+        : EMPTY;
+    } catch (err) {
+      console.error('Failed to load custom gestures:', err);
+      return EMPTY;
+    }
+  }
+}
+
+function isCustomGesture(value: unknown): value is CustomGesture {
+  const gesture = value as Partial<CustomGesture> | null;
+  return (
+    typeof gesture === 'object' &&
+    gesture !== null &&
+    typeof gesture.name === 'string' &&
+    gesture.name.trim().length > 0 &&
+    typeof gesture.shape === 'string' &&
+    gesture.shape.length > 0 &&
+    Array.isArray(gesture.samples) &&
+    gesture.samples.every(
+      (sample) =>
+        Array.isArray(sample) &&
+        sample.length === PALM_FEATURE_COUNT &&
+        sample.every((v) => typeof v === 'number')
+    )
+  );
+}
+
+/**
+ * Reads an export, requiring every sample to be a full getPalmFeatures vector
+ * so malformed gestures can not match every hand
+ */
+function parseExport(json: string): CustomGesture[] {
+  const data = JSON.parse(json) as Partial<CustomGestureExport> | null;
+
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Unsupported custom gesture file (not an export object)');
+  }
+
+  if (data.version !== CUSTOM_GESTURE_CONFIG.EXPORT_VERSION || !Array.isArray(data.gestures)) {
+    throw new Error(`Unsupported custom gesture file (version ${data.version})`);
+  }
+
+  return data.gestures.map((gesture: unknown, i) => {
+    if (!isCustomGesture(gesture)) {
+      throw new Error(`Invalid custom gesture at index ${i}`);
+    }
+
+    return {
+      name: gesture.name.trim(),
+      shape: gesture.shape as ShapeType,
+      samples: gesture.samples,
+      createdAt: typeof gesture.createdAt === 'number' ? gesture.createdAt : Date.now(),
+    };
+  });
+}
+
+export const customGestureStore = new CustomGestureStore();
+
+export {};
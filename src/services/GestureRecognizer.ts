@@ -1,102 +1,179 @@
+import * as THREE from 'three';
 import type { HandLandmarks } from '@/types/mediapipe';
-import type { GestureResult, FingerState } from '@/types/shapes';
+import type {
+  GestureResult,
+  GestureName,
+  FingerState,
+  FingerCurl,
+  FingerName,
+  FingerPattern,
+  MotionGestureType,
+  ShapeType,
+} from '@/types/shapes';
 import { LANDMARK_INDICES, GESTURE_CONFIG } from '@/config/constants';
+import {
+  landmarksToVectors,
+  getPalmFrame,
+  getChainBend,
+  type PalmFrame,
+} from '@/utils/geometry/handGeometry';
+import { clamp } from '@/utils/math/interpolation';
+import { gestureRegistry } from '@/services/GestureRegistry';
+import { shapeRegistry } from '@/services/ShapeRegistry';
 
 export class GestureRecognizer {
   private landmarks: HandLandmarks;
-
-  constructor(landmarks: HandLandmarks) {
+  private points: THREE.Vector3[];
+  private palm: PalmFrame;
+
+  /**
+   * @param landmarks - 21 MediaPipe hand landmarks
+   * @param aspect - Width divided by height of the image they were detected in
+   */
+  constructor(landmarks: HandLandmarks, aspect?: number) {
     this.landmarks = landmarks;
+    this.points = landmarksToVectors(landmarks, aspect);
+    this.palm = getPalmFrame(this.points);
   }
 
-  private isFingerUp(tipIdx: number, pipIdx: number): boolean {
-    return this.landmarks[tipIdx].y < this.landmarks[pipIdx].y;
+  /**
+   * Curl of a finger from the bend along MCP→PIP→DIP→TIP
+   *
+   * The MCP bend is measured against the palm's up axis, so the value does
+   * not depend on how the hand is rotated in the image.
+   */
+  private getFingerCurl(mcpIdx: number, pipIdx: number, dipIdx: number, tipIdx: number): number {
+    const chain = [mcpIdx, pipIdx, dipIdx, tipIdx].map((idx) => this.points[idx]);
+    const bend = getChainBend(chain, this.palm.up);
+    return clamp(bend / GESTURE_CONFIG.FINGER_FULL_CURL_ANGLE, 0, 1);
   }
 
-  private isThumbUp(): boolean {
-    const thumbTipY = this.landmarks[LANDMARK_INDICES.THUMB_TIP].y;
-    const indexMcpY = this.landmarks[LANDMARK_INDICES.INDEX_MCP].y;
-    return thumbTipY < indexMcpY;
+  /**
+   * Curl of the thumb
+   *
+   * A thumb tucked over the fingers can stay fairly straight, so joint bend is
+   * averaged with how far the tip reaches from the pinky side of the palm.
+   */
+  private getThumbCurl(): number {
+    const chain = [
+      LANDMARK_INDICES.THUMB_CMC,
+      LANDMARK_INDICES.THUMB_MCP,
+      LANDMARK_INDICES.THUMB_IP,
+      LANDMARK_INDICES.THUMB_TIP,
+    ].map((idx) => this.points[idx]);
+    const baseDirection = new THREE.Vector3().subVectors(
+      chain[0],
+      this.points[LANDMARK_INDICES.WRIST]
+    );
+    const jointCurl = clamp(
+      getChainBend(chain, baseDirection) / GESTURE_CONFIG.THUMB_FULL_CURL_ANGLE,
+      0,
+      1
+    );
+
+    const reach =
+      this.points[LANDMARK_INDICES.THUMB_TIP].distanceTo(
+        this.points[LANDMARK_INDICES.PINKY_MCP]
+      ) / this.palm.size;
+    const reachCurl = clamp(
+      (GESTURE_CONFIG.THUMB_EXTENDED_REACH - reach) /
+        (GESTURE_CONFIG.THUMB_EXTENDED_REACH - GESTURE_CONFIG.THUMB_CURLED_REACH),
+      0,
+      1
+    );
+
+    return (jointCurl + reachCurl) / 2;
   }
 
-  public getFingerState(): FingerState {
+  public getFingerCurls(): FingerCurl {
     return {
-      thumb: this.isThumbUp(),
-      index: this.isFingerUp(LANDMARK_INDICES.INDEX_TIP, LANDMARK_INDICES.INDEX_PIP),
-      middle: this.isFingerUp(LANDMARK_INDICES.MIDDLE_TIP, LANDMARK_INDICES.MIDDLE_PIP),
-      ring: this.isFingerUp(LANDMARK_INDICES.RING_TIP, LANDMARK_INDICES.RING_PIP),
-      pinky: this.isFingerUp(LANDMARK_INDICES.PINKY_TIP, LANDMARK_INDICES.PINKY_PIP),
+      thumb: this.getThumbCurl(),
+      index: this.getFingerCurl(
+        LANDMARK_INDICES.INDEX_MCP,
+        LANDMARK_INDICES.INDEX_PIP,
+        LANDMARK_INDICES.INDEX_DIP,
+        LANDMARK_INDICES.INDEX_TIP
+      ),
+      middle: this.getFingerCurl(
+        LANDMARK_INDICES.MIDDLE_MCP,
+        LANDMARK_INDICES.MIDDLE_PIP,
+        LANDMARK_INDICES.MIDDLE_DIP,
+        LANDMARK_INDICES.MIDDLE_TIP
+      ),
+      ring: this.getFingerCurl(
+        LANDMARK_INDICES.RING_MCP,
+        LANDMARK_INDICES.RING_PIP,
+        LANDMARK_INDICES.RING_DIP,
+        LANDMARK_INDICES.RING_TIP
+      ),
+      pinky: this.getFingerCurl(
+        LANDMARK_INDICES.PINKY_MCP,
+        LANDMARK_INDICES.PINKY_PIP,
+        LANDMARK_INDICES.PINKY_DIP,
+        LANDMARK_INDICES.PINKY_TIP
+      ),
     };
   }
 
-  private countRaisedFingers(): number {
-    const state = this.getFingerState();
-    let count = 0;
+  public getFingerState(): FingerState {
+    const curl = this.getFingerCurls();
+    const isExtended = (value: number) => value < GESTURE_CONFIG.EXTENDED_CURL_THRESHOLD;
 
-    if (state.index) count++;
-    if (state.middle) count++;
-    if (state.ring) count++;
-    if (state.pinky) count++;
+    return {
+      thumb: isExtended(curl.thumb),
+      index: isExtended(curl.index),
+      middle: isExtended(curl.middle),
+      ring: isExtended(curl.ring),
+      pinky: isExtended(curl.pinky),
+      curl,
+    };
+  }
 
-    return count;
+  /**
+   * Confidence that the hand matches a gesture's finger pattern
+   *
+   * The pattern doubles as the prototype: extended fingers target curl 0,
+   * curled fingers curl 1. Each finger scores the average of its clarity (how
+   * far its curl is from the extended/curled threshold, towards the expected
+   * side) and its similarity to the prototype curl. The result is the mean
+   * over the fingers in the pattern.
+   */
+  private getPoseConfidence(curl: FingerCurl, pattern: FingerPattern): number {
+    const threshold = GESTURE_CONFIG.EXTENDED_CURL_THRESHOLD;
+    const fingers = Object.keys(pattern) as FingerName[];
+
+    const total = fingers.reduce((sum, finger) => {
+      const target = pattern[finger] ? 0 : 1;
+      const value = curl[finger];
+      const clarity =
+        target === 0
+          ? (threshold - value) / threshold
+          : (value - threshold) / (1 - threshold);
+      const similarity = 1 - Math.abs(value - target);
+      return sum + (clamp(clarity, 0, 1) + similarity) / 2;
+    }, 0);
+
+    return fingers.length > 0 ? total / fingers.length : 0;
   }
 
+  /**
+   * Matches the hand against the gesture registry, highest priority first
+   */
   public recognizeGesture(): GestureResult {
     const state = this.getFingerState();
-    const fingersUpCount = this.countRaisedFingers();
-
-    // 1. Thumbs Up - Strict detection: thumb up, all others down
-    if (state.thumb && fingersUpCount === 0) {
-      return {
-        name: 'thumbs-up',
-        confidence: 1.0,
-      };
-    }
-
-    // 2. Index finger (pointing)
-    if (state.index && !state.middle && !state.ring && !state.pinky) {
-      return {
-        name: 'index',
-        confidence: 1.0,
-      };
-    }
-
-    // 3. Peace sign / V sign (index + middle)
-    if (state.index && state.middle && !state.ring && !state.pinky) {
-      return {
-        name: 'peace',
-        confidence: 1.0,
-      };
-    }
+    const definition = gestureRegistry.match(state);
 
-    // 4. Three fingers (index + middle + ring)
-    if (state.index && state.middle && state.ring && !state.pinky) {
+    if (!definition) {
+      // No registered gesture matches
       return {
-        name: 'three-fingers',
-        confidence: 1.0,
+        name: 'none',
+        confidence: 0.0,
       };
     }
 
-    // 5. Open palm (four or more fingers)
-    if (fingersUpCount >= GESTURE_CONFIG.OPEN_PALM_FINGER_COUNT) {
-      return {
-        name: 'open-palm',
-        confidence: 1.0,
-      };
-    }
-
-    // 6. Closed fist (no fingers raised)
-    if (fingersUpCount === 0) {
-      return {
-        name: 'fist',
-        confidence: 1.0,
-      };
-    }
-
-    // Default: no recognized gesture
     return {
-      name: 'none',
-      confidence: 0.0,
+      name: definition.name,
+      confidence: this.getPoseConfidence(state.curl, definition.fingers),
     };
   }
 
@@ -107,20 +184,64 @@ export class GestureRecognizer {
   public getHandCenter() {
     return this.landmarks[LANDMARK_INDICES.MIDDLE_MCP];
   }
+
+  /**
+   * Wrist to middle MCP distance in normalized image units
+   */
+  public getPalmSize(): number {
+    return this.palm.size;
+  }
+}
+
+/**
+ * Shape registered for a gesture ('sphere' for 'none' and unknown gestures)
+ */
+export function mapGestureToShape(gestureName: GestureName): ShapeType {
+  return gestureRegistry.getShape(gestureName);
+}
+
+/**
+ * Order in which swipes and circles step through the shapes: every
+ * registered shape, in registration order
+ */
+export function getShapeCycle(): ShapeType[] {
+  return shapeRegistry.list().map((definition) => definition.name);
 }
 
-export function mapGestureToShape(gestureName: string): string {
-  const gestureToShapeMap: Record<string, string> = {
-    'thumbs-up': 'scatter',
-    'index': 'hello',
-    'peace': 'gemini',
-    'three-fingers': 'sinhala-great',
-    'open-palm': 'sphere',
-    'fist': 'sinhala-hello',
-    'none': 'sphere',
-  };
-
-  return gestureToShapeMap[gestureName] || 'sphere';
+/**
+ * Maps a motion gesture to the shape it should switch to
+ *
+ * Horizontal swipes and circles step through getShapeCycle(), push blasts the
+ * particles apart, pull gathers them into the sphere and waving says hello.
+ *
+ * @param motionName - Detected motion gesture
+ * @param currentShape - Shape currently shown
+ * @returns The next shape, or null if the motion does not change the shape
+ */
+export function mapMotionGestureToShape(
+  motionName: MotionGestureType,
+  currentShape: ShapeType
+): ShapeType | null {
+  const cycle = getShapeCycle();
+  const index = Math.max(cycle.indexOf(currentShape), 0);
+  const step = (offset: number) => cycle[(index + offset + cycle.length) % cycle.length];
+
+  switch (motionName) {
+    case 'swipe-right':
+    case 'circle-cw':
+      return step(1);
+    case 'swipe-left':
+    case 'circle-ccw':
+      return step(-1);
+    case 'push':
+      return 'scatter';
+    case 'pull':
+      return 'sphere';
+    case 'wave':
+      return 'hello';
+    default:
+      return null;
+  }
 }
 
 export {};
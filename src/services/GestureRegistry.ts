@@ -0,0 +1,167 @@
+import type {
+  FingerState,
+  GestureDefinition,
+  GestureName,
+  ShapeType,
+} from '@/types/shapes';
+import { SHAPE_COLORS } from '@/config/constants';
+
+/**
+ * Definition used for 'none' (no recognized gesture)
+ */
+const NONE_DEFINITION: GestureDefinition = {
+  name: 'none',
+  fingers: {},
+  priority: -Infinity,
+  displayName: 'STANDBY',
+  shape: 'sphere',
+  color: SHAPE_COLORS.sphere,
+};
+
+/**
+ * Built-in gestures, highest priority first
+ */
+const BUILT_IN_GESTURES: GestureDefinition[] = [
+  {
+    name: 'thumbs-up',
+    fingers: { thumb: true, index: false, middle: false, ring: false, pinky: false },
+    priority: 60,
+    displayName: 'BLAST!',
+    shape: 'scatter',
+    color: SHAPE_COLORS.scatter,
+  },
+  {
+    name: 'index',
+    fingers: { index: true, middle: false, ring: false, pinky: false },
+    priority: 50,
+    displayName: 'Hello',
+    shape: 'hello',
+    color: SHAPE_COLORS.hello,
+  },
+  {
+    name: 'peace',
+    fingers: { index: true, middle: true, ring: false, pinky: false },
+    priority: 40,
+    displayName: 'Gemini',
+    shape: 'gemini',
+    color: SHAPE_COLORS.gemini,
+  },
+  {
+    name: 'three-fingers',
+    fingers: { index: true, middle: true, ring: true, pinky: false },
+    priority: 30,
+    displayName: 'නියමයි (Great)',
+    shape: 'sinhala-great',
+    color: SHAPE_COLORS['sinhala-great'],
+  },
+  {
+    name: 'open-palm',
+    fingers: { index: true, middle: true, ring: true, pinky: true },
+    priority: 20,
+    displayName: 'Open Palm',
+    shape: 'sphere',
+    color: SHAPE_COLORS.sphere,
+  },
+  {
+    name: 'fist',
+    fingers: { thumb: false, index: false, middle: false, ring: false, pinky: false },
+    priority: 10,
+    displayName: 'ආයුබෝවන් (Ayubowan)',
+    shape: 'sinhala-hello',
+    color: SHAPE_COLORS['sinhala-hello'],
+  },
+];
+
+/**
+ * Single source of truth for gestures: rule, priority, label, shape and color
+ *
+ * Adding a gesture is one register() call; recognition, shape mapping and
+ * the HUD all read from here.
+ *
+ * @example
+ * ```ts
+ * gestureRegistry.register({
+ *   name: 'rock-on',
+ *   fingers: { index: true, middle: false, ring: false, pinky: true },
+ *   priority: 45,
+ *   displayName: 'Rock On',
+ *   shape: 'scatter',
+ *   color: new THREE.Color(1, 0.3, 0),
+ * });
+ * ```
+ */
+class GestureRegistry {
+  private definitions = new Map<GestureName, GestureDefinition>();
+  private sorted: GestureDefinition[] = [];
+
+  /**
+   * Registers a gesture, replacing any definition with the same name
+   *
+   * @returns Function that unregisters the gesture
+   * @throws Error if the name is 'none'
+   */
+  public register(definition: GestureDefinition): () => void {
+    if (definition.name === NONE_DEFINITION.name) {
+      throw new Error("'none' is reserved and cannot be registered");
+    }
+
+    this.definitions.set(definition.name, definition);
+    this.sort();
+    return () => this.unregister(definition.name);
+  }
+
+  public unregister(name: GestureName): void {
+    if (this.definitions.delete(name)) {
+      this.sort();
+    }
+  }
+
+  public has(name: GestureName): boolean {
+    return name === NONE_DEFINITION.name || this.definitions.has(name);
+  }
+
+  /**
+   * Definition for a gesture; unknown names resolve to 'none'
+   */
+  public get(name: GestureName): GestureDefinition {
+    return this.definitions.get(name) ?? NONE_DEFINITION;
+  }
+
+  /**
+   * All registered gestures, highest priority first
+   */
+  public list(): GestureDefinition[] {
+    return this.sorted;
+  }
+
+  /**
+   * Highest-priority gesture whose rule matches the finger state
+   */
+  public match(state: FingerState): GestureDefinition | null {
+    return this.sorted.find((definition) => matchesRule(definition, state)) ?? null;
+  }
+
+  public getShape(name: GestureName): ShapeType {
+    return this.get(name).shape;
+  }
+
+  public getDisplayName(name: GestureName): string {
+    return this.get(name).displayName;
+  }
+
+  private sort(): void {
+    this.sorted = [...this.definitions.values()].sort((a, b) => b.priority - a.priority);
+  }
+}
+
+function matchesRule(definition: GestureDefinition, state: FingerState): boolean {
+  const fingersMatch = Object.entries(definition.fingers).every(
+    ([finger, extended]) => state[finger as keyof typeof definition.fingers] === extended
+  );
+  return fingersMatch && (definition.when?.(state) ?? true);
+}
+
+export const gestureRegistry = new GestureRegistry();
+BUILT_IN_GESTURES.forEach((definition) => gestureRegistry.register(definition));
+
+export {};
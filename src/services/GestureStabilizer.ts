@@ -0,0 +1,181 @@
+import type {
+  GestureResult,
+  GestureTransition,
+  GestureTransitionListener,
+} from '@/types/shapes';
+import { STABILIZER_CONFIG } from '@/config/constants';
+
+/**
+ * Tuning for GestureStabilizer
+ *
+ * @property enterConfidence - Confidence needed to start a gesture
+ * @property exitConfidence - Confidence below which an active gesture starts releasing
+ * @property minHoldMs - Time a candidate must be held before it commits
+ * @property releaseDelayMs - Time an active gesture may be missing before it ends
+ * @property holdIntervalMs - Interval between gestureHold events
+ */
+export interface GestureStabilizerOptions {
+  enterConfidence: number;
+  exitConfidence: number;
+  minHoldMs: number;
+  releaseDelayMs: number;
+  holdIntervalMs: number;
+}
+
+export const DEFAULT_STABILIZER_OPTIONS: GestureStabilizerOptions = {
+  enterConfidence: STABILIZER_CONFIG.ENTER_CONFIDENCE,
+  exitConfidence: STABILIZER_CONFIG.EXIT_CONFIDENCE,
+  minHoldMs: STABILIZER_CONFIG.MIN_HOLD_MS,
+  releaseDelayMs: STABILIZER_CONFIG.RELEASE_DELAY_MS,
+  holdIntervalMs: STABILIZER_CONFIG.HOLD_EVENT_INTERVAL_MS,
+};
+
+/**
+ * Gesture state machine with hysteresis, hold time and release delay
+ *
+ * Per-frame detections go in through update(); listeners receive
+ * gestureStart, gestureHold and gestureEnd transitions. Single-frame
+ * misdetections never commit, and a briefly lost gesture does not end.
+ *
+ * @example
+ * ```ts
+ * const stabilizer = new GestureStabilizer();
+ * const unsubscribe = stabilizer.subscribe((t) => console.log(t.type, t.gesture));
+ * stabilizer.update(recognizer.recognizeGesture(), performance.now());
+ * ```
+ */
+export class GestureStabilizer {
+  private options: GestureStabilizerOptions;
+  private listeners = new Set<GestureTransitionListener>();
+
+  private active: GestureResult | null = null;
+  private activeSince = 0;
+  private lastHoldEvent = 0;
+  private releaseSince: number | null = null;
+
+  private candidate: string | null = null;
+  private candidateSince = 0;
+
+  constructor(options: Partial<GestureStabilizerOptions> = {}) {
+    this.options = { ...DEFAULT_STABILIZER_OPTIONS, ...options };
+  }
+
+  public subscribe(listener: GestureTransitionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * The committed gesture, or null if none
+   */
+  public getActiveGesture(): GestureResult | null {
+    return this.active;
+  }
+
+  /**
+   * Feeds one detection into the state machine
+   *
+   * @param result - Detection for the current frame ('none' for no gesture)
+   * @param timestamp - Current time in milliseconds
+   */
+  public update(result: GestureResult, timestamp: number): void {
+    const { exitConfidence, releaseDelayMs } = this.options;
+
+    if (this.active) {
+      const stillHeld =
+        result.name === this.active.name && result.confidence >= exitConfidence;
+
+      if (stillHeld) {
+        this.active = result;
+        this.releaseSince = null;
+        this.emitHold(timestamp);
+        return;
+      }
+
+      if (this.releaseSince === null) {
+        this.releaseSince = timestamp;
+      }
+
+      if (timestamp - this.releaseSince >= releaseDelayMs) {
+        this.emit('gestureEnd', this.active, timestamp);
+        this.active = null;
+        this.releaseSince = null;
+      }
+    }
+
+    this.trackCandidate(result, timestamp);
+  }
+
+  /**
+   * Ends any active gesture immediately and forgets the candidate
+   */
+  public reset(timestamp: number): void {
+    if (this.active) {
+      this.emit('gestureEnd', this.active, timestamp);
+    }
+    this.active = null;
+    this.releaseSince = null;
+    this.candidate = null;
+  }
+
+  private trackCandidate(result: GestureResult, timestamp: number): void {
+    const qualifies =
+      result.name !== 'none' &&
+      result.name !== this.active?.name &&
+      result.confidence >= this.options.enterConfidence;
+
+    if (!qualifies) {
+      this.candidate = null;
+      return;
+    }
+
+    if (this.candidate !== result.name) {
+      this.candidate = result.name;
+      this.candidateSince = timestamp;
+    }
+
+    // Commit once held long enough, replacing a gesture still in its release delay
+    if (!this.active || this.releaseSince !== null) {
+      if (timestamp - this.candidateSince >= this.options.minHoldMs) {
+        if (this.active) {
+          this.emit('gestureEnd', this.active, timestamp);
+        }
+        this.active = result;
+        this.activeSince = timestamp;
+        this.lastHoldEvent = timestamp;
+        this.releaseSince = null;
+        this.candidate = null;
+        this.emit('gestureStart', result, timestamp);
+      }
+    }
+  }
+
+  private emitHold(timestamp: number): void {
+    if (this.active && timestamp - this.lastHoldEvent >= this.options.holdIntervalMs) {
+      this.lastHoldEvent = timestamp;
+      this.emit('gestureHold', this.active, timestamp);
+    }
+  }
+
+  private emit(
+    type: GestureTransition['type'],
+    gesture: GestureResult,
+    timestamp: number
+  ): void {
+    const transition: GestureTransition = {
+      type,
+      gesture: gesture.name,
+      confidence: gesture.confidence,
+      duration: type === 'gestureStart' ? 0 : timestamp - this.activeSince,
+      timestamp,
+    };
+
+    for (const listener of this.listeners) {
+      listener(transition);
+    }
+  }
+}
+
+export {};
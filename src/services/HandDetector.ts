@@ -0,0 +1,429 @@
+import type {
+  HandFrame,
+  HandResults,
+  HandsInstance,
+  HandsOptions,
+} from '@/types/mediapipe';
+import { INFERENCE_CONFIG, MEDIAPIPE_CONFIG } from '@/config/constants';
+import {
+  DEFAULT_TRACKING_SETTINGS,
+  type DetectionSettings,
+} from '@/services/CaptureSettingsStore';
+import type {
+  InferenceRequest,
+  InferenceResponse,
+} from '@/workers/handInferenceProtocol';
+
+export type InferenceMode = 'worker' | 'main-thread';
+
+/**
+ * Inference timing and throughput
+ *
+ * @property mode - Where inference runs
+ * @property latencyMs - Smoothed time from frame capture to landmarks (ms)
+ * @property inferenceMs - Smoothed time spent inside MediaPipe per frame (ms)
+ * @property processed - Frames detected so far
+ * @property dropped - Frames skipped because the previous one was still in flight
+ */
+export interface InferenceMetrics {
+  mode: InferenceMode;
+  latencyMs: number;
+  inferenceMs: number;
+  processed: number;
+  dropped: number;
+}
+
+/**
+ * Runs hand detection on video frames
+ *
+ * At most one frame is in flight; frames offered while busy are dropped
+ * rather than queued, so results never lag behind a backlog of stale frames.
+ */
+export interface HandDetector {
+  readonly mode: InferenceMode;
+  /**
+   * Detects hands in the video's current frame
+   *
+   * @returns True once the frame's results were delivered, false if it was dropped
+   */
+  detect(video: HTMLVideoElement): Promise<boolean>;
+  /** Changes model complexity and confidence thresholds without reloading */
+  setOptions(options: DetectionSettings): void;
+  getMetrics(): InferenceMetrics;
+  close(): void;
+}
+
+type FrameCallback = (frame: HandFrame) => void;
+type FailureCallback = (reason: string) => void;
+
+function getHandsOptions(options: DetectionSettings): HandsOptions {
+  return { maxNumHands: MEDIAPIPE_CONFIG.MAX_NUM_HANDS, ...options };
+}
+
+/**
+ * Creates a MediaPipe Hands detector with the app's model settings
+ *
+ * Requires the MediaPipe Hands script to be loaded (window.Hands).
+ *
+ * @param onResults - Receives the detection results of every sent image
+ * @param assetBaseUrl - Where to fetch wasm and model files (where hands.js came from)
+ * @param options - Model complexity and confidence thresholds
+ * @returns Detector ready for send()
+ */
+export function createHands(
+  onResults: (results: HandResults) => void,
+  assetBaseUrl: string,
+  options: DetectionSettings = DEFAULT_TRACKING_SETTINGS.detection
+): HandsInstance {
+  const hands = new window.Hands({
+    locateFile: (file: string) => {
+      return `${assetBaseUrl}${file}`;
+    },
+  });
+
+  hands.setOptions(getHandsOptions(options));
+  hands.onResults(onResults);
+  return hands;
+}
+
+/**
+ * Exponentially smoothed timing counters
+ */
+class MetricsRecorder {
+  private metrics: InferenceMetrics;
+
+  constructor(mode: InferenceMode) {
+    this.metrics = { mode, latencyMs: 0, inferenceMs: 0, processed: 0, dropped: 0 };
+  }
+
+  public get(): InferenceMetrics {
+    return this.metrics;
+  }
+
+  public drop(): void {
+    this.metrics = { ...this.metrics, dropped: this.metrics.dropped + 1 };
+  }
+
+  public record(latencyMs: number, inferenceMs: number): void {
+    const first = this.metrics.processed === 0;
+    const weight = first ? 1 : INFERENCE_CONFIG.METRICS_SMOOTHING;
+    this.metrics = {
+      ...this.metrics,
+      latencyMs: this.metrics.latencyMs + weight * (latencyMs - this.metrics.latencyMs),
+      inferenceMs:
+        this.metrics.inferenceMs + weight * (inferenceMs - this.metrics.inferenceMs),
+      processed: this.metrics.processed + 1,
+    };
+  }
+}
+
+/**
+ * Detection on the main thread, blocking it for the duration of inference
+ */
+class MainThreadHandDetector implements HandDetector {
+  public readonly mode = 'main-thread';
+
+  private hands: HandsInstance;
+  private metrics = new MetricsRecorder('main-thread');
+  private busy = false;
+
+  constructor(onFrame: FrameCallback, assetBaseUrl: string, options: DetectionSettings) {
+    this.hands = createHands(onFrame, assetBaseUrl, options);
+  }
+
+  public async detect(video: HTMLVideoElement): Promise<boolean> {
+    if (this.busy) {
+      this.metrics.drop();
+      return false;
+    }
+
+    this.busy = true;
+    const start = performance.now();
+    try {
+      await this.hands.send({ image: video });
+    } finally {
+      this.busy = false;
+    }
+
+    const elapsed = performance.now() - start;
+    this.metrics.record(elapsed, elapsed);
+    return true;
+  }
+
+  public setOptions(options: DetectionSettings): void {
+    this.hands.setOptions(options);
+  }
+
+  public getMetrics(): InferenceMetrics {
+    return this.metrics.get();
+  }
+
+  public close(): void {
+    this.hands.close();
+  }
+}
+
+/**
+ * Detection in a Web Worker, fed ImageBitmap snapshots of the video
+ *
+ * Reports a failure once the worker crashes or too many frames in a row
+ * fail (INFERENCE_CONFIG.WORKER_MAX_FRAME_ERRORS).
+ */
+class WorkerHandDetector implements HandDetector {
+  public readonly mode = 'worker';
+
+  private worker: Worker;
+  private onFrame: FrameCallback;
+  private onFailure: FailureCallback;
+  private metrics = new MetricsRecorder('worker');
+  private nextId = 0;
+  private frameErrors = 0;
+  private inFlight: {
+    id: number;
+    sentAt: number;
+    resolve: (delivered: boolean) => void;
+  } | null = null;
+
+  private constructor(
+    worker: Worker,
+    onFrame: FrameCallback,
+    onFailure: FailureCallback
+  ) {
+    this.worker = worker;
+    this.onFrame = onFrame;
+    this.onFailure = onFailure;
+  }
+
+  /**
+   * Starts a worker and waits until its model has loaded
+   *
+   * @param onFailure - Called when the worker stops working after initialization
+   * @throws Error if the worker fails to initialize or times out
+   */
+  public static async create(
+    onFrame: FrameCallback,
+    assetBaseUrl: string,
+    options: DetectionSettings,
+    onFailure: FailureCallback
+  ): Promise<WorkerHandDetector> {
+    const worker = new Worker(
+      new URL('../workers/handInference.worker.ts', import.meta.url)
+    );
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timeout = setTimeout(
+          () => reject(new Error('Hand inference worker timed out')),
+          INFERENCE_CONFIG.WORKER_INIT_TIMEOUT_MS
+        );
+
+        worker.onmessage = (event: MessageEvent<InferenceResponse>) => {
+          if (event.data.type === 'ready') resolve();
+          if (event.data.type === 'error') reject(new Error(event.data.message));
+          clearTimeout(timeout);
+        };
+        worker.onerror = (event) => {
+          clearTimeout(timeout);
+          reject(new Error(event.message || 'Hand inference worker failed to load'));
+        };
+
+        const request: InferenceRequest = {
+          type: 'init',
+          assetBaseUrl: new URL(assetBaseUrl, window.location.href).href,
+          options: getHandsOptions(options),
+        };
+        worker.postMessage(request);
+      });
+    } catch (err) {
+      worker.terminate();
+      throw err;
+    }
+
+    const detector = new WorkerHandDetector(worker, onFrame, onFailure);
+    worker.onmessage = detector.handleMessage;
+    worker.onerror = (event) => {
+      console.error('Hand inference worker error:', event.message);
+      detector.settle(false);
+      detector.onFailure(event.message || 'Hand inference worker crashed');
+    };
+    return detector;
+  }
+
+  public async detect(video: HTMLVideoElement): Promise<boolean> {
+    if (this.inFlight) {
+      this.metrics.drop();
+      return false;
+    }
+
+    const sentAt = performance.now();
+    const id = this.nextId++;
+    const delivered = new Promise<boolean>((resolve) => {
+      this.inFlight = { id, sentAt, resolve };
+    });
+
+    try {
+      const bitmap = await createImageBitmap(video);
+      const request: InferenceRequest = { type: 'frame', id, bitmap };
+      this.worker.postMessage(request, [bitmap]);
+    } catch (err) {
+      console.error('Failed to capture video frame:', err);
+      this.settle(false);
+      this.countFrameError('Video frames cannot be captured for the worker');
+    }
+
+    return delivered;
+  }
+
+  public setOptions(options: DetectionSettings): void {
+    const request: InferenceRequest = { type: 'options', options };
+    this.worker.postMessage(request);
+  }
+
+  public getMetrics(): InferenceMetrics {
+    return this.metrics.get();
+  }
+
+  public close(): void {
+    const request: InferenceRequest = { type: 'close' };
+    this.worker.postMessage(request);
+    this.worker.terminate();
+    this.settle(false);
+  }
+
+  private handleMessage = (event: MessageEvent<InferenceResponse>): void => {
+    const message = event.data;
+
+    if (message.type === 'error') {
+      console.error('Hand inference failed in worker:', message.message);
+      this.settle(false);
+      this.countFrameError(message.message);
+      return;
+    }
+
+    if (message.type !== 'results' || message.id !== this.inFlight?.id) return;
+
+    this.frameErrors = 0;
+    this.metrics.record(performance.now() - this.inFlight.sentAt, message.inferenceMs);
+    this.onFrame(message.frame);
+    this.settle(true);
+  };
+
+  private countFrameError(reason: string): void {
+    this.frameErrors++;
+    if (this.frameErrors === INFERENCE_CONFIG.WORKER_MAX_FRAME_ERRORS) {
+      this.onFailure(reason);
+    }
+  }
+
+  private settle(delivered: boolean): void {
+    const inFlight = this.inFlight;
+    this.inFlight = null;
+    inFlight?.resolve(delivered);
+  }
+}
+
+/**
+ * Worker detection that switches to the main thread for good once the
+ * worker fails
+ */
+class FallbackHandDetector implements HandDetector {
+  private detector: HandDetector;
+  private createFallback: (options: DetectionSettings) => HandDetector;
+  private options: DetectionSettings;
+  private closed = false;
+
+  constructor(
+    worker: WorkerHandDetector,
+    createFallback: (options: DetectionSettings) => HandDetector,
+    options: DetectionSettings
+  ) {
+    this.detector = worker;
+    this.createFallback = createFallback;
+    this.options = options;
+  }
+
+  public get mode(): InferenceMode {
+    return this.detector.mode;
+  }
+
+  public detect(video: HTMLVideoElement): Promise<boolean> {
+    return this.detector.detect(video);
+  }
+
+  public setOptions(options: DetectionSettings): void {
+    this.options = options;
+    this.detector.setOptions(options);
+  }
+
+  public getMetrics(): InferenceMetrics {
+    return this.detector.getMetrics();
+  }
+
+  public close(): void {
+    this.closed = true;
+    this.detector.close();
+  }
+
+  /**
+   * Tears down the worker and continues on the main thread
+   */
+  public fallBack = (reason: string): void => {
+    if (this.closed || this.detector.mode === 'main-thread') return;
+
+    console.warn('Hand inference worker failed, switching to the main thread:', reason);
+    const worker = this.detector;
+    this.detector = this.createFallback(this.options);
+    worker.close();
+  };
+}
+
+/**
+ * Creates the best available hand detector
+ *
+ * Uses a Web Worker when INFERENCE_CONFIG.USE_WORKER is set and the browser
+ * supports workers and createImageBitmap. If the worker cannot start, or
+ * later crashes or keeps failing on frames, detection falls back to
+ * main-thread inference.
+ *
+ * @param onFrame - Receives the detections of every processed frame
+ * @param assetBaseUrl - Where hands.js and its wasm/model files are served
+ * @param options - Model complexity and confidence thresholds
+ * @returns Initialized detector
+ *
+ * @example
+ * ```ts
+ * const detector = await createHandDetector((frame) => emit(frame), '/mediapipe/hands/');
+ * await detector.detect(video);
+ * console.log(detector.getMetrics().latencyMs);
+ * ```
+ */
+export async function createHandDetector(
+  onFrame: FrameCallback,
+  assetBaseUrl: string,
+  options: DetectionSettings = DEFAULT_TRACKING_SETTINGS.detection
+): Promise<HandDetector> {
+  const workerSupported =
+    typeof Worker !== 'undefined' && typeof createImageBitmap === 'function';
+
+  if (INFERENCE_CONFIG.USE_WORKER && workerSupported) {
+    try {
+      let detector: FallbackHandDetector | null = null;
+      const worker = await WorkerHandDetector.create(
+        onFrame,
+        assetBaseUrl,
+        options,
+        (reason) => detector?.fallBack(reason)
+      );
+      detector = new FallbackHandDetector(
+        worker,
+        (current) => new MainThreadHandDetector(onFrame, assetBaseUrl, current),
+        options
+      );
+      return detector;
+    } catch (err) {
+      console.warn('Falling back to main-thread hand inference:', err);
+    }
+  }
+
+  return new MainThreadHandDetector(onFrame, assetBaseUrl, options);
+}
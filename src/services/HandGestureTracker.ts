@@ -0,0 +1,90 @@
+import type { TrackedHand } from '@/types/mediapipe';
+import type { GestureName } from '@/types/shapes';
+import { GestureRecognizer } from '@/services/GestureRecognizer';
+import { GestureStabilizer } from '@/services/GestureStabilizer';
+import { getHandKeys } from '@/services/HandRoles';
+
+type Listener = () => void;
+
+const NO_GESTURES: Record<string, GestureName> = {};
+
+/**
+ * Stabilized rule-based gestures for every tracked hand at once
+ *
+ * useGestureDetection follows a single hand; this runs one GestureStabilizer
+ * per hand key so each hand can command its own particle cluster. The
+ * snapshot maps hand keys to committed gestures and is shaped for React's
+ * useSyncExternalStore: it is only replaced when a committed gesture changes.
+ *
+ * @example
+ * ```ts
+ * const tracker = new HandGestureTracker();
+ * tracker.update(hands, performance.now());
+ * tracker.getSnapshot(); // { Left: 'peace', Right: 'none' }
+ * ```
+ */
+export class HandGestureTracker {
+  private stabilizers = new Map<string, GestureStabilizer>();
+  private gestures = NO_GESTURES;
+  private listeners = new Set<Listener>();
+
+  public subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  public getSnapshot = (): Record<string, GestureName> => this.gestures;
+
+  /**
+   * Feeds one frame of hands; hands that are no longer tracked are forgotten
+   *
+   * @param hands - Tracked hands
+   * @param timestamp - Current time in milliseconds
+   * @param aspect - Width divided by height of the image the hands were detected in
+   */
+  public update(hands: TrackedHand[], timestamp: number, aspect?: number): void {
+    const keys = getHandKeys(hands);
+    const gestures: Record<string, GestureName> = {};
+
+    hands.forEach((hand, i) => {
+      let stabilizer = this.stabilizers.get(keys[i]);
+      if (!stabilizer) {
+        stabilizer = new GestureStabilizer();
+        this.stabilizers.set(keys[i], stabilizer);
+      }
+
+      stabilizer.update(
+        new GestureRecognizer(hand.landmarks, aspect).recognizeGesture(),
+        timestamp
+      );
+      gestures[keys[i]] = stabilizer.getActiveGesture()?.name ?? 'none';
+    });
+
+    for (const key of this.stabilizers.keys()) {
+      if (!keys.includes(key)) this.stabilizers.delete(key);
+    }
+
+    this.commit(gestures);
+  }
+
+  /**
+   * Forgets every hand
+   */
+  public reset(): void {
+    this.stabilizers.clear();
+    this.commit(NO_GESTURES);
+  }
+
+  private commit(gestures: Record<string, GestureName>): void {
+    const previous = Object.entries(this.gestures);
+    const changed =
+      previous.length !== Object.keys(gestures).length ||
+      previous.some(([key, gesture]) => gestures[key] !== gesture);
+    if (!changed) return;
+
+    this.gestures = gestures;
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,90 @@
+import type { HandFrame } from '@/types/mediapipe';
+import type { InferenceMetrics } from '@/services/HandDetector';
+
+export type HandInputKind = 'camera' | 'video' | 'recording' | 'simulator';
+
+/**
+ * Lifecycle state of an input source
+ *
+ * @property state - 'idle' before start/after stop, 'starting' while initializing
+ * @property message - Human-readable status line
+ */
+export interface HandInputStatus {
+  state: 'idle' | 'starting' | 'running' | 'error';
+  message: string;
+}
+
+export type HandFrameListener = (frame: HandFrame, timestamp: number) => void;
+
+/**
+ * Anything that produces hand detections: a camera, a video file, a recording,
+ * a simulator
+ *
+ * Frames are emitted to subscribers in MediaPipe's result format. The status
+ * snapshot (getStatus/subscribeStatus) is shaped for useSyncExternalStore.
+ */
+export interface HandInputSource {
+  readonly kind: HandInputKind;
+  /** Begins producing frames; calling it while running has no effect */
+  start(): void;
+  /** Stops producing frames and releases resources; the source can be restarted */
+  stop(): void;
+  subscribe(listener: HandFrameListener): () => void;
+  subscribeStatus: (listener: () => void) => () => void;
+  getStatus: () => HandInputStatus;
+  /** Inference timing, for sources that run detection themselves */
+  getMetrics?: () => InferenceMetrics | null;
+}
+
+export const IDLE_STATUS: HandInputStatus = { state: 'idle', message: 'Idle' };
+
+/**
+ * Width divided by height of a video's frames, or undefined before its
+ * metadata has loaded
+ */
+export function getVideoAspect(video: HTMLVideoElement): number | undefined {
+  return video.videoWidth > 0 && video.videoHeight > 0
+    ? video.videoWidth / video.videoHeight
+    : undefined;
+}
+
+/**
+ * Listener and status bookkeeping shared by the input sources
+ */
+export abstract class BaseHandInputSource implements HandInputSource {
+  public abstract readonly kind: HandInputKind;
+
+  private status: HandInputStatus = IDLE_STATUS;
+  private frameListeners = new Set<HandFrameListener>();
+  private statusListeners = new Set<() => void>();
+
+  public abstract start(): void;
+  public abstract stop(): void;
+
+  public subscribe(listener: HandFrameListener): () => void {
+    this.frameListeners.add(listener);
+    return () => {
+      this.frameListeners.delete(listener);
+    };
+  }
+
+  public subscribeStatus = (listener: () => void): (() => void) => {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  };
+
+  public getStatus = (): HandInputStatus => this.status;
+
+  protected emitFrame(frame: HandFrame, timestamp: number): void {
+    for (const listener of this.frameListeners) {
+      listener(frame, timestamp);
+    }
+  }
+
+  protected setStatus(state: HandInputStatus['state'], message: string): void {
+    this.status = { state, message };
+    this.statusListeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,175 @@
+import type {
+  HandPresence,
+  HandPresenceEvent,
+  HandPresenceListener,
+  HandPresenceState,
+  TrackedHand,
+} from '@/types/mediapipe';
+import { PRESENCE_CONFIG } from '@/config/constants';
+import { getHandKeys } from '@/services/HandRoles';
+
+interface PresenceEntry {
+  hand: TrackedHand;
+  presence: HandPresence;
+}
+
+/**
+ * Detected → lost → gone lifecycle of the tracked hands
+ *
+ * Hands are matched across frames by their keys (see getHandKeys).
+ * A hand missing from a frame is held at its last pose for `graceMs`; if it
+ * comes back in time it simply continues, otherwise it is dropped. A new
+ * hand appearing where a lost one was replaces it at once. Frames
+ * without hands can stop arriving altogether (e.g. a paused recording), so
+ * expire() lets a timer end the grace period independently of update().
+ *
+ * @example
+ * ```ts
+ * const presence = new HandPresenceTracker();
+ * presence.subscribe((e) => console.log(e.type, e.label));
+ * const hands = presence.update(smoothedHands, performance.now()); // includes held hands
+ * ```
+ */
+export class HandPresenceTracker {
+  private graceMs: number;
+  private entries = new Map<string, PresenceEntry>();
+  private listeners = new Set<HandPresenceListener>();
+
+  constructor(graceMs: number = PRESENCE_CONFIG.GRACE_MS) {
+    this.graceMs = graceMs;
+  }
+
+  public subscribe(listener: HandPresenceListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Records the hands seen in a frame
+   *
+   * @param hands - Hands detected in this frame
+   * @param timestamp - Frame time in milliseconds
+   * @returns Detected hands followed by the held poses of lost hands
+   */
+  public update(hands: TrackedHand[], timestamp: number): TrackedHand[] {
+    const keys = getHandKeys(hands);
+    const seen = new Set(keys);
+
+    for (const [i, hand] of hands.entries()) {
+      const key = keys[i];
+      const entry = this.entries.get(key);
+      if (entry?.presence.state === 'detected') {
+        entry.hand = hand;
+        continue;
+      }
+
+      if (!entry) this.dropRelabelled(hand, seen, timestamp);
+      this.entries.set(key, {
+        hand,
+        presence: { label: hand.label, state: 'detected', since: timestamp },
+      });
+      this.emit('handDetected', hand, entry !== undefined, timestamp);
+    }
+
+    for (const [key, entry] of this.entries) {
+      if (seen.has(key) || entry.presence.state === 'lost') continue;
+      entry.presence = { label: entry.hand.label, state: 'lost', since: timestamp };
+      this.emit('handLost', entry.hand, false, timestamp);
+    }
+
+    this.expire(timestamp);
+    return this.getHands();
+  }
+
+  /**
+   * Drops lost hands whose grace period has run out
+   *
+   * @param timestamp - Current time in milliseconds
+   * @returns Whether any hand was dropped
+   */
+  public expire(timestamp: number): boolean {
+    let changed = false;
+
+    for (const [key, entry] of this.entries) {
+      const { state, since } = entry.presence;
+      if (state === 'lost' && timestamp - since >= this.graceMs) {
+        this.entries.delete(key);
+        this.emit('handGone', entry.hand, false, timestamp);
+        changed = true;
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Detected hands followed by the held poses of lost hands
+   */
+  public getHands(): TrackedHand[] {
+    const entries = [...this.entries.values()];
+    return [
+      ...entries.filter((e) => e.presence.state === 'detected'),
+      ...entries.filter((e) => e.presence.state === 'lost'),
+    ].map((e) => e.hand);
+  }
+
+  /**
+   * Presence of every hand that is detected or lost
+   */
+  public getPresence(): HandPresence[] {
+    return [...this.entries.values()].map((e) => e.presence);
+  }
+
+  /**
+   * Overall state: detected if any hand is, lost if only held hands remain
+   */
+  public getState(): HandPresenceState {
+    const states = [...this.entries.values()].map((e) => e.presence.state);
+    if (states.includes('detected')) return 'detected';
+    return states.length > 0 ? 'lost' : 'gone';
+  }
+
+  /**
+   * Drops every hand at once, emitting handGone for each
+   */
+  public reset(timestamp: number): void {
+    const entries = [...this.entries.values()];
+    this.entries.clear();
+    entries.forEach((entry) => this.emit('handGone', entry.hand, false, timestamp));
+  }
+
+  /**
+   * Drops a missing hand that reappears as `hand` under a different label
+   *
+   * MediaPipe occasionally flips the handedness of a hand between frames;
+   * without this the old label would linger as a held ghost next to it.
+   */
+  private dropRelabelled(hand: TrackedHand, seen: Set<string>, timestamp: number): void {
+    const wrist = hand.landmarks[0];
+    if (!wrist) return;
+
+    for (const [key, entry] of this.entries) {
+      const missingWrist = entry.hand.landmarks[0];
+      if (seen.has(key) || !missingWrist) continue;
+
+      const distance = Math.hypot(wrist.x - missingWrist.x, wrist.y - missingWrist.y);
+      if (distance < PRESENCE_CONFIG.RELABEL_DISTANCE) {
+        this.entries.delete(key);
+        this.emit('handGone', entry.hand, false, timestamp);
+        return;
+      }
+    }
+  }
+
+  private emit(
+    type: HandPresenceEvent['type'],
+    hand: TrackedHand,
+    recovered: boolean,
+    timestamp: number
+  ): void {
+    const event: HandPresenceEvent = { type, label: hand.label, recovered, timestamp };
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
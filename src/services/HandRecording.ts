@@ -0,0 +1,398 @@
+import type {
+  HandFrame,
+  Handedness,
+  HandLandmarks,
+  HandRecording,
+  RecordedFrame,
+} from '@/types/mediapipe';
+import { HAND_LANDMARK_COUNT, RECORDING_CONFIG } from '@/config/constants';
+
+/**
+ * Playback position and mode
+ *
+ * @property playing - Whether the clock is running
+ * @property position - Current position in milliseconds
+ * @property duration - Recording length in milliseconds
+ * @property loop - Whether playback wraps around at the end
+ */
+export interface PlaybackState {
+  playing: boolean;
+  position: number;
+  duration: number;
+  loop: boolean;
+}
+
+/** Receives a frame and its replay time in milliseconds (performance.now() clock) */
+type FrameListener = (frame: HandFrame, timestamp: number) => void;
+type StateListener = () => void;
+
+function round(value: number): number {
+  const factor = 10 ** RECORDING_CONFIG.PRECISION;
+  return Math.round(value * factor) / factor;
+}
+
+function roundLandmarks(landmarks: HandLandmarks): HandLandmarks {
+  return landmarks.map(({ x, y, z }) => ({ x: round(x), y: round(y), z: round(z) }));
+}
+
+/**
+ * Captures hand detections into a HandRecording
+ *
+ * @example
+ * ```ts
+ * const recorder = new HandRecorder();
+ * recorder.start(performance.now());
+ * hands.onResults((results) => recorder.capture(results, performance.now()));
+ * const recording = recorder.stop();
+ * ```
+ */
+export class HandRecorder {
+  private frames: RecordedFrame[] = [];
+  private startTime: number | null = null;
+
+  public get isRecording(): boolean {
+    return this.startTime !== null;
+  }
+
+  /**
+   * Starts a new recording, discarding any frames not yet collected by stop()
+   */
+  public start(timestamp: number): void {
+    this.frames = [];
+    this.startTime = timestamp;
+  }
+
+  /**
+   * Adds one frame if recording
+   *
+   * @param frame - Detection results (the image, if any, is not stored)
+   * @param timestamp - Frame time in milliseconds, on the same clock as start()
+   * @returns False once the maximum duration has been reached
+   */
+  public capture(frame: HandFrame, timestamp: number): boolean {
+    if (this.startTime === null) return false;
+
+    const elapsed = timestamp - this.startTime;
+    if (elapsed > RECORDING_CONFIG.MAX_DURATION_MS) return false;
+
+    this.frames.push({
+      timestamp: Math.round(elapsed),
+      multiHandLandmarks: (frame.multiHandLandmarks ?? []).map(roundLandmarks),
+      multiHandedness: (frame.multiHandedness ?? []).map(({ index, score, label }) => ({
+        index,
+        score: round(score),
+        label,
+      })),
+      aspect: frame.aspect === undefined ? undefined : round(frame.aspect),
+    });
+    return true;
+  }
+
+  /**
+   * Ends the recording
+   *
+   * @returns The recording, or null if nothing was captured
+   */
+  public stop(): HandRecording | null {
+    const frames = this.frames;
+    this.frames = [];
+    this.startTime = null;
+
+    if (frames.length === 0) return null;
+
+    return {
+      version: RECORDING_CONFIG.FORMAT_VERSION,
+      recordedAt: new Date().toISOString(),
+      duration: frames[frames.length - 1].timestamp,
+      frames,
+    };
+  }
+}
+
+/**
+ * Serializes a recording to its JSON file format
+ */
+export function serializeRecording(recording: HandRecording): string {
+  return JSON.stringify(recording);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isLandmarkList(value: unknown): value is HandLandmarks {
+  return (
+    Array.isArray(value) &&
+    value.length === HAND_LANDMARK_COUNT &&
+    value.every(
+      (point) =>
+        typeof point?.x === 'number' &&
+        typeof point?.y === 'number' &&
+        typeof point?.z === 'number'
+    )
+  );
+}
+
+function isHandedness(value: unknown): value is Handedness {
+  return (
+    isObject(value) &&
+    (value.label === 'Left' || value.label === 'Right') &&
+    typeof value.score === 'number'
+  );
+}
+
+function isRecordedFrame(value: unknown): value is RecordedFrame {
+  return (
+    isObject(value) &&
+    typeof value.timestamp === 'number' &&
+    Array.isArray(value.multiHandLandmarks) &&
+    value.multiHandLandmarks.every(isLandmarkList) &&
+    (value.multiHandedness === undefined ||
+      (Array.isArray(value.multiHandedness) &&
+        value.multiHandedness.every(isHandedness))) &&
+    (value.aspect === undefined || (typeof value.aspect === 'number' && value.aspect > 0))
+  );
+}
+
+/**
+ * Parses and validates a recording file
+ *
+ * Every hand must have all HAND_LANDMARK_COUNT landmarks and every
+ * handedness entry a label and score, so a replayed frame can not break the
+ * recognizers.
+ *
+ * @param json - Contents of a file written by serializeRecording
+ * @returns The recording with frames sorted by timestamp
+ * @throws Error if the JSON is not a valid recording of a supported version
+ */
+export function parseRecording(json: string): HandRecording {
+  const parsed: unknown = JSON.parse(json);
+  if (!isObject(parsed)) {
+    throw new Error('Unsupported hand recording (not a recording object)');
+  }
+  const data = parsed as Partial<HandRecording>;
+
+  if (data.version !== RECORDING_CONFIG.FORMAT_VERSION || !Array.isArray(data.frames)) {
+    throw new Error(`Unsupported hand recording (version ${data.version})`);
+  }
+
+  const frames = data.frames.map((frame: unknown, i): RecordedFrame => {
+    if (!isRecordedFrame(frame)) {
+      throw new Error(`Invalid recording frame at index ${i}`);
+    }
+
+    return {
+      timestamp: frame.timestamp,
+      multiHandLandmarks: frame.multiHandLandmarks,
+      multiHandedness: frame.multiHandedness,
+      aspect: frame.aspect,
+    };
+  });
+
+  if (frames.length === 0) {
+    throw new Error('Hand recording has no frames');
+  }
+
+  frames.sort((a, b) => a.timestamp - b.timestamp);
+
+  return {
+    version: data.version,
+    recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '',
+    duration: frames[frames.length - 1].timestamp,
+    frames,
+  };
+}
+
+/**
+ * Replays a HandRecording in real time
+ *
+ * Emits every frame to subscribers, in order, once the playback clock has
+ * reached it, together with its time on the performance.now() clock: the
+ * playback start plus the recorded timestamp. Time between frames is
+ * therefore exactly as recorded, however late the animation frames run, so
+ * filters and gesture timing behave the same on every replay. Looping
+ * continues the clock, one mean frame interval after the last frame.
+ *
+ * The state snapshot (getState/subscribeState) is shaped for
+ * useSyncExternalStore; while playing, the position in it is updated every
+ * RECORDING_CONFIG.POSITION_UPDATE_MS rather than every animation frame.
+ *
+ * @example
+ * ```ts
+ * const player = new RecordingPlayer(parseRecording(json));
+ * player.subscribe((frame, timestamp) => handleResults(frame, timestamp));
+ * player.setLoop(true);
+ * player.play();
+ * ```
+ */
+export class RecordingPlayer {
+  public readonly recording: HandRecording;
+
+  private state: PlaybackState;
+  /** Index of the last emitted frame */
+  private frameIndex = -1;
+  /** performance.now() time of position 0 in the current pass */
+  private clockStart = 0;
+  /** Time from one pass to the next when looping */
+  private period: number;
+  private animationId: number | null = null;
+  private frameListeners = new Set<FrameListener>();
+  private stateListeners = new Set<StateListener>();
+
+  constructor(recording: HandRecording) {
+    this.recording = recording;
+    const { frames, duration } = recording;
+    this.period = duration + (frames.length > 1 ? duration / (frames.length - 1) : 0);
+    this.state = {
+      playing: false,
+      position: 0,
+      duration,
+      loop: false,
+    };
+  }
+
+  public subscribe(listener: FrameListener): () => void {
+    this.frameListeners.add(listener);
+    return () => {
+      this.frameListeners.delete(listener);
+    };
+  }
+
+  public subscribeState = (listener: StateListener): (() => void) => {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  };
+
+  public getState = (): PlaybackState => this.state;
+
+  public play(): void {
+    if (this.state.playing) return;
+
+    // Restart from the beginning if playback had finished
+    const position = this.state.position >= this.state.duration ? 0 : this.state.position;
+    if (position === 0) this.frameIndex = -1;
+
+    this.clockStart = performance.now() - position;
+    this.setState({ playing: true, position });
+    this.animationId = requestAnimationFrame(this.tick);
+  }
+
+  public pause(): void {
+    if (!this.state.playing) return;
+    this.stopClock();
+    this.setState({
+      playing: false,
+      position: Math.min(performance.now() - this.clockStart, this.state.duration),
+    });
+  }
+
+  /**
+   * Jumps to a position and emits the frame shown there
+   *
+   * Frames between the old and new position are skipped; playback continues
+   * with the frame after the one shown.
+   *
+   * @param position - Target position in milliseconds (clamped to the recording)
+   */
+  public seek(position: number): void {
+    const clamped = Math.min(Math.max(position, 0), this.state.duration);
+    this.clockStart = performance.now() - clamped;
+    this.frameIndex = this.lastFrameAt(clamped);
+    this.setState({ position: clamped });
+    if (this.frameIndex !== -1) this.emit(this.frameIndex);
+  }
+
+  public setLoop(loop: boolean): void {
+    this.setState({ loop });
+  }
+
+  /**
+   * Stops playback and drops all subscribers
+   */
+  public dispose(): void {
+    this.stopClock();
+    this.frameListeners.clear();
+    this.stateListeners.clear();
+  }
+
+  private tick = (now: number): void => {
+    const { duration, loop } = this.state;
+    let position = now - this.clockStart;
+
+    // Finish the passes the clock has run past
+    while (position > duration) {
+      this.emitUntil(this.recording.frames.length - 1);
+
+      if (!loop || this.period <= 0) {
+        this.stopClock();
+        this.setState({ playing: false, position: duration });
+        return;
+      }
+
+      this.clockStart += this.period;
+      this.frameIndex = -1;
+      position -= this.period;
+    }
+
+    this.emitUntil(this.lastFrameAt(position));
+    if (Math.abs(position - this.state.position) >= RECORDING_CONFIG.POSITION_UPDATE_MS) {
+      this.setState({ position: Math.max(position, 0) });
+    }
+    this.animationId = requestAnimationFrame(this.tick);
+  };
+
+  private stopClock(): void {
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+  }
+
+  /**
+   * Index of the last frame with timestamp <= position, or -1
+   */
+  private lastFrameAt(position: number): number {
+    const frames = this.recording.frames;
+
+    let low = 0;
+    let high = frames.length - 1;
+    let index = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (frames[mid].timestamp <= position) {
+        index = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return index;
+  }
+
+  /**
+   * Emits every frame after the last emitted one up to `index`
+   */
+  private emitUntil(index: number): void {
+    while (this.frameIndex < index) {
+      this.emit(++this.frameIndex);
+    }
+  }
+
+  private emit(index: number): void {
+    const { timestamp, multiHandLandmarks, multiHandedness, aspect } =
+      this.recording.frames[index];
+    for (const listener of this.frameListeners) {
+      listener(
+        { multiHandLandmarks, multiHandedness, aspect },
+        this.clockStart + timestamp
+      );
+    }
+  }
+
+  private setState(changes: Partial<PlaybackState>): void {
+    this.state = { ...this.state, ...changes };
+    this.stateListeners.forEach((listener) => listener());
+  }
+}
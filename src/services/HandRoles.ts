@@ -0,0 +1,159 @@
+import type { HandFrame, HandLabel, TrackedHand } from '@/types/mediapipe';
+import { MEDIAPIPE_CONFIG, HAND_ROLE_CONFIG } from '@/config/constants';
+
+/**
+ * Hands split by role
+ *
+ * @property command - Hand whose gestures select the shape
+ * @property physics - Hand that drives rotation, spread and speed
+ * @property twoHanded - Whether the roles are held by two different hands
+ */
+export interface HandRoles {
+  command: TrackedHand | null;
+  physics: TrackedHand | null;
+  twoHanded: boolean;
+}
+
+function correctLabel(label: HandLabel): HandLabel {
+  if (!MEDIAPIPE_CONFIG.SWAP_HANDEDNESS) return label;
+  return label === 'Left' ? 'Right' : 'Left';
+}
+
+/**
+ * Lowest `label`, `label-1`, `label-2`, ... key not yet taken
+ */
+function freeKey(label: HandLabel, taken: Set<string>): string {
+  let key = label as string;
+  for (let n = 1; taken.has(key); n++) key = `${label}-${n}`;
+  return key;
+}
+
+/**
+ * Pairs each detected hand's landmarks with its handedness
+ *
+ * Hands without a handedness entry default to the command hand's label.
+ * Keys follow detection order; HandKeyTracker makes them stable across frames.
+ */
+export function toTrackedHands(results: HandFrame): TrackedHand[] {
+  const landmarksList = results.multiHandLandmarks ?? [];
+  const taken = new Set<string>();
+
+  return landmarksList.map((landmarks, i) => {
+    const handedness = results.multiHandedness?.[i];
+    const label = handedness
+      ? correctLabel(handedness.label)
+      : HAND_ROLE_CONFIG.COMMAND_HAND;
+    const key = freeKey(label, taken);
+    taken.add(key);
+    return { landmarks, label, score: handedness?.score ?? 0, key };
+  });
+}
+
+/**
+ * Keeps each hand's key attached to the same hand from frame to frame
+ *
+ * Hands are keyed by label; when two share a label (a common
+ * misclassification) the extra ones are numbered, e.g. 'Left', 'Left-1'.
+ * Within a label, hands are matched to the previous frame's by wrist
+ * proximity, so the keys do not swap when detection order changes. Hands
+ * with no match take the lowest free key.
+ *
+ * @example
+ * ```ts
+ * const keys = new HandKeyTracker();
+ * const hands = keys.assign(toTrackedHands(results));
+ * ```
+ */
+export class HandKeyTracker {
+  private previous: TrackedHand[] = [];
+
+  /**
+   * Keys one frame of hands
+   *
+   * @param hands - Hands detected in this frame
+   * @returns The same hands, in the same order, with their keys
+   */
+  public assign(hands: TrackedHand[]): TrackedHand[] {
+    const keys: (string | undefined)[] = hands.map(() => undefined);
+    const taken = new Set<string>();
+
+    const pairs = hands.flatMap((hand, i) =>
+      this.previous
+        .filter((previous) => previous.label === hand.label)
+        .map((previous) => ({
+          i,
+          key: previous.key,
+          distance: wristDistance(hand, previous),
+        }))
+    );
+    pairs.sort((a, b) => a.distance - b.distance);
+
+    for (const { i, key } of pairs) {
+      if (keys[i] !== undefined || taken.has(key)) continue;
+      keys[i] = key;
+      taken.add(key);
+    }
+
+    const keyed = hands.map((hand, i) => {
+      let key = keys[i];
+      if (key === undefined) {
+        key = freeKey(hand.label, taken);
+        taken.add(key);
+      }
+      return { ...hand, key };
+    });
+
+    this.previous = keyed;
+    return keyed;
+  }
+
+  /**
+   * Forgets the previous frame
+   */
+  public reset(): void {
+    this.previous = [];
+  }
+}
+
+function wristDistance(a: TrackedHand, b: TrackedHand): number {
+  const wristA = a.landmarks[0];
+  const wristB = b.landmarks[0];
+  if (!wristA || !wristB) return Infinity;
+  return Math.hypot(wristA.x - wristB.x, wristA.y - wristB.y);
+}
+
+/**
+ * Keys of the tracked hands (see HandKeyTracker)
+ *
+ * @returns One key per hand, in the same order
+ */
+export function getHandKeys(hands: TrackedHand[]): string[] {
+  return hands.map((hand) => hand.key);
+}
+
+/**
+ * Assigns command and physics roles to the tracked hands
+ *
+ * The best-scoring hand labelled as the command hand commands and the
+ * best-scoring other hand drives physics. If no hand carries the command
+ * label, the roles follow score order instead. A single hand takes both
+ * roles so one-handed use keeps working.
+ */
+export function assignHandRoles(hands: TrackedHand[]): HandRoles {
+  if (hands.length === 0) {
+    return { command: null, physics: null, twoHanded: false };
+  }
+
+  if (hands.length === 1) {
+    return { command: hands[0], physics: hands[0], twoHanded: false };
+  }
+
+  const ranked = [...hands].sort((a, b) => b.score - a.score);
+  const command =
+    ranked.find((hand) => hand.label === HAND_ROLE_CONFIG.COMMAND_HAND) ?? ranked[0];
+  const physics = ranked.find((hand) => hand !== command) ?? null;
+
+  return { command, physics, twoHanded: true };
+}
+
+export {};
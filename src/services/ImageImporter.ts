@@ -0,0 +1,75 @@
+import type { ShapeDefinition } from '@/types/shapes';
+import { PARTICLE_CONFIG } from '@/config/constants';
+import { getFileShapeName } from '@/services/ModelImporter';
+import {
+  DEFAULT_IMAGE_SAMPLE_OPTIONS,
+  sampleImage,
+  type ImageSampleOptions,
+} from '@/utils/geometry/imageSampler';
+
+/**
+ * Whether a file is an image (PNG, JPG, SVG, ...) rather than a 3D model
+ */
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith('image/');
+}
+
+/**
+ * Decodes a local image file
+ *
+ * @throws Error if the browser cannot decode the file
+ */
+export async function loadImage(file: File): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.src = url;
+
+  try {
+    await image.decode();
+    return image;
+  } catch {
+    throw new Error(`Cannot decode image: ${file.name}`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Turns an image file into a particle shape
+ *
+ * Pixels are sampled by luminance or alpha (see sampleImage) and every
+ * particle takes the color of its pixel. The shape is named after the file
+ * and faces the camera, so the picture stays readable.
+ *
+ * @param file - PNG, JPG or SVG file
+ * @param options - Sampling mode, density, threshold and relief
+ * @param count - Most particles the image may use
+ * @returns Definition ready for shapeRegistry.register()
+ * @throws Error if the image cannot be decoded or no pixel passes the threshold
+ *
+ * @example
+ * ```ts
+ * const definition = await createImageShape(file, { ...DEFAULT_IMAGE_SAMPLE_OPTIONS, relief: 10 });
+ * shapeRegistry.register(definition);
+ * ```
+ */
+export async function createImageShape(
+  file: File,
+  options: ImageSampleOptions = DEFAULT_IMAGE_SAMPLE_OPTIONS,
+  count: number = PARTICLE_CONFIG.COUNT
+): Promise<ShapeDefinition> {
+  const image = await loadImage(file);
+  const { points, colors } = sampleImage(
+    image,
+    image.naturalWidth,
+    image.naturalHeight,
+    options,
+    count
+  );
+
+  return {
+    name: getFileShapeName(file),
+    source: { type: 'points', points },
+    color: colors,
+  };
+}
@@ -0,0 +1,167 @@
+import type { HandLandmarks, Landmark, TrackedHand } from '@/types/mediapipe';
+import { FILTER_CONFIG } from '@/config/constants';
+import { getHandKeys } from '@/services/HandRoles';
+import {
+  KalmanFilter,
+  OneEuroFilter,
+  type KalmanOptions,
+  type OneEuroOptions,
+  type ScalarFilter,
+} from '@/utils/math/filters';
+
+export type LandmarkFilterType = 'none' | 'one-euro' | 'kalman';
+
+/**
+ * Landmark smoothing settings
+ *
+ * @property type - Which filter to apply ('none' passes landmarks through)
+ * @property oneEuro - One Euro cutoffs, used when type is 'one-euro'
+ * @property kalman - Kalman noise levels, used when type is 'kalman'
+ * @property resetGapMs - Frame gap (ms) after which history is discarded
+ */
+export interface LandmarkFilterOptions {
+  type: LandmarkFilterType;
+  oneEuro: OneEuroOptions;
+  kalman: KalmanOptions;
+  resetGapMs: number;
+}
+
+export const DEFAULT_LANDMARK_FILTER_OPTIONS: LandmarkFilterOptions = {
+  type: FILTER_CONFIG.DEFAULT_TYPE,
+  oneEuro: {
+    minCutoff: FILTER_CONFIG.ONE_EURO_MIN_CUTOFF,
+    beta: FILTER_CONFIG.ONE_EURO_BETA,
+    dCutoff: FILTER_CONFIG.ONE_EURO_D_CUTOFF,
+  },
+  kalman: {
+    processNoise: FILTER_CONFIG.KALMAN_PROCESS_NOISE,
+    measurementNoise: FILTER_CONFIG.KALMAN_MEASUREMENT_NOISE,
+  },
+  resetGapMs: FILTER_CONFIG.RESET_GAP_MS,
+};
+
+function createScalarFilter(options: LandmarkFilterOptions): ScalarFilter {
+  return options.type === 'kalman'
+    ? new KalmanFilter(options.kalman)
+    : new OneEuroFilter(options.oneEuro);
+}
+
+/**
+ * Smooths one hand's landmarks, with a separate filter per coordinate
+ *
+ * @example
+ * ```ts
+ * const filter = new LandmarkFilter(DEFAULT_LANDMARK_FILTER_OPTIONS);
+ * const smooth = filter.apply(landmarks, performance.now());
+ * ```
+ */
+export class LandmarkFilter {
+  private options: LandmarkFilterOptions;
+  private filters: ScalarFilter[][] = [];
+  private lastTimestamp = -Infinity;
+
+  constructor(options: LandmarkFilterOptions = DEFAULT_LANDMARK_FILTER_OPTIONS) {
+    this.options = options;
+  }
+
+  /**
+   * Filters one frame of landmarks
+   *
+   * @param landmarks - Raw landmarks for this frame
+   * @param timestamp - Frame time in milliseconds
+   * @returns Smoothed landmarks (a new array; the input is not modified)
+   */
+  public apply(landmarks: HandLandmarks, timestamp: number): HandLandmarks {
+    if (this.options.type === 'none') return landmarks;
+
+    if (timestamp - this.lastTimestamp > this.options.resetGapMs) {
+      this.reset();
+    }
+    this.lastTimestamp = timestamp;
+
+    return landmarks.map((landmark, i): Landmark => {
+      const [fx, fy, fz] = this.getFilters(i);
+      return {
+        ...landmark,
+        x: fx.filter(landmark.x, timestamp),
+        y: fy.filter(landmark.y, timestamp),
+        z: fz.filter(landmark.z, timestamp),
+      };
+    });
+  }
+
+  /**
+   * Discards filter history, e.g. after the hand was lost
+   */
+  public reset(): void {
+    for (const coordinates of this.filters) {
+      for (const filter of coordinates) filter.reset();
+    }
+    this.lastTimestamp = -Infinity;
+  }
+
+  private getFilters(index: number): ScalarFilter[] {
+    if (!this.filters[index]) {
+      this.filters[index] = [0, 1, 2].map(() => createScalarFilter(this.options));
+    }
+    return this.filters[index];
+  }
+}
+
+/**
+ * Keeps one LandmarkFilter per tracked hand
+ *
+ * Hands are matched across frames by their keys (see getHandKeys). A hand that disappears has its filter reset, so it
+ * does not glide in from its last position when it returns.
+ *
+ * @example
+ * ```ts
+ * const smoother = new HandSmoother();
+ * const smoothHands = smoother.apply(toTrackedHands(results), performance.now());
+ * ```
+ */
+export class HandSmoother {
+  private options: LandmarkFilterOptions;
+  private filters = new Map<string, LandmarkFilter>();
+
+  constructor(options: LandmarkFilterOptions = DEFAULT_LANDMARK_FILTER_OPTIONS) {
+    this.options = options;
+  }
+
+  /**
+   * Smooths all hands in a frame
+   *
+   * @param hands - Raw tracked hands for this frame
+   * @param timestamp - Frame time in milliseconds
+   * @returns Hands with smoothed landmarks, in the same order
+   */
+  public apply(hands: TrackedHand[], timestamp: number): TrackedHand[] {
+    const keys = getHandKeys(hands);
+    const seen = new Set(keys);
+
+    const smoothed = hands.map((hand, i) => {
+      const key = keys[i];
+      let filter = this.filters.get(key);
+      if (!filter) {
+        filter = new LandmarkFilter(this.options);
+        this.filters.set(key, filter);
+      }
+
+      return { ...hand, landmarks: filter.apply(hand.landmarks, timestamp) };
+    });
+
+    // Tracking lost: forget hands that are no longer in view
+    for (const key of this.filters.keys()) {
+      if (!seen.has(key)) this.filters.delete(key);
+    }
+
+    return smoothed;
+  }
+
+  /**
+   * Discards all filter history
+   */
+  public reset(): void {
+    this.filters.clear();
+  }
+}
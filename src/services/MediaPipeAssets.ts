@@ -0,0 +1,60 @@
+import { MEDIAPIPE_CONFIG } from '@/config/constants';
+
+export type MediaPipePackage = 'hands';
+
+/**
+ * Where MediaPipe assets are served from: the app itself or the CDN
+ */
+export type AssetSource = 'local' | 'cdn';
+
+const SCRIPT_FILES: Record<MediaPipePackage, string> = {
+  hands: 'hands.js',
+};
+
+/**
+ * Asset sources to try, in order
+ */
+export function getAssetSources(): AssetSource[] {
+  return MEDIAPIPE_CONFIG.CDN_FALLBACK ? ['local', 'cdn'] : ['local'];
+}
+
+/**
+ * Base URL of a package's files (scripts, wasm, models) for a source
+ *
+ * @example
+ * ```ts
+ * getPackageBaseUrl('hands', 'local'); // '/mediapipe/hands/'
+ * ```
+ */
+export function getPackageBaseUrl(pkg: MediaPipePackage, source: AssetSource): string {
+  const base =
+    source === 'local' ? MEDIAPIPE_CONFIG.LOCAL_BASE_URL : MEDIAPIPE_CONFIG.CDN_BASE_URL;
+  return `${base}${pkg}/`;
+}
+
+/**
+ * URL of a package's entry script for a source
+ */
+export function getScriptUrl(pkg: MediaPipePackage, source: AssetSource): string {
+  return `${getPackageBaseUrl(pkg, source)}${SCRIPT_FILES[pkg]}`;
+}
+
+/**
+ * Explains why a script failed to load
+ *
+ * Script error events carry no detail, so the URL is probed again to tell a
+ * missing file (HTTP status) from an unreachable host.
+ *
+ * @param url - Script URL that fired an error event
+ * @returns Human-readable reason
+ */
+export async function describeLoadFailure(url: string): Promise<string> {
+  try {
+    const response = await fetch(url, { method: 'HEAD', cache: 'no-store' });
+    return response.ok
+      ? `${url} downloaded but failed to run`
+      : `${url} returned HTTP ${response.status}`;
+  } catch {
+    return `${url} is unreachable (offline or blocked)`;
+  }
+}
@@ -0,0 +1,238 @@
+import { BaseHandInputSource, getVideoAspect } from '@/services/HandInputSource';
+import {
+  createHandDetector,
+  type HandDetector,
+  type InferenceMetrics,
+} from '@/services/HandDetector';
+import { describeStream, openCamera } from '@/services/CameraDevices';
+import {
+  DEFAULT_TRACKING_SETTINGS,
+  type CaptureSettings,
+  type DetectionSettings,
+} from '@/services/CaptureSettingsStore';
+
+/**
+ * Webcam input through MediaPipe Hands
+ *
+ * Requires the MediaPipe Hands script to be loaded (window.Hands) and the
+ * video element to be mounted before start() is called. Detection runs in a
+ * worker when possible (see createHandDetector); camera frames arriving while
+ * a detection is in flight are dropped.
+ *
+ * Capture and detection settings can change while running: a new device,
+ * resolution or frame rate reopens the camera stream, detection options are
+ * applied to the loaded model.
+ *
+ * @example
+ * ```ts
+ * const source = new MediaPipeHandSource(videoRef, '/mediapipe/hands/');
+ * source.subscribe((frame) => console.log(frame.multiHandLandmarks?.length));
+ * source.start();
+ * source.setCapture({ ...capture, deviceId: cameras[1].deviceId });
+ * ```
+ */
+export class MediaPipeHandSource extends BaseHandInputSource {
+  public readonly kind = 'camera';
+
+  private videoRef: { current: HTMLVideoElement | null };
+  private assetBaseUrl: string;
+  private capture: CaptureSettings = DEFAULT_TRACKING_SETTINGS.capture;
+  private detection: DetectionSettings = DEFAULT_TRACKING_SETTINGS.detection;
+  private detector: HandDetector | null = null;
+  private video: HTMLVideoElement | null = null;
+  private stream: MediaStream | null = null;
+  private frameCallbackId: number | null = null;
+  /** Incremented by stop() so an initialization still in progress is discarded */
+  private session = 0;
+  /** Incremented by every openStream() so only the latest request keeps its stream */
+  private streamRequest = 0;
+  private starting = false;
+
+  constructor(videoRef: { current: HTMLVideoElement | null }, assetBaseUrl: string) {
+    super();
+    this.videoRef = videoRef;
+    this.assetBaseUrl = assetBaseUrl;
+  }
+
+  public getMetrics = (): InferenceMetrics | null => this.detector?.getMetrics() ?? null;
+
+  /**
+   * Changes the camera settings, reopening the stream if it is running
+   */
+  public setCapture(capture: CaptureSettings): void {
+    const previous = this.capture;
+    this.capture = capture;
+
+    const reopen =
+      capture.deviceId !== previous.deviceId ||
+      capture.width !== previous.width ||
+      capture.height !== previous.height ||
+      capture.frameRate !== previous.frameRate;
+
+    if (reopen && this.video && this.detector) {
+      void this.openStream(this.video, this.session);
+    }
+  }
+
+  /**
+   * Changes model complexity and confidence thresholds
+   */
+  public setDetectionOptions(options: DetectionSettings): void {
+    this.detection = options;
+    this.detector?.setOptions(options);
+  }
+
+  public start(): void {
+    if (this.detector || this.starting) return;
+
+    // Check if MediaPipe is available
+    if (!window.Hands) {
+      this.setStatus('error', 'Waiting for MediaPipe...');
+      return;
+    }
+
+    // Check if video element is ready
+    const video = this.videoRef.current;
+    if (!video) {
+      this.setStatus('error', 'Waiting for video element...');
+      return;
+    }
+
+    void this.initialize(video);
+  }
+
+  public stop(): void {
+    this.session++;
+    this.starting = false;
+    this.cancelFrame();
+    this.closeStream();
+    try {
+      this.detector?.close();
+    } catch (err) {
+      console.error('Error during cleanup:', err);
+    }
+    this.video = null;
+    this.detector = null;
+    this.setStatus('idle', 'Camera stopped');
+  }
+
+  private async initialize(video: HTMLVideoElement): Promise<void> {
+    const session = ++this.session;
+    this.starting = true;
+
+    // Initialize MediaPipe Hands
+    let detector: HandDetector;
+    try {
+      this.setStatus('starting', 'Initializing hand tracking...');
+
+      detector = await createHandDetector(
+        (frame) => {
+          this.emitFrame({ ...frame, aspect: getVideoAspect(video) }, performance.now());
+        },
+        this.assetBaseUrl,
+        this.detection
+      );
+    } catch (err) {
+      if (session !== this.session) return;
+      console.error('Failed to initialize MediaPipe Hands:', err);
+      this.starting = false;
+      this.setStatus('error', 'Error: Hand tracking initialization failed');
+      return;
+    }
+
+    if (session !== this.session) {
+      detector.close();
+      return;
+    }
+    this.starting = false;
+    this.detector = detector;
+    this.video = video;
+
+    // Options may have changed while the model was loading
+    detector.setOptions(this.detection);
+    await this.openStream(video, session);
+  }
+
+  /**
+   * Opens (or reopens) the camera with the current capture settings
+   */
+  private async openStream(video: HTMLVideoElement, session: number): Promise<void> {
+    const request = ++this.streamRequest;
+    this.cancelFrame();
+    this.closeStream();
+    this.setStatus('starting', 'Starting camera...');
+
+    let stream: MediaStream;
+    try {
+      stream = await openCamera(this.capture);
+    } catch (err) {
+      if (session !== this.session || request !== this.streamRequest) return;
+      console.error('Failed to initialize camera:', err);
+      const denied = err instanceof DOMException && err.name === 'NotAllowedError';
+      this.setStatus(
+        'error',
+        denied ? 'Error: Camera permission denied' : 'Error: Camera initialization failed'
+      );
+      return;
+    }
+
+    // Discard streams from a stopped session or superseded by newer settings
+    if (session !== this.session || request !== this.streamRequest) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    this.stream = stream;
+    video.removeAttribute('src');
+    video.srcObject = stream;
+    try {
+      await video.play();
+    } catch (err) {
+      // Interrupted when the stream is replaced before playback starts
+      if (this.stream !== stream) return;
+      console.error('Failed to play camera stream:', err);
+    }
+
+    this.scheduleFrame();
+    this.setStatus(
+      'running',
+      `Camera active (${describeStream(stream)}). Detecting hands...`
+    );
+  }
+
+  private closeStream(): void {
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    if (this.video) this.video.srcObject = null;
+  }
+
+  private onVideoFrame = (): void => {
+    const video = this.video;
+    if (video && this.detector && video.readyState >= 2) {
+      this.detector.detect(video).catch((err) => {
+        console.error('Hand detection failed:', err);
+      });
+    }
+    this.scheduleFrame();
+  };
+
+  private scheduleFrame(): void {
+    const video = this.video;
+    if (video && 'requestVideoFrameCallback' in video) {
+      this.frameCallbackId = video.requestVideoFrameCallback(this.onVideoFrame);
+    } else {
+      this.frameCallbackId = requestAnimationFrame(this.onVideoFrame);
+    }
+  }
+
+  private cancelFrame(): void {
+    if (this.frameCallbackId === null) return;
+
+    if (this.video && 'cancelVideoFrameCallback' in this.video) {
+      this.video.cancelVideoFrameCallback(this.frameCallbackId);
+    } else {
+      cancelAnimationFrame(this.frameCallbackId);
+    }
+    this.frameCallbackId = null;
+  }
+}
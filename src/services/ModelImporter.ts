@@ -0,0 +1,90 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import type { ShapeDefinition } from '@/types/shapes';
+import { MODEL_CONFIG, PARTICLE_CONFIG } from '@/config/constants';
+import { shapeRegistry } from '@/services/ShapeRegistry';
+import { sampleMeshSurface } from '@/utils/geometry/meshSampler';
+
+/**
+ * Loads a local OBJ, PLY or glTF (.glb/.gltf) file
+ *
+ * glTF files must be self-contained: a .glb, or a .gltf with embedded
+ * buffers and images, since the files it references cannot be read.
+ *
+ * @param file - Model file chosen by the user
+ * @returns The model's scene graph
+ * @throws Error for other file types or files the loader cannot parse
+ */
+export async function loadModel(file: File): Promise<THREE.Object3D> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  switch (extension) {
+    case 'obj':
+      return new OBJLoader().parse(await file.text());
+    case 'ply': {
+      // PLY files without faces are point clouds
+      const geometry = new PLYLoader().parse(await file.arrayBuffer());
+      return geometry.getIndex() ? new THREE.Mesh(geometry) : new THREE.Points(geometry);
+    }
+    case 'glb':
+    case 'gltf': {
+      const gltf = await new GLTFLoader().parseAsync(await file.arrayBuffer(), '');
+      return gltf.scene;
+    }
+    default:
+      throw new Error(`Unsupported model format: ${file.name}`);
+  }
+}
+
+/**
+ * Turns a model file into a particle shape
+ *
+ * The surface is sampled evenly and fitted to the sphere's size (see
+ * sampleMeshSurface). Vertex colors become per-particle colors; models
+ * without them use MODEL_CONFIG.DEFAULT_COLOR. The shape is named after the
+ * file and follows the physics hand's rotation.
+ *
+ * @param file - OBJ, PLY or glTF file
+ * @param count - Number of points to sample
+ * @returns Definition ready for shapeRegistry.register()
+ * @throws Error if the file cannot be loaded or has no surface
+ *
+ * @example
+ * ```ts
+ * const definition = await createModelShape(file);
+ * shapeRegistry.register(definition);
+ * ```
+ */
+export async function createModelShape(
+  file: File,
+  count: number = PARTICLE_CONFIG.COUNT
+): Promise<ShapeDefinition> {
+  const model = await loadModel(file);
+  const { points, colors } = sampleMeshSurface(model, count);
+
+  return {
+    name: getFileShapeName(file),
+    source: { type: 'points', points },
+    color: colors ?? MODEL_CONFIG.DEFAULT_COLOR,
+    rotation: 'hand',
+  };
+}
+
+/**
+ * Shape name for an imported file: its lowercased base name, dash-separated
+ *
+ * Names of built-in shapes get a numeric suffix (`sphere.obj` becomes
+ * `sphere-1`), so an import never replaces a built-in shape.
+ */
+export function getFileShapeName(file: File): string {
+  const base = file.name.replace(/\.[^.]*$/, '').toLowerCase();
+  const name = base.replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'model';
+
+  let candidate = name;
+  for (let n = 1; shapeRegistry.isBuiltIn(candidate); n++) {
+    candidate = `${name}-${n}`;
+  }
+  return candidate;
+}
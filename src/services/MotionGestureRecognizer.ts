@@ -0,0 +1,287 @@
+import * as THREE from 'three';
+import type { HandLandmarks } from '@/types/mediapipe';
+import type { MotionGestureResult, MotionGestureType } from '@/types/shapes';
+import { LANDMARK_INDICES, MOTION_CONFIG } from '@/config/constants';
+import { landmarksToVectors, getPalmFrame } from '@/utils/geometry/handGeometry';
+import { clamp } from '@/utils/math/interpolation';
+
+/**
+ * Palm position sample in display space (x right, y up, mirrored like the video)
+ */
+interface MotionSample {
+  t: number;
+  x: number;
+  y: number;
+  size: number;
+}
+
+const PALM_INDICES = [
+  LANDMARK_INDICES.WRIST,
+  LANDMARK_INDICES.INDEX_MCP,
+  LANDMARK_INDICES.MIDDLE_MCP,
+  LANDMARK_INDICES.RING_MCP,
+  LANDMARK_INDICES.PINKY_MCP,
+];
+
+/**
+ * Recognizes motion gestures from a rolling buffer of palm positions
+ *
+ * Feed one frame at a time with addFrame(), then call detect(). After a
+ * detection the buffer is cleared and a cooldown suppresses repeats.
+ * Directions (swipe-left, circle-cw, ...) are as seen on screen, so they
+ * depend on whether the video is displayed mirrored.
+ *
+ * @example
+ * ```ts
+ * const recognizer = new MotionGestureRecognizer(settings.capture.mirror);
+ * recognizer.addFrame(landmarks, performance.now());
+ * const motion = recognizer.detect(); // e.g. { name: 'swipe-left', ... }
+ * ```
+ */
+export class MotionGestureRecognizer {
+  private samples: MotionSample[] = [];
+  private cooldownUntil = 0;
+  private mirrored: boolean;
+
+  /**
+   * @param mirrored - Whether the video feed is displayed mirrored
+   */
+  constructor(mirrored: boolean = MOTION_CONFIG.MIRROR_X) {
+    this.mirrored = mirrored;
+  }
+
+  /**
+   * Changes how the video is displayed; clears the buffer, since samples
+   * taken before would point the other way
+   */
+  public setMirrored(mirrored: boolean): void {
+    if (mirrored === this.mirrored) return;
+    this.mirrored = mirrored;
+    this.reset();
+  }
+
+  /**
+   * Adds the palm position of one frame
+   *
+   * A frame no newer than the last is ignored; an older one (the input
+   * jumped back in time) starts a new buffer.
+   *
+   * @param timestamp - Capture time of the frame (ms)
+   * @param aspect - Width divided by height of the frame
+   */
+  public addFrame(landmarks: HandLandmarks, timestamp: number, aspect?: number): void {
+    const last = this.samples[this.samples.length - 1];
+    if (last && timestamp === last.t) return;
+    if (last && timestamp < last.t) {
+      this.reset();
+      this.cooldownUntil = 0;
+    }
+
+    const points = landmarksToVectors(landmarks, aspect);
+    const center = new THREE.Vector3();
+    for (const idx of PALM_INDICES) {
+      center.add(points[idx]);
+    }
+    center.divideScalar(PALM_INDICES.length);
+
+    this.samples.push({
+      t: timestamp,
+      x: this.mirrored ? -center.x : center.x,
+      y: -center.y,
+      size: getPalmFrame(points).size,
+    });
+
+    const cutoff = timestamp - MOTION_CONFIG.BUFFER_DURATION_MS;
+    while (this.samples.length > 0 && this.samples[0].t < cutoff) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Clears the buffer, e.g. when tracking is lost
+   */
+  public reset(): void {
+    this.samples = [];
+  }
+
+  public detect(): MotionGestureResult | null {
+    if (this.samples.length < MOTION_CONFIG.MIN_SAMPLES) return null;
+
+    const now = this.samples[this.samples.length - 1].t;
+    if (now < this.cooldownUntil) return null;
+
+    const result =
+      this.detectCircle() ?? this.detectWave() ?? this.detectPushPull() ?? this.detectSwipe();
+
+    if (result) {
+      this.cooldownUntil = now + MOTION_CONFIG.COOLDOWN_MS;
+      this.samples = [];
+    }
+
+    return result;
+  }
+
+  private recent(windowMs: number): MotionSample[] {
+    const cutoff = this.samples[this.samples.length - 1].t - windowMs;
+    return this.samples.filter((sample) => sample.t >= cutoff);
+  }
+
+  private result(
+    name: MotionGestureType,
+    velocity: number,
+    confidence: number
+  ): MotionGestureResult {
+    return {
+      name,
+      velocity,
+      confidence: clamp(confidence, 0, 1),
+      timestamp: this.samples[this.samples.length - 1].t,
+    };
+  }
+
+  private detectSwipe(): MotionGestureResult | null {
+    const window = this.recent(MOTION_CONFIG.SWIPE_WINDOW_MS);
+    if (window.length < 3) return null;
+
+    const first = window[0];
+    const last = window[window.length - 1];
+    const dx = last.x - first.x;
+    const dy = last.y - first.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance < MOTION_CONFIG.SWIPE_MIN_DISTANCE) return null;
+
+    const major = Math.max(Math.abs(dx), Math.abs(dy));
+    const minor = Math.min(Math.abs(dx), Math.abs(dy));
+    if (major < minor * MOTION_CONFIG.SWIPE_MIN_AXIS_RATIO) return null;
+
+    const name: MotionGestureType =
+      Math.abs(dx) >= Math.abs(dy)
+        ? dx > 0
+          ? 'swipe-right'
+          : 'swipe-left'
+        : dy > 0
+          ? 'swipe-up'
+          : 'swipe-down';
+
+    // Straight, axis-aligned strokes score highest
+    const straightness = distance / getPathLength(window);
+    const seconds = Math.max((last.t - first.t) / 1000, 1e-3);
+
+    return this.result(name, distance / seconds, straightness * (major / distance));
+  }
+
+  private detectCircle(): MotionGestureResult | null {
+    const samples = this.samples;
+    const cx = samples.reduce((sum, s) => sum + s.x, 0) / samples.length;
+    const cy = samples.reduce((sum, s) => sum + s.y, 0) / samples.length;
+
+    const radii = samples.map((s) => Math.hypot(s.x - cx, s.y - cy));
+    const meanRadius = radii.reduce((sum, r) => sum + r, 0) / radii.length;
+    if (meanRadius < MOTION_CONFIG.CIRCLE_MIN_RADIUS) return null;
+
+    const variance = radii.reduce((sum, r) => sum + (r - meanRadius) ** 2, 0) / radii.length;
+    const variation = Math.sqrt(variance) / meanRadius;
+    if (variation > MOTION_CONFIG.CIRCLE_MAX_RADIUS_VARIATION) return null;
+
+    // Accumulate the signed angle swept around the centroid
+    let swept = 0;
+    let previous = Math.atan2(samples[0].y - cy, samples[0].x - cx);
+    for (let i = 1; i < samples.length; i++) {
+      const angle = Math.atan2(samples[i].y - cy, samples[i].x - cx);
+      let delta = angle - previous;
+      if (delta > Math.PI) delta -= Math.PI * 2;
+      if (delta < -Math.PI) delta += Math.PI * 2;
+      swept += delta;
+      previous = angle;
+    }
+
+    if (Math.abs(swept) < MOTION_CONFIG.CIRCLE_MIN_ANGLE) return null;
+
+    const seconds = Math.max((samples[samples.length - 1].t - samples[0].t) / 1000, 1e-3);
+    const completeness = Math.min(Math.abs(swept) / (Math.PI * 2), 1);
+
+    return this.result(
+      swept > 0 ? 'circle-ccw' : 'circle-cw',
+      Math.abs(swept) / seconds,
+      completeness * (1 - variation)
+    );
+  }
+
+  private detectWave(): MotionGestureResult | null {
+    const samples = this.samples;
+    const amplitude = MOTION_CONFIG.WAVE_MIN_AMPLITUDE;
+
+    // Zig-zag scan: count horizontal reversals larger than the amplitude
+    let reversals = 0;
+    let direction = 0;
+    let pivot = samples[0].x;
+    let extreme = samples[0].x;
+
+    for (const { x } of samples) {
+      if (direction === 0) {
+        if (Math.abs(x - pivot) >= amplitude) {
+          direction = Math.sign(x - pivot);
+          extreme = x;
+        }
+      } else if ((x - extreme) * direction > 0) {
+        extreme = x;
+      } else if (Math.abs(extreme - x) >= amplitude) {
+        reversals++;
+        pivot = extreme;
+        extreme = x;
+        direction = -direction;
+      }
+    }
+
+    if (reversals < MOTION_CONFIG.WAVE_MIN_REVERSALS) return null;
+
+    const xs = samples.map((s) => s.x);
+    const ys = samples.map((s) => s.y);
+    const xSpan = Math.max(...xs) - Math.min(...xs);
+    const ySpan = Math.max(...ys) - Math.min(...ys);
+    if (ySpan > xSpan) return null;
+
+    const seconds = Math.max((samples[samples.length - 1].t - samples[0].t) / 1000, 1e-3);
+
+    return this.result(
+      'wave',
+      getPathLength(samples) / seconds,
+      Math.min(reversals / (MOTION_CONFIG.WAVE_MIN_REVERSALS + 1), 1) * (1 - ySpan / xSpan)
+    );
+  }
+
+  private detectPushPull(): MotionGestureResult | null {
+    const window = this.recent(MOTION_CONFIG.PUSH_WINDOW_MS);
+    if (window.length < 3) return null;
+
+    const first = window[0];
+    const last = window[window.length - 1];
+
+    // Moving sideways as well makes it a swipe, not a push
+    if (Math.hypot(last.x - first.x, last.y - first.y) > MOTION_CONFIG.SWIPE_MIN_DISTANCE) {
+      return null;
+    }
+
+    const logRatio = Math.log(last.size / first.size);
+    const logThreshold = Math.log(MOTION_CONFIG.PUSH_MIN_SCALE_RATIO);
+    if (Math.abs(logRatio) < logThreshold) return null;
+
+    const seconds = Math.max((last.t - first.t) / 1000, 1e-3);
+
+    return this.result(
+      logRatio > 0 ? 'push' : 'pull',
+      Math.abs(logRatio) / seconds,
+      0.5 + (0.5 * (Math.abs(logRatio) - logThreshold)) / logThreshold
+    );
+  }
+}
+
+function getPathLength(samples: MotionSample[]): number {
+  let length = 0;
+  for (let i = 1; i < samples.length; i++) {
+    length += Math.hypot(samples[i].x - samples[i - 1].x, samples[i].y - samples[i - 1].y);
+  }
+  return length || 1e-6;
+}
+
+export {};
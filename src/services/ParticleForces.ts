@@ -0,0 +1,142 @@
+import type * as THREE from 'three';
+import type { TrackedHand } from '@/types/mediapipe';
+import type { FieldPolarity, ForceField, ForceParams, GestureName } from '@/types/shapes';
+import { FORCE_CONFIG } from '@/config/constants';
+import { getHandKeys } from '@/services/HandRoles';
+
+export const DEFAULT_FORCE_PARAMS: ForceParams = {
+  stiffness: FORCE_CONFIG.STIFFNESS,
+  damping: FORCE_CONFIG.DAMPING,
+  noise: FORCE_CONFIG.NOISE,
+  fieldRadius: FORCE_CONFIG.FIELD_RADIUS,
+  fieldStrength: FORCE_CONFIG.FIELD_STRENGTH,
+};
+
+/**
+ * Turns every fingertip of every hand into a force field
+ *
+ * A hand's gesture picks the polarity of all its fingertips (see
+ * FORCE_CONFIG.FIELD_GESTURES): a fist attracts, anything else repels.
+ *
+ * @param hands - Tracked hands
+ * @param gestures - Gesture per hand key (see useHandGestures)
+ * @param mirrored - Whether the video feed is displayed mirrored
+ * @returns Fields anchored at the fingertips' screen positions
+ */
+export function getForceFields(
+  hands: TrackedHand[],
+  gestures: Record<string, GestureName>,
+  mirrored: boolean
+): ForceField[] {
+  const keys = getHandKeys(hands);
+
+  return hands.flatMap((hand, i) => {
+    const polarity =
+      FORCE_CONFIG.FIELD_GESTURES[gestures[keys[i]] ?? 'none'] ??
+      FORCE_CONFIG.DEFAULT_POLARITY;
+
+    return FORCE_CONFIG.FINGERTIPS.map((index) => {
+      const tip = hand.landmarks[index];
+      return { anchor: { x: mirrored ? 1 - tip.x : tip.x, y: tip.y }, polarity };
+    });
+  });
+}
+
+/**
+ * A force field placed in the particles' coordinate space
+ */
+export interface PlacedField {
+  position: THREE.Vector3;
+  polarity: FieldPolarity;
+}
+
+/**
+ * Per-particle velocity simulation: springs towards the shape, damping,
+ * noise, and fields that attract or repel
+ *
+ * Each particle is pulled towards its goal by a spring. Fields push (repel)
+ * or pull (attract) particles within `fieldRadius`, strongest at the center
+ * and fading linearly to zero at the edge. Steps are per frame, like the
+ * morph lerp factors.
+ *
+ * @example
+ * ```ts
+ * const forces = new ParticleForceSimulator(10000);
+ * // every frame:
+ * forces.step(positions, goals, [{ position: fingertip, polarity: 'repel' }]);
+ * ```
+ */
+export class ParticleForceSimulator {
+  private velocities: Float32Array;
+  private params: ForceParams;
+
+  constructor(count: number, params: ForceParams = DEFAULT_FORCE_PARAMS) {
+    this.velocities = new Float32Array(count * 3);
+    this.params = params;
+  }
+
+  public setParams(params: ForceParams): void {
+    this.params = params;
+  }
+
+  /**
+   * Advances the simulation by one frame
+   *
+   * @param positions - Particle positions [x,y,z,...], moved in place
+   * @param goals - Position each particle's spring pulls towards
+   * @param fields - Fields in the same space as the positions
+   * @param stiffnessScale - Multiplier on the spring stiffness (e.g. the morph speed)
+   */
+  public step(
+    positions: Float32Array,
+    goals: Float32Array,
+    fields: PlacedField[],
+    stiffnessScale: number = 1
+  ): void {
+    const { damping, noise, fieldRadius, fieldStrength } = this.params;
+    const stiffness = this.params.stiffness * stiffnessScale;
+    const radiusSq = fieldRadius * fieldRadius;
+    const velocities = this.velocities;
+
+    for (let i3 = 0; i3 < velocities.length; i3 += 3) {
+      const x = positions[i3];
+      const y = positions[i3 + 1];
+      const z = positions[i3 + 2];
+
+      let ax = (goals[i3] - x) * stiffness + (Math.random() - 0.5) * 2 * noise;
+      let ay = (goals[i3 + 1] - y) * stiffness + (Math.random() - 0.5) * 2 * noise;
+      let az = (goals[i3 + 2] - z) * stiffness + (Math.random() - 0.5) * 2 * noise;
+
+      for (const field of fields) {
+        const dx = x - field.position.x;
+        const dy = y - field.position.y;
+        const dz = z - field.position.z;
+        const distanceSq = dx * dx + dy * dy + dz * dz;
+        if (distanceSq >= radiusSq || distanceSq === 0) continue;
+
+        // Linear falloff along the unit direction away from the field
+        const distance = Math.sqrt(distanceSq);
+        const push = (fieldStrength * (1 - distance / fieldRadius)) / distance;
+        const sign = field.polarity === 'repel' ? 1 : -1;
+        ax += dx * push * sign;
+        ay += dy * push * sign;
+        az += dz * push * sign;
+      }
+
+      velocities[i3] = (velocities[i3] + ax) * (1 - damping);
+      velocities[i3 + 1] = (velocities[i3 + 1] + ay) * (1 - damping);
+      velocities[i3 + 2] = (velocities[i3 + 2] + az) * (1 - damping);
+
+      positions[i3] += velocities[i3];
+      positions[i3 + 1] += velocities[i3 + 1];
+      positions[i3 + 2] += velocities[i3 + 2];
+    }
+  }
+
+  /**
+   * Stops every particle
+   */
+  public reset(): void {
+    this.velocities.fill(0);
+  }
+}
@@ -0,0 +1,299 @@
+import * as THREE from 'three';
+import { CLUSTER_CONFIG, PARTICLE_CONFIG } from '@/config/constants';
+
+const vertexShader = /* glsl */ `
+  uniform float uPositionProgress;
+  uniform float uColorProgress;
+  uniform float uSize;
+  uniform float uScale;
+  uniform vec3 uClusterOffsets[MAX_CLUSTERS];
+  uniform float uClusterScales[MAX_CLUSTERS];
+
+  attribute vec3 target;
+  attribute vec3 sourceColor;
+  attribute vec3 targetColor;
+  attribute float cluster;
+
+  varying vec3 vColor;
+
+  void main() {
+    int c = int(cluster + 0.5);
+    vec3 goal = target * uClusterScales[c] + uClusterOffsets[c];
+    vec4 mvPosition = modelViewMatrix * vec4(mix(position, goal, uPositionProgress), 1.0);
+
+    vColor = mix(sourceColor, targetColor, uColorProgress);
+    gl_PointSize = uSize * (uScale / -mvPosition.z);
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform float uOpacity;
+
+  varying vec3 vColor;
+
+  void main() {
+    gl_FragColor = vec4(vColor, uOpacity);
+    #include <colorspace_fragment>
+  }
+`;
+
+/**
+ * Particle system that morphs between shapes on the GPU
+ *
+ * Each particle has a source and a target position and color. The vertex
+ * shader blends them by the progress uniforms, so a frame only updates a few
+ * uniforms; the buffers are uploaded once per setTargets().
+ *
+ * advance() moves progress the way an exponential lerp moves a position,
+ * which keeps the familiar ease-out motion. setTargets() first bakes the
+ * currently displayed positions and colors into the source buffers, so a new
+ * shape can interrupt a morph without a jump.
+ *
+ * Target positions belong to a cluster (0 by default) whose offset and scale
+ * are uniforms, so per-hand clusters follow their hands without re-uploading.
+ *
+ * @example
+ * ```ts
+ * const morpher = new ParticleMorpher(10000);
+ * scene.add(morpher.points);
+ * morpher.setTargets(sphere, colors);
+ * // every frame:
+ * morpher.advance(0.05, 0.05);
+ * ```
+ */
+export class ParticleMorpher {
+  public readonly count: number;
+  public readonly points: THREE.Points<THREE.BufferGeometry, THREE.ShaderMaterial>;
+
+  private geometry = new THREE.BufferGeometry();
+  private material: THREE.ShaderMaterial;
+  private sources: Float32Array;
+  private targets: Float32Array;
+  private sourceColors: Float32Array;
+  private targetColors: Float32Array;
+  private clusterIds: Float32Array;
+  private clusterOffsets: THREE.Vector3[];
+  private clusterScales: number[];
+
+  constructor(count: number = PARTICLE_CONFIG.COUNT) {
+    this.count = count;
+
+    // Start from a random cloud that morphs into the first shape
+    this.sources = new Float32Array(count * 3);
+    for (let i = 0; i < this.sources.length; i++) {
+      this.sources[i] = (Math.random() - 0.5) * 200;
+    }
+    this.targets = this.sources.slice();
+    this.sourceColors = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      this.sourceColors[i * 3 + 1] = 1;
+      this.sourceColors[i * 3 + 2] = 1;
+    }
+    this.targetColors = this.sourceColors.slice();
+    this.clusterIds = new Float32Array(count);
+
+    this.clusterOffsets = Array.from(
+      { length: CLUSTER_CONFIG.MAX_CLUSTERS },
+      () => new THREE.Vector3()
+    );
+    this.clusterScales = new Array<number>(CLUSTER_CONFIG.MAX_CLUSTERS).fill(1);
+
+    this.geometry.setAttribute('position', new THREE.BufferAttribute(this.sources, 3));
+    this.geometry.setAttribute('target', new THREE.BufferAttribute(this.targets, 3));
+    this.geometry.setAttribute(
+      'sourceColor',
+      new THREE.BufferAttribute(this.sourceColors, 3)
+    );
+    this.geometry.setAttribute(
+      'targetColor',
+      new THREE.BufferAttribute(this.targetColors, 3)
+    );
+    this.geometry.setAttribute('cluster', new THREE.BufferAttribute(this.clusterIds, 1));
+
+    this.material = new THREE.ShaderMaterial({
+      vertexShader,
+      fragmentShader,
+      defines: { MAX_CLUSTERS: CLUSTER_CONFIG.MAX_CLUSTERS },
+      uniforms: {
+        uPositionProgress: { value: 1 },
+        uColorProgress: { value: 1 },
+        uSize: { value: PARTICLE_CONFIG.SIZE },
+        uScale: { value: 1 },
+        uOpacity: { value: PARTICLE_CONFIG.OPACITY },
+        uClusterOffsets: { value: this.clusterOffsets },
+        uClusterScales: { value: this.clusterScales },
+      },
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+      transparent: true,
+    });
+
+    this.points = new THREE.Points(this.geometry, this.material);
+    // Positions are computed in the shader, so the CPU-side bounds are meaningless
+    this.points.frustumCulled = false;
+  }
+
+  public get opacity(): number {
+    return this.material.uniforms.uOpacity.value;
+  }
+
+  /**
+   * Starts a morph from the current state towards new targets
+   *
+   * Shorter target lists repeat (particle i uses entry i % length).
+   *
+   * @param targets - Target positions, relative to their cluster
+   * @param colors - Target colors
+   * @param clusterIds - Cluster of each particle; omitted puts all particles in
+   *   cluster 0 and resets every cluster transform
+   */
+  public setTargets(
+    targets: THREE.Vector3[],
+    colors: THREE.Color[],
+    clusterIds?: ArrayLike<number>
+  ): void {
+    if (targets.length === 0 || colors.length === 0) return;
+
+    this.bakePositions();
+    this.bakeColors();
+
+    for (let i = 0; i < this.count; i++) {
+      const i3 = i * 3;
+      const target = targets[i % targets.length];
+      const color = colors[i % colors.length];
+
+      this.targets[i3] = target.x;
+      this.targets[i3 + 1] = target.y;
+      this.targets[i3 + 2] = target.z;
+      this.targetColors[i3] = color.r;
+      this.targetColors[i3 + 1] = color.g;
+      this.targetColors[i3 + 2] = color.b;
+      this.clusterIds[i] = clusterIds ? clusterIds[i] : 0;
+    }
+
+    if (!clusterIds) {
+      this.clusterOffsets.forEach((offset) => offset.set(0, 0, 0));
+      this.clusterScales.fill(1);
+    }
+
+    for (const name of ['position', 'target', 'sourceColor', 'targetColor', 'cluster']) {
+      this.geometry.getAttribute(name).needsUpdate = true;
+    }
+  }
+
+  /**
+   * Places a cluster's targets: final position = target × scale + offset
+   */
+  public setClusterTransform(index: number, offset: THREE.Vector3, scale: number): void {
+    this.clusterOffsets[index].copy(offset);
+    this.clusterScales[index] = scale;
+  }
+
+  /**
+   * Moves the morph one frame closer to the targets
+   *
+   * @param positionFactor - Fraction of the remaining distance covered (0-1)
+   * @param colorFactor - Fraction of the remaining color difference covered (0-1)
+   */
+  public advance(positionFactor: number, colorFactor: number): void {
+    const uniforms = this.material.uniforms;
+    uniforms.uPositionProgress.value +=
+      (1 - uniforms.uPositionProgress.value) * positionFactor;
+    uniforms.uColorProgress.value += (1 - uniforms.uColorProgress.value) * colorFactor;
+  }
+
+  /**
+   * Hands the particle positions over to an external simulation
+   *
+   * Freezes the morph at the displayed positions and returns the buffer the
+   * shader draws from. Move particles in it, then call commitPositions();
+   * keep calling advance() with a position factor of 0 meanwhile. A later
+   * advance() with a non-zero factor morphs on from wherever they were left.
+   *
+   * @returns Positions [x,y,z,...], to be modified in place
+   */
+  public holdPositions(): Float32Array {
+    this.bakePositions();
+    return this.sources;
+  }
+
+  /**
+   * Uploads positions changed through holdPositions()
+   */
+  public commitPositions(): void {
+    this.geometry.getAttribute('position').needsUpdate = true;
+  }
+
+  /**
+   * Writes where every particle is heading: target × cluster scale + cluster offset
+   *
+   * @param out - Array of count × 3 floats to fill
+   */
+  public getGoals(out: Float32Array): void {
+    for (let i = 0; i < this.count; i++) {
+      const i3 = i * 3;
+      const c = this.clusterIds[i];
+      const scale = this.clusterScales[c];
+      const offset = this.clusterOffsets[c];
+
+      out[i3] = this.targets[i3] * scale + offset.x;
+      out[i3 + 1] = this.targets[i3 + 1] * scale + offset.y;
+      out[i3 + 2] = this.targets[i3 + 2] * scale + offset.z;
+    }
+  }
+
+  /**
+   * Sets the point size and opacity
+   *
+   * @param size - Point size in CSS pixels at unit distance, like PointsMaterial.size
+   * @param opacity - Opacity (0-1)
+   */
+  public setAppearance(size: number, opacity: number): void {
+    const uniforms = this.material.uniforms;
+    uniforms.uSize.value = size * window.devicePixelRatio;
+    uniforms.uScale.value = window.innerHeight * 0.5;
+    uniforms.uOpacity.value = opacity;
+  }
+
+  public dispose(): void {
+    this.geometry.dispose();
+    this.material.dispose();
+  }
+
+  /**
+   * Copies the displayed positions into the source buffer
+   */
+  private bakePositions(): void {
+    const p = this.material.uniforms.uPositionProgress.value;
+    if (p === 0) return;
+
+    for (let i = 0; i < this.count; i++) {
+      const i3 = i * 3;
+      const c = this.clusterIds[i];
+      const scale = this.clusterScales[c];
+      const offset = this.clusterOffsets[c];
+
+      this.sources[i3] += (this.targets[i3] * scale + offset.x - this.sources[i3]) * p;
+      this.sources[i3 + 1] +=
+        (this.targets[i3 + 1] * scale + offset.y - this.sources[i3 + 1]) * p;
+      this.sources[i3 + 2] +=
+        (this.targets[i3 + 2] * scale + offset.z - this.sources[i3 + 2]) * p;
+    }
+
+    this.material.uniforms.uPositionProgress.value = 0;
+  }
+
+  /**
+   * Copies the displayed colors into the source buffer
+   */
+  private bakeColors(): void {
+    const q = this.material.uniforms.uColorProgress.value;
+
+    for (let k = 0; k < this.sourceColors.length; k++) {
+      this.sourceColors[k] += (this.targetColors[k] - this.sourceColors[k]) * q;
+    }
+
+    this.material.uniforms.uColorProgress.value = 0;
+  }
+}
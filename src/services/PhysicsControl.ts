@@ -0,0 +1,74 @@
+import type { HandLandmarks } from '@/types/mediapipe';
+import type { PhysicsParams, PinchAdjustments } from '@/types/shapes';
+import { ANIMATION_CONFIG, PHYSICS_CONFIG } from '@/config/constants';
+import { GestureRecognizer } from '@/services/GestureRecognizer';
+import { clamp, mapRange } from '@/utils/math/interpolation';
+
+export const DEFAULT_PHYSICS_PARAMS: PhysicsParams = {
+  rotationX: 0,
+  rotationY: 0,
+  spread: 1,
+  speed: 1,
+  particleSize: 1,
+};
+
+/**
+ * Derives particle physics parameters from the physics hand
+ *
+ * - Rotation follows the hand's position in the frame
+ * - Spread follows how open the hand is (average finger curl)
+ * - Speed follows the palm's apparent size, i.e. distance to the camera
+ *
+ * @param landmarks - Landmarks of the physics hand, or null if absent
+ * @param aspect - Width divided by height of the image they were detected in
+ */
+export function getPhysicsParams(
+  landmarks: HandLandmarks | null,
+  aspect?: number
+): PhysicsParams {
+  if (!landmarks || landmarks.length === 0) {
+    return DEFAULT_PHYSICS_PARAMS;
+  }
+
+  const recognizer = new GestureRecognizer(landmarks, aspect);
+  const handCenter = recognizer.getHandCenter();
+  const curl = recognizer.getFingerCurls();
+  const openness = 1 - (curl.index + curl.middle + curl.ring + curl.pinky) / 4;
+
+  const palmSize = clamp(
+    recognizer.getPalmSize(),
+    PHYSICS_CONFIG.PALM_SIZE_FAR,
+    PHYSICS_CONFIG.PALM_SIZE_NEAR
+  );
+
+  return {
+    rotationX: (handCenter.y - 0.5) * ANIMATION_CONFIG.HAND_ROTATION_MULTIPLIER,
+    rotationY: (handCenter.x - 0.5) * ANIMATION_CONFIG.HAND_ROTATION_MULTIPLIER,
+    spread: mapRange(openness, 0, 1, PHYSICS_CONFIG.SPREAD_MIN, PHYSICS_CONFIG.SPREAD_MAX),
+    speed: mapRange(
+      palmSize,
+      PHYSICS_CONFIG.PALM_SIZE_FAR,
+      PHYSICS_CONFIG.PALM_SIZE_NEAR,
+      PHYSICS_CONFIG.SPEED_MIN,
+      PHYSICS_CONFIG.SPEED_MAX
+    ),
+    particleSize: 1,
+  };
+}
+
+/**
+ * Applies pinch multipliers on top of the hand-derived parameters
+ */
+export function applyPinchAdjustments(
+  params: PhysicsParams,
+  adjustments: PinchAdjustments
+): PhysicsParams {
+  return {
+    ...params,
+    spread: params.spread * adjustments.scale,
+    speed: params.speed * adjustments.speed,
+    particleSize: params.particleSize * adjustments.size,
+  };
+}
+
+export {};
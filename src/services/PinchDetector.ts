@@ -0,0 +1,87 @@
+import type { HandLandmarks } from '@/types/mediapipe';
+import type { PinchEvent, PinchState } from '@/types/shapes';
+import { LANDMARK_INDICES, PINCH_CONFIG } from '@/config/constants';
+import { landmarksToVectors, getPalmFrame } from '@/utils/geometry/handGeometry';
+
+type PinchListener = (event: PinchEvent) => void;
+
+export const NO_PINCH: PinchState = { pinching: false, distance: Infinity, x: 0.5, y: 0.5 };
+
+/**
+ * Detects thumb-index pinches with hysteresis
+ *
+ * The tip distance is normalized by palm size, so the thresholds hold at
+ * any distance from the camera. Emits pinchStart/pinchEnd to subscribers.
+ *
+ * @example
+ * ```ts
+ * const detector = new PinchDetector();
+ * detector.subscribe((e) => console.log(e.type));
+ * const state = detector.update(landmarks, performance.now());
+ * ```
+ */
+export class PinchDetector {
+  private state: PinchState = NO_PINCH;
+  private listeners = new Set<PinchListener>();
+
+  public subscribe(listener: PinchListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Measures the pinch for one frame
+   *
+   * @param landmarks - Hand landmarks, or null if the hand was lost (ends any pinch)
+   * @param timestamp - Current time in milliseconds
+   * @param aspect - Width divided by height of the image the landmarks were detected in
+   * @returns Updated pinch state
+   */
+  public update(
+    landmarks: HandLandmarks | null,
+    timestamp: number,
+    aspect?: number
+  ): PinchState {
+    if (!landmarks || landmarks.length === 0) {
+      const wasPinching = this.state.pinching;
+      this.state = { ...this.state, pinching: false, distance: Infinity };
+      if (wasPinching) this.emit('pinchEnd', timestamp);
+      return this.state;
+    }
+
+    const points = landmarksToVectors(landmarks, aspect);
+    const thumbTip = landmarks[LANDMARK_INDICES.THUMB_TIP];
+    const indexTip = landmarks[LANDMARK_INDICES.INDEX_TIP];
+    const distance =
+      points[LANDMARK_INDICES.THUMB_TIP].distanceTo(points[LANDMARK_INDICES.INDEX_TIP]) /
+      getPalmFrame(points).size;
+
+    const wasPinching = this.state.pinching;
+    const pinching = wasPinching
+      ? distance < PINCH_CONFIG.END_DISTANCE
+      : distance < PINCH_CONFIG.START_DISTANCE;
+
+    this.state = {
+      pinching,
+      distance,
+      x: (thumbTip.x + indexTip.x) / 2,
+      y: (thumbTip.y + indexTip.y) / 2,
+    };
+
+    if (pinching && !wasPinching) this.emit('pinchStart', timestamp);
+    if (!pinching && wasPinching) this.emit('pinchEnd', timestamp);
+
+    return this.state;
+  }
+
+  private emit(type: PinchEvent['type'], timestamp: number): void {
+    const event: PinchEvent = { type, state: this.state, timestamp };
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+}
+
+export {};
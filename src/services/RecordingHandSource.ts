@@ -0,0 +1,43 @@
+import { BaseHandInputSource } from '@/services/HandInputSource';
+import type { RecordingPlayer } from '@/services/HandRecording';
+
+/**
+ * Input from a recorded session
+ *
+ * Forwards the frames a RecordingPlayer emits with their replay timestamps;
+ * playback itself (play, pause, seek, loop) is controlled on the player.
+ *
+ * @example
+ * ```ts
+ * const source = new RecordingHandSource(new RecordingPlayer(parseRecording(json)));
+ * source.start();
+ * source.player.play();
+ * ```
+ */
+export class RecordingHandSource extends BaseHandInputSource {
+  public readonly kind = 'recording';
+  public readonly player: RecordingPlayer;
+
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(player: RecordingPlayer) {
+    super();
+    this.player = player;
+  }
+
+  public start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = this.player.subscribe((frame, timestamp) => {
+      this.emitFrame(frame, timestamp);
+    });
+    this.setStatus('running', 'Replaying recording');
+  }
+
+  public stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.player.pause();
+    this.setStatus('idle', 'Replay stopped');
+  }
+}
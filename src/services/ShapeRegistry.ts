@@ -0,0 +1,332 @@
+import * as THREE from 'three';
+import type {
+  PaletteName,
+  ShapeDefinition,
+  ShapeRotation,
+  ShapeType,
+} from '@/types/shapes';
+import { ANIMATION_CONFIG, PARTICLE_CONFIG, SHAPE_COLORS } from '@/config/constants';
+import {
+  getSphereCoordinates,
+  getScatterCoordinates,
+} from '@/utils/geometry/shapeGenerators';
+import {
+  getCubeCoordinates,
+  getGalaxyCoordinates,
+  getHeartCoordinates,
+  getHelixCoordinates,
+  getLissajousKnotCoordinates,
+  getMobiusCoordinates,
+  getTorusCoordinates,
+  getWaveGridCoordinates,
+} from '@/utils/geometry/parametricShapes';
+import { getTextCoordinates } from '@/utils/geometry/textRenderer';
+import {
+  applyColorRule,
+  isColorRule,
+  resolvePalette,
+  withPalette,
+} from '@/utils/color/colorRules';
+
+type Listener = () => void;
+
+/**
+ * Shape every unknown or removed shape falls back to; cannot be unregistered
+ */
+const FALLBACK_SHAPE: ShapeType = 'sphere';
+
+/** Shared, so shapes without a single color do not get a new color object each call */
+const FALLBACK_COLOR = new THREE.Color(1, 1, 1);
+
+/**
+ * Built-in shapes, in the order swipes and circles step through them
+ */
+const BUILT_IN_SHAPES: ShapeDefinition[] = [
+  {
+    name: 'sphere',
+    source: { type: 'generator', generate: (count) => getSphereCoordinates(count) },
+    color: SHAPE_COLORS.sphere,
+    rotation: 'hand',
+  },
+  { name: 'hello', source: { type: 'text', text: 'Hello' }, color: SHAPE_COLORS.hello },
+  {
+    name: 'gemini',
+    source: { type: 'text', text: 'Gemini' },
+    color: SHAPE_COLORS.gemini,
+  },
+  {
+    name: 'sinhala-great',
+    source: { type: 'text', text: 'නියමයි' },
+    color: SHAPE_COLORS['sinhala-great'],
+  },
+  {
+    name: 'sinhala-hello',
+    source: { type: 'text', text: 'ආයුබෝවන්' },
+    color: SHAPE_COLORS['sinhala-hello'],
+  },
+  {
+    // Regenerated every time for a fresh burst
+    name: 'scatter',
+    source: { type: 'generator', generate: (count) => getScatterCoordinates(count) },
+    color: SHAPE_COLORS.scatter,
+    lerpFactor: ANIMATION_CONFIG.SCATTER_LERP_FACTOR,
+    rotation: 'spin',
+    cache: false,
+  },
+  {
+    name: 'cube',
+    source: { type: 'generator', generate: (count) => getCubeCoordinates(count) },
+    color: SHAPE_COLORS.cube,
+    rotation: 'hand',
+  },
+  {
+    name: 'torus',
+    source: { type: 'generator', generate: (count) => getTorusCoordinates(count) },
+    color: SHAPE_COLORS.torus,
+    rotation: 'hand',
+  },
+  {
+    // Strands alternate between the two colors
+    name: 'helix',
+    source: { type: 'generator', generate: (count) => getHelixCoordinates(count) },
+    color: { type: 'index', palette: [SHAPE_COLORS.helix, SHAPE_COLORS.lissajous] },
+    rotation: 'hand',
+  },
+  {
+    name: 'heart',
+    source: { type: 'generator', generate: (count) => getHeartCoordinates(count) },
+    color: {
+      type: 'gradient',
+      axis: 'y',
+      palette: [new THREE.Color(0.6, 0.0, 0.2), SHAPE_COLORS.heart],
+    },
+  },
+  {
+    // Bright core fading to blue arms
+    name: 'galaxy',
+    source: { type: 'generator', generate: (count) => getGalaxyCoordinates(count) },
+    color: {
+      type: 'radial',
+      palette: [
+        new THREE.Color(1, 0.95, 0.8),
+        SHAPE_COLORS.galaxy,
+        new THREE.Color(0.1, 0.2, 1),
+      ],
+    },
+    rotation: 'hand',
+  },
+  {
+    name: 'mobius',
+    source: { type: 'generator', generate: (count) => getMobiusCoordinates(count) },
+    color: SHAPE_COLORS.mobius,
+    rotation: 'hand',
+  },
+  {
+    name: 'lissajous',
+    source: {
+      type: 'generator',
+      generate: (count) => getLissajousKnotCoordinates(count),
+    },
+    color: SHAPE_COLORS.lissajous,
+    rotation: 'hand',
+  },
+  {
+    name: 'wave-grid',
+    source: { type: 'generator', generate: (count) => getWaveGridCoordinates(count) },
+    color: { type: 'height', palette: 'ocean' },
+    rotation: 'hand',
+  },
+];
+
+/**
+ * Single source of truth for particle shapes: coordinates, color, morph
+ * speed and rotation
+ *
+ * Coordinates are generated on first use (text needs a canvas, so nothing is
+ * generated during server rendering) and cached until the shape is
+ * re-registered or removed. The snapshot is shaped for React's
+ * useSyncExternalStore and replaced on every change.
+ *
+ * @example
+ * ```ts
+ * const unregister = shapeRegistry.register({
+ *   name: 'ring',
+ *   source: { type: 'generator', generate: (count) => getTorusCoordinates(count, { minorRadius: 2 }) },
+ *   color: [new THREE.Color(1, 0, 0.5), new THREE.Color(0, 0.8, 1)],
+ *   rotation: 'spin',
+ * });
+ * ```
+ */
+class ShapeRegistry {
+  private definitions = new Map<ShapeType, ShapeDefinition>();
+  private builtIns = new Set<ShapeType>(BUILT_IN_SHAPES.map(({ name }) => name));
+  private coordinates = new Map<ShapeType, THREE.Vector3[]>();
+  private snapshot: ShapeDefinition[] = [];
+  private listeners = new Set<Listener>();
+
+  public subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  public getSnapshot = (): ShapeDefinition[] => this.snapshot;
+
+  /**
+   * Registers a shape, replacing any definition with the same name
+   *
+   * @returns Function that unregisters the shape
+   * @throws Error if the name is empty
+   */
+  public register(definition: ShapeDefinition): () => void {
+    if (!definition.name) {
+      throw new Error('Shape name must not be empty');
+    }
+
+    this.definitions.set(definition.name, definition);
+    this.coordinates.delete(definition.name);
+    this.emit();
+    return () => this.unregister(definition.name);
+  }
+
+  /**
+   * Removes a shape; anything showing it falls back to the sphere
+   *
+   * @throws Error for the sphere, which is the fallback
+   */
+  public unregister(name: ShapeType): void {
+    if (name === FALLBACK_SHAPE) {
+      throw new Error(`'${FALLBACK_SHAPE}' is the fallback shape and cannot be removed`);
+    }
+
+    this.coordinates.delete(name);
+    if (this.definitions.delete(name)) {
+      this.emit();
+    }
+  }
+
+  public has(name: ShapeType): boolean {
+    return this.definitions.has(name);
+  }
+
+  /**
+   * Whether a name belongs to a shape that ships with the app
+   */
+  public isBuiltIn(name: ShapeType): boolean {
+    return this.builtIns.has(name);
+  }
+
+  /**
+   * Definition for a shape; unknown names resolve to the sphere
+   */
+  public get(name: ShapeType): ShapeDefinition {
+    return this.definitions.get(name) ?? this.definitions.get(FALLBACK_SHAPE)!;
+  }
+
+  /**
+   * All registered shapes, in registration order
+   */
+  public list(): ShapeDefinition[] {
+    return this.snapshot;
+  }
+
+  /**
+   * Particle coordinates of a shape, generated on first use
+   *
+   * @param name - Shape name (unknown names resolve to the sphere)
+   * @param count - Particle count passed to generators
+   */
+  public getCoordinates(
+    name: ShapeType,
+    count: number = PARTICLE_CONFIG.COUNT
+  ): THREE.Vector3[] {
+    const definition = this.get(name);
+    const cached = this.coordinates.get(definition.name);
+    if (cached && (definition.source.type !== 'generator' || cached.length === count)) {
+      return cached;
+    }
+
+    const coordinates = generate(definition, count);
+    if (definition.cache !== false) {
+      this.coordinates.set(definition.name, coordinates);
+    }
+    return coordinates;
+  }
+
+  /**
+   * Colors of a shape: one color, its palette, or its color rule's palette
+   */
+  public getColors(name: ShapeType): THREE.Color[] {
+    const { color } = this.get(name);
+    if (isColorRule(color)) {
+      return color.type === 'function' ? [] : [...resolvePalette(color.palette)];
+    }
+    return Array.isArray(color) ? color : [color];
+  }
+
+  /**
+   * Target colors of a shape's particles
+   *
+   * Color rules are evaluated on the given coordinates; plain colors are
+   * returned as they are (cycled across the particles).
+   *
+   * @param name - Shape name (unknown names resolve to the sphere)
+   * @param points - The shape's coordinates, as returned by getCoordinates()
+   * @param palette - Palette that replaces the shape's own colors, if any
+   * @returns Colors parallel to `points`, or a shorter list to cycle
+   */
+  public getParticleColors(
+    name: ShapeType,
+    points: THREE.Vector3[],
+    palette: PaletteName | null = null
+  ): THREE.Color[] {
+    const { color } = this.get(name);
+    const rule = isColorRule(color) ? color : null;
+
+    if (palette) {
+      return applyColorRule(withPalette(rule, palette), points);
+    }
+    return rule ? applyColorRule(rule, points) : this.getColors(name);
+  }
+
+  /**
+   * Representative color of a shape (the first palette entry, or white)
+   *
+   * Returns the same object on every call; do not modify it.
+   */
+  public getColor(name: ShapeType): THREE.Color {
+    return this.getColors(name)[0] ?? FALLBACK_COLOR;
+  }
+
+  public getLerpFactor(name: ShapeType): number {
+    return this.get(name).lerpFactor ?? ANIMATION_CONFIG.DEFAULT_LERP_FACTOR;
+  }
+
+  public getRotation(name: ShapeType): ShapeRotation {
+    return this.get(name).rotation ?? 'neutral';
+  }
+
+  private emit(): void {
+    this.snapshot = [...this.definitions.values()];
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+function generate(definition: ShapeDefinition, count: number): THREE.Vector3[] {
+  const { source } = definition;
+
+  switch (source.type) {
+    case 'generator':
+      return source.generate(count);
+    case 'points':
+      return source.points;
+    case 'text':
+      return getTextCoordinates(source.text, source.font);
+  }
+}
+
+export const shapeRegistry = new ShapeRegistry();
+BUILT_IN_SHAPES.forEach((definition) => shapeRegistry.register(definition));
+
+export {};
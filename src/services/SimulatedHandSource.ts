@@ -0,0 +1,183 @@
+import type { HandLabel, HandLandmarks } from '@/types/mediapipe';
+import type { FingerCurl, FingerName, GestureType } from '@/types/shapes';
+import { CAMERA_CONFIG, MEDIAPIPE_CONFIG, SIMULATOR_CONFIG } from '@/config/constants';
+import { BaseHandInputSource } from '@/services/HandInputSource';
+import { buildSyntheticHand } from '@/utils/geometry/syntheticHand';
+import { clamp, lerp } from '@/utils/math/interpolation';
+
+/**
+ * Poses selectable with the number keys, in key order (1-6)
+ */
+export const SIMULATED_POSES: { gesture: GestureType; curl: FingerCurl }[] = [
+  { gesture: 'open-palm', curl: { thumb: 0, index: 0, middle: 0, ring: 0, pinky: 0 } },
+  { gesture: 'fist', curl: { thumb: 1, index: 1, middle: 1, ring: 1, pinky: 1 } },
+  { gesture: 'index', curl: { thumb: 1, index: 0, middle: 1, ring: 1, pinky: 1 } },
+  { gesture: 'peace', curl: { thumb: 1, index: 0, middle: 0, ring: 1, pinky: 1 } },
+  {
+    gesture: 'three-fingers',
+    curl: { thumb: 1, index: 0, middle: 0, ring: 0, pinky: 1 },
+  },
+  { gesture: 'thumbs-up', curl: { thumb: 0, index: 1, middle: 1, ring: 1, pinky: 1 } },
+];
+
+const FINGERS: FingerName[] = ['thumb', 'index', 'middle', 'ring', 'pinky'];
+
+function isTextInput(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
+
+/**
+ * Synthetic hand driven by the mouse and keyboard
+ *
+ * The hand follows the pointer (as seen in the display, mirrored or not), keys 1-6
+ * select the poses in SIMULATED_POSES, H hides/shows the hand and the mouse
+ * wheel moves it towards or away from the camera. The same controls are
+ * available programmatically for automated tests.
+ *
+ * @example
+ * ```ts
+ * const source = new SimulatedHandSource();
+ * source.start();
+ * source.setPose('peace');
+ * source.setPosition(0.3, 0.5);
+ * ```
+ */
+export class SimulatedHandSource extends BaseHandInputSource {
+  public readonly kind = 'simulator';
+
+  private x = 0.5;
+  private y = 0.5;
+  private size: number = SIMULATOR_CONFIG.DEFAULT_SIZE;
+  private visible = true;
+  private mirrored: boolean = CAMERA_CONFIG.MIRROR;
+  private target: FingerCurl = SIMULATED_POSES[0].curl;
+  private curl: FingerCurl = SIMULATED_POSES[0].curl;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  public start(): void {
+    if (this.timer !== null) return;
+
+    window.addEventListener('pointermove', this.handlePointerMove);
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('wheel', this.handleWheel);
+    this.timer = setInterval(this.tick, 1000 / SIMULATOR_CONFIG.FPS);
+    this.setStatus('running', 'Simulated hand: mouse to move, 1-6 poses, H hide');
+  }
+
+  public stop(): void {
+    if (this.timer === null) return;
+
+    window.removeEventListener('pointermove', this.handlePointerMove);
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('wheel', this.handleWheel);
+    clearInterval(this.timer);
+    this.timer = null;
+    this.setStatus('idle', 'Simulator stopped');
+  }
+
+  /**
+   * Morphs towards one of the SIMULATED_POSES
+   *
+   * @returns False if no simulated pose has this gesture name
+   */
+  public setPose(gesture: GestureType): boolean {
+    const pose = SIMULATED_POSES.find((p) => p.gesture === gesture);
+    if (!pose) return false;
+    this.target = pose.curl;
+    return true;
+  }
+
+  /**
+   * Moves the hand center in display coordinates (0-1, as seen on screen)
+   */
+  public setPosition(x: number, y: number): void {
+    this.x = clamp(x, 0, 1);
+    this.y = clamp(y, 0, 1);
+  }
+
+  /**
+   * Sets the hand size, i.e. its apparent distance from the camera
+   */
+  public setSize(size: number): void {
+    this.size = clamp(size, SIMULATOR_CONFIG.MIN_SIZE, SIMULATOR_CONFIG.MAX_SIZE);
+  }
+
+  public setVisible(visible: boolean): void {
+    this.visible = visible;
+  }
+
+  /**
+   * Sets whether the display is mirrored, so the hand stays under the pointer
+   */
+  public setMirrored(mirrored: boolean): void {
+    this.mirrored = mirrored;
+  }
+
+  private handlePointerMove = (event: PointerEvent): void => {
+    this.setPosition(
+      event.clientX / window.innerWidth,
+      event.clientY / window.innerHeight
+    );
+  };
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (isTextInput(event.target)) return;
+
+    const poseIndex = Number(event.key) - 1;
+    if (poseIndex >= 0 && poseIndex < SIMULATED_POSES.length) {
+      this.target = SIMULATED_POSES[poseIndex].curl;
+    } else if (event.key === 'h' || event.key === 'H') {
+      this.visible = !this.visible;
+    }
+  };
+
+  private handleWheel = (event: WheelEvent): void => {
+    this.setSize(this.size - event.deltaY * SIMULATOR_CONFIG.WHEEL_SENSITIVITY);
+  };
+
+  private tick = (): void => {
+    const curl = { ...this.curl };
+    for (const finger of FINGERS) {
+      curl[finger] = lerp(
+        curl[finger],
+        this.target[finger],
+        SIMULATOR_CONFIG.POSE_LERP_FACTOR
+      );
+    }
+    this.curl = curl;
+
+    if (!this.visible) {
+      this.emitFrame({ multiHandLandmarks: [], multiHandedness: [] }, performance.now());
+      return;
+    }
+
+    // In a mirrored display, screen x maps to 1 - image x
+    const landmarks: HandLandmarks = buildSyntheticHand(curl, {
+      x: this.mirrored ? 1 - this.x : this.x,
+      y: this.y,
+      size: this.size,
+      label: SIMULATOR_CONFIG.LABEL,
+    });
+
+    // Report the label the way MediaPipe would, before handedness correction
+    const reportedLabel: HandLabel = MEDIAPIPE_CONFIG.SWAP_HANDEDNESS
+      ? SIMULATOR_CONFIG.LABEL === 'Left'
+        ? 'Right'
+        : 'Left'
+      : SIMULATOR_CONFIG.LABEL;
+
+    this.emitFrame(
+      {
+        multiHandLandmarks: [landmarks],
+        multiHandedness: [
+          { index: reportedLabel === 'Left' ? 0 : 1, score: 1, label: reportedLabel },
+        ],
+      },
+      performance.now()
+    );
+  };
+}
@@ -0,0 +1,360 @@
+import { VIDEO_FILE_CONFIG } from '@/config/constants';
+import { BaseHandInputSource, getVideoAspect } from '@/services/HandInputSource';
+import {
+  createHandDetector,
+  type HandDetector,
+  type InferenceMetrics,
+} from '@/services/HandDetector';
+import {
+  DEFAULT_TRACKING_SETTINGS,
+  type DetectionSettings,
+} from '@/services/CaptureSettingsStore';
+
+/**
+ * Playback position and mode of a video file
+ *
+ * @property playing - Whether the video is playing
+ * @property time - Current position in seconds
+ * @property duration - Length in seconds (0 until metadata has loaded)
+ * @property frame - Index of the current frame
+ * @property fps - Frame rate used for stepping (measured while playing)
+ * @property loop - Whether playback wraps around at the end
+ */
+export interface VideoPlaybackState {
+  playing: boolean;
+  time: number;
+  duration: number;
+  frame: number;
+  fps: number;
+  loop: boolean;
+}
+
+const VIDEO_EVENTS = [
+  'loadedmetadata',
+  'play',
+  'pause',
+  'seeking',
+  'seeked',
+  'ended',
+] as const;
+
+/**
+ * Input from a local video file, run through MediaPipe Hands frame by frame
+ *
+ * The file plays in the shared video element, so VideoFeed shows it in place
+ * of the webcam. Every presented frame is sent for detection (frames arriving
+ * while a detection is still running are skipped); frames reached by seek()
+ * or step() while paused are always detected.
+ *
+ * @example
+ * ```ts
+ * const source = new VideoFileHandSource(videoRef, file, '/mediapipe/hands/');
+ * source.start();
+ * source.step(1); // next frame
+ * ```
+ */
+export class VideoFileHandSource extends BaseHandInputSource {
+  public readonly kind = 'video';
+  public readonly file: File;
+
+  private videoRef: { current: HTMLVideoElement | null };
+  private assetBaseUrl: string;
+  private video: HTMLVideoElement | null = null;
+  private detector: HandDetector | null = null;
+  private detection: DetectionSettings = DEFAULT_TRACKING_SETTINGS.detection;
+  /** Incremented by stop() so an initialization still in progress is discarded */
+  private session = 0;
+  private url: string | null = null;
+  private busy = false;
+  private pending = false;
+  private frameCallbackId: number | null = null;
+  private lastMediaTime = -1;
+  private lastPresentedFrames = 0;
+  private playback: VideoPlaybackState = {
+    playing: false,
+    time: 0,
+    duration: 0,
+    frame: 0,
+    fps: VIDEO_FILE_CONFIG.DEFAULT_FPS,
+    loop: true,
+  };
+  private playbackListeners = new Set<() => void>();
+
+  constructor(
+    videoRef: { current: HTMLVideoElement | null },
+    file: File,
+    assetBaseUrl: string
+  ) {
+    super();
+    this.videoRef = videoRef;
+    this.file = file;
+    this.assetBaseUrl = assetBaseUrl;
+  }
+
+  public subscribePlayback = (listener: () => void): (() => void) => {
+    this.playbackListeners.add(listener);
+    return () => {
+      this.playbackListeners.delete(listener);
+    };
+  };
+
+  public getPlayback = (): VideoPlaybackState => this.playback;
+
+  public getMetrics = (): InferenceMetrics | null => this.detector?.getMetrics() ?? null;
+
+  /**
+   * Changes model complexity and confidence thresholds
+   */
+  public setDetectionOptions(options: DetectionSettings): void {
+    this.detection = options;
+    this.detector?.setOptions(options);
+  }
+
+  public start(): void {
+    if (this.video) return;
+
+    if (!window.Hands) {
+      this.setStatus('error', 'Waiting for MediaPipe...');
+      return;
+    }
+
+    const video = this.videoRef.current;
+    if (!video) {
+      this.setStatus('error', 'Waiting for video element...');
+      return;
+    }
+
+    this.setStatus('starting', 'Loading video...');
+    void this.initialize();
+
+    // Take over the video element from any camera stream
+    this.video = video;
+    this.url = URL.createObjectURL(this.file);
+    video.srcObject = null;
+    video.loop = this.playback.loop;
+    video.src = this.url;
+    VIDEO_EVENTS.forEach((type) => video.addEventListener(type, this.handleVideoEvent));
+    video.addEventListener('error', this.handleError);
+    this.scheduleFrame();
+  }
+
+  public stop(): void {
+    const video = this.video;
+    if (video) {
+      this.cancelFrame();
+      VIDEO_EVENTS.forEach((type) =>
+        video.removeEventListener(type, this.handleVideoEvent)
+      );
+      video.removeEventListener('error', this.handleError);
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+    }
+    if (this.url) URL.revokeObjectURL(this.url);
+
+    this.session++;
+    try {
+      this.detector?.close();
+    } catch (err) {
+      console.error('Error during cleanup:', err);
+    }
+
+    this.video = null;
+    this.url = null;
+    this.detector = null;
+    this.busy = false;
+    this.pending = false;
+    this.setStatus('idle', 'Video stopped');
+  }
+
+  public play(): void {
+    this.video?.play().catch((err) => console.error('Video playback failed:', err));
+  }
+
+  public pause(): void {
+    this.video?.pause();
+  }
+
+  /**
+   * Jumps to a position; the frame there is detected once the seek completes
+   *
+   * @param time - Target position in seconds (clamped to the video)
+   */
+  public seek(time: number): void {
+    const video = this.video;
+    if (!video) return;
+    video.currentTime = Math.min(Math.max(time, 0), video.duration || 0);
+  }
+
+  /**
+   * Pauses and moves by whole frames
+   *
+   * Lands in the middle of the target frame so rounding in the decoder can
+   * not pick a neighbouring one. Frames are counted at the rate measured
+   * while playing, or VIDEO_FILE_CONFIG.DEFAULT_FPS before the video has played.
+   *
+   * @param frames - Number of frames to move (negative steps backwards)
+   */
+  public step(frames: number): void {
+    const video = this.video;
+    if (!video) return;
+
+    video.pause();
+    const fps = this.playback.fps;
+    const frame = Math.max(this.currentFrame() + frames, 0);
+    this.seek((frame + 0.5) / fps);
+  }
+
+  public setLoop(loop: boolean): void {
+    if (this.video) this.video.loop = loop;
+    this.updatePlayback({ loop });
+  }
+
+  private async initialize(): Promise<void> {
+    const session = ++this.session;
+
+    let detector: HandDetector;
+    try {
+      detector = await createHandDetector(
+        (frame) => {
+          const aspect = this.video ? getVideoAspect(this.video) : undefined;
+          this.emitFrame({ ...frame, aspect }, performance.now());
+        },
+        this.assetBaseUrl,
+        this.detection
+      );
+    } catch (err) {
+      if (session !== this.session) return;
+      console.error('Failed to initialize MediaPipe Hands:', err);
+      this.setStatus('error', 'Error: Hand tracking initialization failed');
+      return;
+    }
+
+    if (session !== this.session) {
+      detector.close();
+      return;
+    }
+    this.detector = detector;
+    // Options may have changed while the model was loading
+    detector.setOptions(this.detection);
+    // The video may have been paused on its first frame while the model loaded
+    void this.detect();
+  }
+
+  private currentFrame(): number {
+    return Math.floor((this.video?.currentTime ?? 0) * this.playback.fps);
+  }
+
+  private handleVideoEvent = (event: Event): void => {
+    if (event.type === 'loadedmetadata') {
+      this.setStatus('running', `Video: ${this.file.name}`);
+    }
+
+    // The first frame after a seek is not a neighbour of the last one
+    if (event.type === 'seeking' || event.type === 'seeked') {
+      this.lastMediaTime = -1;
+    }
+
+    // Paused frames have no frame callback, so detect them here
+    if (event.type === 'loadedmetadata' || event.type === 'seeked') {
+      void this.detect();
+    }
+
+    this.updatePlayback({});
+  };
+
+  private handleError = (): void => {
+    this.setStatus('error', `Error: Could not play ${this.file.name}`);
+  };
+
+  private onVideoFrame = (_now: number, metadata: VideoFrameCallbackMetadata): void => {
+    // Measure the frame rate from consecutive presented frames, ignoring
+    // intervals no real video has (seeks, loops, stalls)
+    const frames = metadata.presentedFrames - this.lastPresentedFrames;
+    const elapsed = metadata.mediaTime - this.lastMediaTime;
+    if (
+      this.lastMediaTime >= 0 &&
+      frames === 1 &&
+      elapsed >= 1 / VIDEO_FILE_CONFIG.MAX_FPS &&
+      elapsed <= 1 / VIDEO_FILE_CONFIG.MIN_FPS
+    ) {
+      this.playback = { ...this.playback, fps: Math.round(1 / elapsed) };
+    }
+    this.lastMediaTime = metadata.mediaTime;
+    this.lastPresentedFrames = metadata.presentedFrames;
+
+    void this.detect();
+    this.updatePlayback({});
+    this.scheduleFrame();
+  };
+
+  private scheduleFrame(): void {
+    if (this.video && 'requestVideoFrameCallback' in this.video) {
+      this.frameCallbackId = this.video.requestVideoFrameCallback(this.onVideoFrame);
+    } else {
+      // Without frame callbacks, poll on animation frames
+      this.frameCallbackId = requestAnimationFrame(() => {
+        if (this.video && !this.video.paused) {
+          void this.detect();
+          this.updatePlayback({});
+        }
+        this.scheduleFrame();
+      });
+    }
+  }
+
+  private cancelFrame(): void {
+    if (this.frameCallbackId === null) return;
+
+    if (this.video && 'cancelVideoFrameCallback' in this.video) {
+      this.video.cancelVideoFrameCallback(this.frameCallbackId);
+    } else {
+      cancelAnimationFrame(this.frameCallbackId);
+    }
+    this.frameCallbackId = null;
+  }
+
+  /**
+   * Sends the current frame for detection
+   *
+   * While a detection is in flight, playing frames are dropped; a paused
+   * frame is detected as soon as the running detection finishes.
+   */
+  private async detect(): Promise<void> {
+    const video = this.video;
+    const detector = this.detector;
+    if (!video || !detector || video.readyState < 2) return;
+
+    if (this.busy) {
+      this.pending = video.paused;
+      return;
+    }
+
+    this.busy = true;
+    try {
+      await detector.detect(video);
+    } catch (err) {
+      console.error('Hand detection failed:', err);
+    } finally {
+      this.busy = false;
+    }
+
+    if (this.pending) {
+      this.pending = false;
+      void this.detect();
+    }
+  }
+
+  private updatePlayback(changes: Partial<VideoPlaybackState>): void {
+    const video = this.video;
+    this.playback = {
+      ...this.playback,
+      ...changes,
+      playing: video ? !video.paused && !video.ended : false,
+      time: video?.currentTime ?? 0,
+      duration: video && Number.isFinite(video.duration) ? video.duration : 0,
+      frame: this.currentFrame(),
+    };
+    this.playbackListeners.forEach((listener) => listener());
+  }
+}
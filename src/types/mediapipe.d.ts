@@ -1,7 +1,8 @@
 /**
  * TypeScript type definitions for MediaPipe Hands library
  *
- * These types provide type safety for the MediaPipe Hands library loaded via CDN.
+ * These types provide type safety for the MediaPipe Hands library loaded as a script
+ * (self-hosted from public/mediapipe/, or from the CDN as a fallback).
  * MediaPipe Hands provides real-time hand tracking and gesture recognition.
  *
  * @see https://google.github.io/mediapipe/solutions/hands
@@ -33,17 +34,133 @@ export interface Landmark {
  */
 export type HandLandmarks = Landmark[];
 
+/**
+ * Which hand a detection belongs to
+ */
+export type HandLabel = 'Left' | 'Right';
+
+/**
+ * Handedness classification for a detected hand
+ *
+ * @property index - Classification index (0=Left, 1=Right)
+ * @property score - Confidence (0-1) of the label
+ * @property label - Detected hand label
+ */
+export interface Handedness {
+  index: number;
+  score: number;
+  label: HandLabel;
+}
+
 /**
  * Results returned from MediaPipe Hands detection
  *
  * @property multiHandLandmarks - Array of detected hands, each containing 21 landmarks
+ * @property multiHandedness - Handedness for each hand, in the same order as the landmarks
  * @property image - The input video element that was processed
  */
 export interface HandResults {
   multiHandLandmarks?: HandLandmarks[];
+  multiHandedness?: Handedness[];
   image: HTMLVideoElement;
 }
 
+/**
+ * Detection output without the source image
+ *
+ * What the tracking pipeline actually consumes, so live results and replayed
+ * recordings can share one path.
+ *
+ * @property aspect - Width divided by height of the detected image, if the source knows it
+ */
+export interface HandFrame extends Omit<HandResults, 'image'> {
+  aspect?: number;
+}
+
+/**
+ * One frame of a hand recording
+ *
+ * @property timestamp - Milliseconds since the recording started
+ */
+export interface RecordedFrame extends HandFrame {
+  timestamp: number;
+}
+
+/**
+ * A recorded stream of hand detections, as saved to JSON
+ *
+ * @property version - File format version
+ * @property recordedAt - ISO date the recording was made
+ * @property duration - Length in milliseconds
+ * @property frames - Frames in timestamp order
+ */
+export interface HandRecording {
+  version: number;
+  recordedAt: string;
+  duration: number;
+  frames: RecordedFrame[];
+}
+
+/**
+ * A hand detected in the current frame
+ *
+ * @property landmarks - 21 landmarks of the hand
+ * @property label - Which hand this is, corrected for camera mirroring
+ * @property score - Handedness confidence (0-1)
+ * @property key - Identity that follows the hand across frames (see getHandKeys)
+ */
+export interface TrackedHand {
+  landmarks: HandLandmarks;
+  label: HandLabel;
+  score: number;
+  key: string;
+}
+
+/**
+ * Whether a hand is in view
+ *
+ * - detected: seen in the latest frame
+ * - lost: missing, but its last pose is held for the grace period
+ * - gone: missing for longer than the grace period
+ */
+export type HandPresenceState = 'detected' | 'lost' | 'gone';
+
+/**
+ * Presence of one tracked hand
+ *
+ * @property label - Which hand this is
+ * @property state - 'detected' or 'lost' (gone hands are not listed)
+ * @property since - Time the hand entered this state in milliseconds
+ */
+export interface HandPresence {
+  label: HandLabel;
+  state: Exclude<HandPresenceState, 'gone'>;
+  since: number;
+}
+
+/**
+ * Presence transition of one hand
+ *
+ * - handDetected: the hand appeared, or came back within the grace period
+ * - handLost: the hand went missing; its last pose is held
+ * - handGone: the grace period ran out (or tracking was reset)
+ *
+ * @property label - Hand the event refers to
+ * @property recovered - For handDetected, whether the hand returned while lost
+ * @property timestamp - Time of the event in milliseconds
+ */
+export interface HandPresenceEvent {
+  type: 'handDetected' | 'handLost' | 'handGone';
+  label: HandLabel;
+  recovered: boolean;
+  timestamp: number;
+}
+
+/**
+ * Listener for hand presence transitions
+ */
+export type HandPresenceListener = (event: HandPresenceEvent) => void;
+
 /**
  * Callback function type for hand detection results
  */
@@ -52,7 +169,7 @@ export type OnResultsCallback = (results: HandResults) => void;
 /**
  * Configuration for MediaPipe Hands file loading
  *
- * @property locateFile - Function that returns the CDN URL for MediaPipe files
+ * @property locateFile - Function that returns the URL for MediaPipe files
  */
 export interface HandsConfig {
   locateFile: (file: string) => string;
@@ -61,7 +178,7 @@ export interface HandsConfig {
 /**
  * Options for configuring MediaPipe Hands behavior
  *
- * @property maxNumHands - Maximum number of hands to detect (1-2)
+ * @property maxNumHands - Maximum number of hands to detect
  * @property modelComplexity - Model complexity (0=lite, 1=full, 2=heavy). Higher = more accurate but slower
  * @property minDetectionConfidence - Minimum confidence (0-1) for initial hand detection
  * @property minTrackingConfidence - Minimum confidence (0-1) for hand tracking between frames
@@ -88,42 +205,22 @@ export interface HandsInstance {
   onResults(callback: OnResultsCallback): void;
 
   /**
-   * Sends an image frame for hand detection
+   * Loads the model and wasm runtime; called implicitly by the first send()
    */
-  send(input: { image: HTMLVideoElement }): Promise<void>;
+  initialize(): Promise<void>;
 
   /**
-   * Closes the Hands detector and releases resources
-   */
-  close(): void;
-}
-
-/**
- * Configuration for MediaPipe Camera utility
- *
- * @property onFrame - Callback invoked for each camera frame
- * @property width - Camera resolution width in pixels
- * @property height - Camera resolution height in pixels
- */
-export interface CameraConfig {
-  onFrame: () => void | Promise<void>;
-  width: number;
-  height: number;
-}
-
-/**
- * MediaPipe Camera instance interface
- */
-export interface CameraInstance {
-  /**
-   * Starts the camera feed
+   * Sends an image frame for hand detection
+   *
+   * ImageBitmap input is used when running inside a worker, where there are
+   * no DOM elements.
    */
-  start(): void;
+  send(input: { image: HTMLVideoElement | ImageBitmap }): Promise<void>;
 
   /**
-   * Stops the camera feed
+   * Closes the Hands detector and releases resources
    */
-  stop(): void;
+  close(): void;
 }
 
 /**
@@ -133,32 +230,19 @@ export interface HandsConstructor {
   new (config: HandsConfig): HandsInstance;
 }
 
-/**
- * MediaPipe Camera constructor
- */
-export interface CameraConstructor {
-  new (videoElement: HTMLVideoElement, config: CameraConfig): CameraInstance;
-}
-
 /**
  * Global window interface extension for MediaPipe
  *
- * MediaPipe libraries are loaded via CDN and attach to the window object.
+ * MediaPipe libraries are loaded as scripts and attach to the window object.
  * This interface provides type safety for accessing these global objects.
  */
 declare global {
   interface Window {
     /**
      * MediaPipe Hands constructor
-     * Available after loading https://cdn.jsdelivr.net/npm/@mediapipe/hands/hands.js
+     * Available after loading hands.js (see useMediaPipeScripts)
      */
     Hands: HandsConstructor;
-
-    /**
-     * MediaPipe Camera utility constructor
-     * Available after loading https://cdn.jsdelivr.net/npm/@mediapipe/camera_utils/camera_utils.js
-     */
-    Camera: CameraConstructor;
   }
 }
 
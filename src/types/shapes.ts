@@ -8,15 +8,104 @@
 import * as THREE from 'three';
 
 /**
- * Available particle shape formations
+ * Built-in particle shape formations
  */
-export type ShapeType =
+export type BuiltInShape =
   | 'sphere'
   | 'hello'
   | 'gemini'
   | 'sinhala-great'
   | 'sinhala-hello'
-  | 'scatter';
+  | 'scatter'
+  | 'cube'
+  | 'torus'
+  | 'helix'
+  | 'heart'
+  | 'galaxy'
+  | 'mobius'
+  | 'lissajous'
+  | 'wave-grid';
+
+/**
+ * Name of a shape: a built-in shape or one registered at runtime
+ *
+ * The `string & {}` member keeps editor completion for the built-in names.
+ */
+export type ShapeType = BuiltInShape | (string & {});
+
+/**
+ * Where a shape's particle coordinates come from
+ *
+ * - generator: called with the particle count
+ * - points: a fixed coordinate array
+ * - text: a string rendered with getTextCoordinates
+ */
+export type ShapeSource =
+  | { type: 'generator'; generate: (count: number) => THREE.Vector3[] }
+  | { type: 'points'; points: THREE.Vector3[] }
+  | { type: 'text'; text: string; font?: string };
+
+/**
+ * How a formation rotates
+ *
+ * - hand: follows the physics hand
+ * - spin: keeps spinning
+ * - neutral: eases back to facing the camera (follows a dedicated physics hand)
+ */
+export type ShapeRotation = 'hand' | 'spin' | 'neutral';
+
+/**
+ * Named color palettes (see COLOR_PALETTES)
+ */
+export type PaletteName = 'neon' | 'fire' | 'ocean';
+
+/**
+ * Colors a color rule blends between: a named palette or explicit colors
+ */
+export type Palette = PaletteName | THREE.Color[];
+
+/**
+ * Per-particle coloring computed from a shape's coordinates
+ *
+ * - gradient: along an axis, from the lowest to the highest point
+ * - radial: from the center outwards
+ * - index: palette entries in turn, by particle index
+ * - noise: smooth 3D noise over the coordinates
+ * - height: along z, the direction reliefs and the wave grid displace
+ * - function: any color per point
+ */
+export type ColorRule =
+  | { type: 'gradient'; axis: 'x' | 'y' | 'z'; palette: Palette }
+  | { type: 'radial'; palette: Palette }
+  | { type: 'index'; palette: Palette }
+  | { type: 'noise'; palette: Palette; scale?: number }
+  | { type: 'height'; palette: Palette }
+  | { type: 'function'; color: (point: THREE.Vector3, index: number) => THREE.Color };
+
+/**
+ * A shape's particle colors: one color, a palette cycled across the
+ * particles, or a color rule
+ */
+export type ShapeColor = THREE.Color | THREE.Color[] | ColorRule;
+
+/**
+ * Declarative shape definition
+ *
+ * @property name - Unique shape name
+ * @property source - Coordinate source, generated on first use
+ * @property color - Particle color, a palette cycled across the particles, or a color rule
+ * @property lerpFactor - Morph lerp factor towards this shape (default ANIMATION_CONFIG.DEFAULT_LERP_FACTOR)
+ * @property rotation - Rotation behavior (default 'neutral')
+ * @property cache - Keep the generated coordinates (default true); false regenerates every time
+ */
+export interface ShapeDefinition {
+  name: ShapeType;
+  source: ShapeSource;
+  color: ShapeColor;
+  lerpFactor?: number;
+  rotation?: ShapeRotation;
+  cache?: boolean;
+}
 
 /**
  * Recognized hand gestures
@@ -30,6 +119,124 @@ export type GestureType =
   | 'fist'
   | 'none';
 
+/**
+ * Name of a gesture: a built-in GestureType or one registered at runtime
+ *
+ * The `string & {}` member keeps editor completion for the built-in names.
+ */
+export type GestureName = GestureType | (string & {});
+
+/**
+ * Finger-state rule of a gesture
+ *
+ * Each listed finger must be extended (true) or curled (false); fingers left
+ * out may be either. The same pattern is the prototype used for confidence.
+ */
+export type FingerPattern = Partial<Record<FingerName, boolean>>;
+
+/**
+ * Declarative gesture definition
+ *
+ * @property name - Unique gesture name
+ * @property fingers - Required finger states
+ * @property when - Optional extra condition on the full finger state
+ * @property priority - Higher priorities are matched first
+ * @property displayName - Label shown in the HUD
+ * @property shape - Shape the gesture switches to
+ * @property color - Particle color while the gesture is active
+ */
+export interface GestureDefinition {
+  name: GestureName;
+  fingers: FingerPattern;
+  when?: (state: FingerState) => boolean;
+  priority: number;
+  displayName: string;
+  shape: ShapeType;
+  color: THREE.Color;
+}
+
+/**
+ * A user-trained gesture
+ *
+ * @property name - Unique gesture name, also used as its display name
+ * @property shape - Shape the gesture switches to
+ * @property samples - Palm-space feature vectors recorded during training
+ * @property createdAt - Training time (ms since epoch)
+ */
+export interface CustomGesture {
+  name: string;
+  shape: ShapeType;
+  samples: number[][];
+  createdAt: number;
+}
+
+/**
+ * Which classifiers produce gestures
+ *
+ * - rules: built-in finger-state rules only
+ * - custom: user-trained gestures only
+ * - combined: both, the more confident result wins
+ */
+export type RecognitionMode = 'rules' | 'custom' | 'combined';
+
+/**
+ * Lifecycle event of a stabilized gesture
+ *
+ * - gestureStart: a gesture has been held long enough to commit
+ * - gestureHold: the committed gesture is still held (emitted periodically)
+ * - gestureEnd: the committed gesture was released
+ *
+ * @property gesture - Gesture the event refers to
+ * @property confidence - Latest confidence of the gesture (0-1)
+ * @property duration - Time since gestureStart in milliseconds
+ * @property timestamp - Time of the event in milliseconds
+ */
+export interface GestureTransition {
+  type: 'gestureStart' | 'gestureHold' | 'gestureEnd';
+  gesture: string;
+  confidence: number;
+  duration: number;
+  timestamp: number;
+}
+
+/**
+ * Listener for gesture transitions
+ */
+export type GestureTransitionListener = (transition: GestureTransition) => void;
+
+/**
+ * Recognized hand motions over time
+ *
+ * Directions are as the user sees them in the mirrored video feed.
+ * Push moves the hand towards the camera, pull away from it.
+ */
+export type MotionGestureType =
+  | 'swipe-left'
+  | 'swipe-right'
+  | 'swipe-up'
+  | 'swipe-down'
+  | 'circle-cw'
+  | 'circle-ccw'
+  | 'wave'
+  | 'push'
+  | 'pull';
+
+/**
+ * Motion gesture recognition result
+ *
+ * @property name - The recognized motion
+ * @property velocity - Speed of the motion: image heights/s for swipes and waves,
+ *   radians/s for circles, relative scale change/s for push and pull
+ * @property confidence - Confidence score (0-1) of the detection
+ * @property timestamp - Time of detection in milliseconds
+ */
+export interface MotionGestureResult {
+  name: MotionGestureType;
+  velocity: number;
+  confidence: number;
+  timestamp: number;
+}
+
 /**
  * Configuration for a particle shape
  *
@@ -66,18 +273,31 @@ export interface ColorRGB {
  * @property confidence - Confidence score (0-1) of the detection
  */
 export interface GestureResult {
-  name: string;
+  name: GestureName;
   confidence: number;
 }
 
+/**
+ * Finger names in landmark order
+ */
+export type FingerName = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+
+/**
+ * Continuous curl per finger
+ *
+ * Each value is in range 0-1, where 0 is fully extended and 1 is fully curled.
+ */
+export type FingerCurl = Record<FingerName, number>;
+
 /**
  * Finger state for gesture detection
  *
- * @property thumb - Whether thumb is raised
- * @property index - Whether index finger is raised
- * @property middle - Whether middle finger is raised
- * @property ring - Whether ring finger is raised
- * @property pinky - Whether pinky finger is raised
+ * @property thumb - Whether thumb is extended
+ * @property index - Whether index finger is extended
+ * @property middle - Whether middle finger is extended
+ * @property ring - Whether ring finger is extended
+ * @property pinky - Whether pinky finger is extended
+ * @property curl - Continuous curl value behind each boolean
  */
 export interface FingerState {
   thumb: boolean;
@@ -85,6 +305,7 @@ export interface FingerState {
   middle: boolean;
   ring: boolean;
   pinky: boolean;
+  curl: FingerCurl;
 }
 
 /**
@@ -100,6 +321,125 @@ export interface ParticleSystemState {
   particleCount: number;
 }
 
+/**
+ * How particles are shared between hands
+ *
+ * - single: one formation, commanded by the command hand
+ * - per-hand: one cluster per tracked hand, each following its own gesture
+ */
+export type ClusterMode = 'single' | 'per-hand';
+
+/**
+ * A share of the particles owned by one hand
+ *
+ * @property key - Hand key (see getHandKeys)
+ * @property shape - Shape the cluster forms
+ * @property color - Color of the cluster
+ * @property anchor - Hand position on screen (0-1, as displayed, y down)
+ */
+export interface ParticleCluster {
+  key: string;
+  shape: ShapeType;
+  color: THREE.Color;
+  anchor: { x: number; y: number };
+}
+
+/**
+ * How particles move towards their shape
+ *
+ * - morph: eased interpolation on the GPU
+ * - forces: per-particle velocity with springs, damping, noise and hand fields
+ */
+export type SimulationMode = 'morph' | 'forces';
+
+/**
+ * Direction a force field pushes particles
+ */
+export type FieldPolarity = 'attract' | 'repel';
+
+/**
+ * A point that attracts or repels particles in force mode
+ *
+ * @property anchor - Fingertip position on screen (0-1, as displayed, y down)
+ * @property polarity - Whether particles are pulled in or pushed away
+ */
+export interface ForceField {
+  anchor: { x: number; y: number };
+  polarity: FieldPolarity;
+}
+
+/**
+ * Force simulation parameters (per frame, in world units)
+ *
+ * @property stiffness - Spring acceleration per unit of distance from the shape
+ * @property damping - Fraction of velocity lost each frame (0-1)
+ * @property noise - Largest random acceleration
+ * @property fieldRadius - Distance from a fingertip at which its field vanishes
+ * @property fieldStrength - Acceleration right at a fingertip
+ */
+export interface ForceParams {
+  stiffness: number;
+  damping: number;
+  noise: number;
+  fieldRadius: number;
+  fieldStrength: number;
+}
+
+/**
+ * Particle parameters driven by the physics hand
+ *
+ * @property rotationX - Rotation around the X axis in radians
+ * @property rotationY - Rotation around the Y axis in radians
+ * @property spread - Uniform scale applied to the particle formation
+ * @property speed - Multiplier applied to morph lerp factors
+ * @property particleSize - Multiplier applied to PARTICLE_CONFIG.SIZE
+ */
+export interface PhysicsParams {
+  rotationX: number;
+  rotationY: number;
+  spread: number;
+  speed: number;
+  particleSize: number;
+}
+
+/**
+ * Parameter a pinch drag adjusts
+ */
+export type PinchTarget = 'scale' | 'size' | 'speed';
+
+/**
+ * Multipliers set by pinch dragging, one per target (1 = unchanged)
+ */
+export type PinchAdjustments = Record<PinchTarget, number>;
+
+/**
+ * Current pinch measurement
+ *
+ * @property pinching - Whether thumb and index tips are pinched together
+ * @property distance - Thumb tip to index tip distance in palm units
+ * @property x - Pinch point (midway between the tips), normalized image x
+ * @property y - Pinch point, normalized image y
+ */
+export interface PinchState {
+  pinching: boolean;
+  distance: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Pinch lifecycle event
+ *
+ * @property type - 'pinchStart' when the tips close, 'pinchEnd' when they open
+ * @property state - Pinch measurement at the time of the event
+ * @property timestamp - Time of the event in milliseconds
+ */
+export interface PinchEvent {
+  type: 'pinchStart' | 'pinchEnd';
+  state: PinchState;
+  timestamp: number;
+}
+
 /**
  * Animation configuration
  *
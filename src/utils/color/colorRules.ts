@@ -0,0 +1,172 @@
+/**
+ * Color Rule Utilities
+ *
+ * Computes per-particle colors from a shape's coordinates: gradients, radial
+ * falloff, index palettes, smooth noise and height maps.
+ */
+
+import * as THREE from 'three';
+import type { ColorRule, Palette, PaletteName, ShapeColor } from '@/types/shapes';
+import { COLOR_CONFIG, COLOR_PALETTES } from '@/config/constants';
+import { lerp } from '@/utils/math/interpolation';
+
+/**
+ * Colors of a palette
+ *
+ * @param palette - Palette name or explicit colors
+ * @returns The palette's colors, low end first
+ */
+export function resolvePalette(palette: Palette): readonly THREE.Color[] {
+  return typeof palette === 'string' ? COLOR_PALETTES[palette] : palette;
+}
+
+/**
+ * Color at a position along a palette, blending neighboring entries
+ *
+ * @param colors - Palette colors, low end first
+ * @param t - Position along the palette (0-1, clamped)
+ * @returns New color
+ *
+ * @example
+ * ```ts
+ * samplePalette(COLOR_PALETTES.fire, 0.5); // Between red and orange
+ * ```
+ */
+export function samplePalette(colors: readonly THREE.Color[], t: number): THREE.Color {
+  if (colors.length === 0) return new THREE.Color(1, 1, 1);
+
+  const scaled = THREE.MathUtils.clamp(t, 0, 1) * (colors.length - 1);
+  const index = Math.min(Math.floor(scaled), colors.length - 2);
+  if (index < 0) return colors[0].clone();
+
+  return colors[index].clone().lerp(colors[index + 1], scaled - index);
+}
+
+/**
+ * Computes one color per point according to a color rule
+ *
+ * Gradients and height maps stretch the palette from the lowest to the
+ * highest point, radial rules from the origin to the farthest point, so
+ * every shape uses the whole palette whatever its size.
+ *
+ * @param rule - Color rule
+ * @param points - Shape coordinates
+ * @returns Colors parallel to `points`
+ *
+ * @example
+ * ```ts
+ * const colors = applyColorRule({ type: 'gradient', axis: 'y', palette: 'ocean' }, points);
+ * ```
+ */
+export function applyColorRule(rule: ColorRule, points: THREE.Vector3[]): THREE.Color[] {
+  switch (rule.type) {
+    case 'gradient':
+      return mapRange(points, (point) => point[rule.axis], resolvePalette(rule.palette));
+    case 'height':
+      return mapRange(points, (point) => point.z, resolvePalette(rule.palette));
+    case 'radial':
+      return mapRange(points, (point) => point.length(), resolvePalette(rule.palette), 0);
+    case 'index': {
+      const colors = resolvePalette(rule.palette);
+      return points.map((_, i) => colors[i % colors.length]);
+    }
+    case 'noise': {
+      const colors = resolvePalette(rule.palette);
+      const scale = rule.scale ?? COLOR_CONFIG.NOISE_SCALE;
+      return points.map((point) =>
+        samplePalette(
+          colors,
+          valueNoise(point.x * scale, point.y * scale, point.z * scale)
+        )
+      );
+    }
+    case 'function':
+      return points.map((point, i) => rule.color(point, i));
+  }
+}
+
+/**
+ * Replaces the palette of a color rule
+ *
+ * Rules without a palette (functions) and shapes without a rule become a
+ * gradient along COLOR_CONFIG.PALETTE_AXIS.
+ *
+ * @param rule - Shape's color rule, or null if it has plain colors
+ * @param palette - Palette to use instead
+ */
+export function withPalette(rule: ColorRule | null, palette: PaletteName): ColorRule {
+  if (!rule || rule.type === 'function') {
+    return { type: 'gradient', axis: COLOR_CONFIG.PALETTE_AXIS, palette };
+  }
+
+  return { ...rule, palette };
+}
+
+/**
+ * Whether a shape color is a color rule rather than plain colors
+ */
+export function isColorRule(color: ShapeColor): color is ColorRule {
+  return !Array.isArray(color) && !(color instanceof THREE.Color);
+}
+
+/**
+ * Maps a value per point onto a palette, from `min` (default the lowest
+ * value) to the highest value
+ */
+function mapRange(
+  points: THREE.Vector3[],
+  value: (point: THREE.Vector3) => number,
+  colors: readonly THREE.Color[],
+  min?: number
+): THREE.Color[] {
+  const values = points.map(value);
+  let low = min ?? Infinity;
+  let high = -Infinity;
+  for (const v of values) {
+    if (min === undefined) low = Math.min(low, v);
+    high = Math.max(high, v);
+  }
+
+  const range = high - low || 1;
+  return values.map((v) => samplePalette(colors, (v - low) / range));
+}
+
+/**
+ * Pseudo-random value in [0, 1) for an integer lattice point
+ */
+function hash(x: number, y: number, z: number): number {
+  const h = Math.sin(x * 127.1 + y * 311.7 + z * 74.7) * 43758.5453;
+  return h - Math.floor(h);
+}
+
+/**
+ * Smooth 3D value noise in [0, 1]
+ */
+function valueNoise(x: number, y: number, z: number): number {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const z0 = Math.floor(z);
+  // Smoothstep weights hide the lattice
+  const fade = (t: number) => t * t * (3 - 2 * t);
+  const u = fade(x - x0);
+  const v = fade(y - y0);
+  const w = fade(z - z0);
+
+  const corner = (dx: number, dy: number, dz: number) => hash(x0 + dx, y0 + dy, z0 + dz);
+
+  return lerp(
+    lerp(
+      lerp(corner(0, 0, 0), corner(1, 0, 0), u),
+      lerp(corner(0, 1, 0), corner(1, 1, 0), u),
+      v
+    ),
+    lerp(
+      lerp(corner(0, 0, 1), corner(1, 0, 1), u),
+      lerp(corner(0, 1, 1), corner(1, 1, 1), u),
+      v
+    ),
+    w
+  );
+}
+
+export {};
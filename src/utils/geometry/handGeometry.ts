@@ -0,0 +1,170 @@
+/**
+ * Hand Geometry Utilities
+ *
+ * Converts MediaPipe landmarks into 3D vectors and derives orientation-invariant
+ * measurements (palm frame, joint angles, finger curl) from them.
+ */
+
+import * as THREE from 'three';
+import type { HandLandmarks, Landmark } from '@/types/mediapipe';
+import { CAMERA_CONFIG, HAND_LANDMARK_COUNT, LANDMARK_INDICES } from '@/config/constants';
+
+/** Image aspect ratio assumed when a source does not report one */
+export const DEFAULT_ASPECT = CAMERA_CONFIG.WIDTH / CAMERA_CONFIG.HEIGHT;
+
+/**
+ * Orthonormal coordinate frame attached to the palm
+ *
+ * @property origin - Wrist position
+ * @property across - Unit axis from the pinky side towards the index side
+ * @property up - Unit axis from the wrist towards the knuckles
+ * @property normal - Unit axis out of the palm (across × up)
+ * @property size - Wrist to middle MCP distance, used to normalize lengths
+ */
+export interface PalmFrame {
+  origin: THREE.Vector3;
+  across: THREE.Vector3;
+  up: THREE.Vector3;
+  normal: THREE.Vector3;
+  size: number;
+}
+
+/**
+ * Converts a normalized landmark into a 3D vector with uniform axis scale
+ *
+ * MediaPipe normalizes x by image width and y by image height, so x (and z,
+ * which shares x's scale) are stretched by the aspect ratio to keep angles true.
+ *
+ * @param landmark - MediaPipe landmark
+ * @param aspect - Image width divided by height
+ * @returns Landmark position as a THREE.Vector3
+ */
+export function landmarkToVector(
+  landmark: Landmark,
+  aspect: number = DEFAULT_ASPECT
+): THREE.Vector3 {
+  return new THREE.Vector3(landmark.x * aspect, landmark.y, landmark.z * aspect);
+}
+
+/**
+ * Converts a full hand into 3D vectors
+ *
+ * @param landmarks - 21 MediaPipe hand landmarks
+ * @param aspect - Image width divided by height
+ * @returns Array of 21 vectors in the same order as the landmarks
+ */
+export function landmarksToVectors(
+  landmarks: HandLandmarks,
+  aspect?: number
+): THREE.Vector3[] {
+  return landmarks.map((landmark) => landmarkToVector(landmark, aspect));
+}
+
+/**
+ * Builds the palm frame from the wrist, index MCP and pinky MCP
+ *
+ * @param points - Hand landmarks as vectors (see landmarksToVectors)
+ * @returns Palm frame with unit axes
+ *
+ * @example
+ * ```ts
+ * const frame = getPalmFrame(landmarksToVectors(landmarks));
+ * const local = toPalmSpace(points[LANDMARK_INDICES.THUMB_TIP], frame);
+ * ```
+ */
+export function getPalmFrame(points: THREE.Vector3[]): PalmFrame {
+  const wrist = points[LANDMARK_INDICES.WRIST];
+  const indexMcp = points[LANDMARK_INDICES.INDEX_MCP];
+  const pinkyMcp = points[LANDMARK_INDICES.PINKY_MCP];
+
+  const knuckleCenter = new THREE.Vector3().addVectors(indexMcp, pinkyMcp).multiplyScalar(0.5);
+  const up = new THREE.Vector3().subVectors(knuckleCenter, wrist).normalize();
+
+  // Gram-Schmidt: remove the component of the knuckle line along `up`
+  const across = new THREE.Vector3().subVectors(indexMcp, pinkyMcp);
+  across.addScaledVector(up, -across.dot(up)).normalize();
+
+  const normal = new THREE.Vector3().crossVectors(across, up).normalize();
+  const size = wrist.distanceTo(points[LANDMARK_INDICES.MIDDLE_MCP]) || 1;
+
+  return { origin: wrist.clone(), across, up, normal, size };
+}
+
+/**
+ * Expresses a point in palm frame coordinates, normalized by palm size
+ *
+ * @param point - Point in image space
+ * @param frame - Palm frame
+ * @returns Vector (across, up, normal) in palm units
+ */
+export function toPalmSpace(point: THREE.Vector3, frame: PalmFrame): THREE.Vector3 {
+  const offset = new THREE.Vector3().subVectors(point, frame.origin);
+  return new THREE.Vector3(
+    offset.dot(frame.across),
+    offset.dot(frame.up),
+    offset.dot(frame.normal)
+  ).divideScalar(frame.size);
+}
+
+/** Length of the vectors returned by getPalmFeatures */
+export const PALM_FEATURE_COUNT = (HAND_LANDMARK_COUNT - 1) * 3;
+
+/**
+ * Flattens a hand into a translation, rotation and scale invariant feature vector
+ *
+ * Every landmark except the wrist (always the origin) is expressed in palm
+ * frame coordinates, giving 20 × 3 = 60 values.
+ *
+ * @param landmarks - 21 MediaPipe hand landmarks
+ * @param aspect - Image width divided by height
+ * @returns Feature vector suitable for distance-based classification
+ */
+export function getPalmFeatures(landmarks: HandLandmarks, aspect?: number): number[] {
+  const points = landmarksToVectors(landmarks, aspect);
+  const frame = getPalmFrame(points);
+  const features: number[] = [];
+
+  for (let i = 1; i < points.length; i++) {
+    const local = toPalmSpace(points[i], frame);
+    features.push(local.x, local.y, local.z);
+  }
+
+  return features;
+}
+
+/**
+ * Angle between two direction vectors in radians
+ *
+ * @param a - First direction
+ * @param b - Second direction
+ * @returns Angle in range [0, π], or 0 if either vector is degenerate
+ */
+export function angleBetween(a: THREE.Vector3, b: THREE.Vector3): number {
+  if (a.lengthSq() === 0 || b.lengthSq() === 0) return 0;
+  return a.angleTo(b);
+}
+
+/**
+ * Sums the bend angles along a chain of joints
+ *
+ * The first segment is compared with `baseDirection`, each following segment
+ * with the previous one. A straight chain returns 0.
+ *
+ * @param chain - Joint positions from base to tip
+ * @param baseDirection - Direction the first segment would point if unbent
+ * @returns Total bend in radians
+ */
+export function getChainBend(chain: THREE.Vector3[], baseDirection: THREE.Vector3): number {
+  let total = 0;
+  let previous = baseDirection;
+
+  for (let i = 1; i < chain.length; i++) {
+    const segment = new THREE.Vector3().subVectors(chain[i], chain[i - 1]);
+    total += angleBetween(previous, segment);
+    previous = segment;
+  }
+
+  return total;
+}
+
+export {};
@@ -0,0 +1,152 @@
+/**
+ * Image Sampling Utility
+ *
+ * Rasterizes an image to a canvas and turns its pixels into colored particle
+ * positions, optionally raised into a relief by brightness.
+ */
+
+import * as THREE from 'three';
+import { IMAGE_CONFIG, PARTICLE_CONFIG } from '@/config/constants';
+
+/**
+ * Which pixels become particles
+ *
+ * - luminance: bright pixels (transparent pixels count as dark)
+ * - alpha: opaque pixels, whatever their color
+ */
+export type ImageSampleMode = 'luminance' | 'alpha';
+
+/**
+ * Points sampled from an image, with each point's pixel color
+ */
+export interface ImageSample {
+  points: THREE.Vector3[];
+  colors: THREE.Color[];
+}
+
+/**
+ * Options for sampleImage
+ */
+export interface ImageSampleOptions {
+  /** Which pixels become particles */
+  mode: ImageSampleMode;
+  /** Fraction of the canvas pixels along each axis that are sampled (0-1] */
+  density: number;
+  /** Minimum luminance or alpha (0-1) for a pixel to become a particle */
+  threshold: number;
+  /** Depth of the luminance relief on z; 0 keeps the image flat */
+  relief: number;
+}
+
+export const DEFAULT_IMAGE_SAMPLE_OPTIONS: ImageSampleOptions = {
+  mode: IMAGE_CONFIG.DEFAULT_MODE,
+  density: IMAGE_CONFIG.DENSITY,
+  threshold: IMAGE_CONFIG.THRESHOLD,
+  relief: IMAGE_CONFIG.RELIEF,
+};
+
+/**
+ * Samples an image into particle positions and colors
+ *
+ * The image is fitted into a IMAGE_CONFIG.CANVAS_SIZE canvas, keeping its
+ * aspect ratio, and sampled on a grid whose spacing follows the density.
+ * Each sample is jittered within its grid cell so the formation does not
+ * look like a screen, keeps its pixel's color, and is placed so the longer
+ * side of the image spans IMAGE_CONFIG.SIZE, centered on the origin. With a
+ * relief, bright pixels come forward and dark ones recede. Samples beyond
+ * `maxPoints` are dropped at random, thinning the image evenly.
+ *
+ * @param image - Decoded image (an <img>, bitmap or canvas)
+ * @param width - Natural width of the image
+ * @param height - Natural height of the image
+ * @param options - Sampling mode, density, threshold and relief
+ * @param maxPoints - Most samples to keep (default the particle count)
+ * @returns One point and one color per sample
+ * @throws Error if the canvas context cannot be created or no pixel passes the threshold
+ *
+ * @example
+ * ```ts
+ * const { points, colors } = sampleImage(img, img.naturalWidth, img.naturalHeight, {
+ *   ...DEFAULT_IMAGE_SAMPLE_OPTIONS,
+ *   relief: 10,
+ * });
+ * ```
+ */
+export function sampleImage(
+  image: CanvasImageSource,
+  width: number,
+  height: number,
+  options: ImageSampleOptions = DEFAULT_IMAGE_SAMPLE_OPTIONS,
+  maxPoints: number = PARTICLE_CONFIG.COUNT
+): ImageSample {
+  const { mode, density, threshold, relief } = options;
+
+  // Fit the image into the canvas; images without a size (some SVGs) fill it
+  const fit = IMAGE_CONFIG.CANVAS_SIZE / Math.max(width, height, 1);
+  const canvasWidth = Math.max(
+    Math.round(width > 0 ? width * fit : IMAGE_CONFIG.CANVAS_SIZE),
+    1
+  );
+  const canvasHeight = Math.max(
+    Math.round(height > 0 ? height * fit : IMAGE_CONFIG.CANVAS_SIZE),
+    1
+  );
+
+  const canvas = document.createElement('canvas');
+  canvas.width = canvasWidth;
+  canvas.height = canvasHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Failed to get canvas 2D context for image sampling');
+  }
+
+  ctx.drawImage(image, 0, 0, canvasWidth, canvasHeight);
+  const data = ctx.getImageData(0, 0, canvasWidth, canvasHeight).data;
+
+  const step = 1 / THREE.MathUtils.clamp(density, 0.01, 1);
+  const scale = IMAGE_CONFIG.SIZE / Math.max(canvasWidth, canvasHeight);
+  const points: THREE.Vector3[] = [];
+  const colors: THREE.Color[] = [];
+
+  for (let gy = 0; gy < canvasHeight; gy += step) {
+    for (let gx = 0; gx < canvasWidth; gx += step) {
+      const x = Math.min(gx + Math.random() * step, canvasWidth - 1);
+      const y = Math.min(gy + Math.random() * step, canvasHeight - 1);
+      const pixelIndex = (Math.floor(y) * canvasWidth + Math.floor(x)) * 4;
+
+      const r = data[pixelIndex] / 255;
+      const g = data[pixelIndex + 1] / 255;
+      const b = data[pixelIndex + 2] / 255;
+      const alpha = data[pixelIndex + 3] / 255;
+      const luminance = (0.2126 * r + 0.7152 * g + 0.0722 * b) * alpha;
+
+      if ((mode === 'alpha' ? alpha : luminance) < threshold) continue;
+
+      points.push(
+        new THREE.Vector3(
+          (x - canvasWidth / 2) * scale,
+          -(y - canvasHeight / 2) * scale, // Canvas Y points down
+          (luminance - 0.5) * relief
+        )
+      );
+      // Pixels are sRGB; particle colors are linear like the shape colors
+      colors.push(new THREE.Color().setRGB(r, g, b, THREE.SRGBColorSpace));
+    }
+  }
+
+  if (points.length === 0) {
+    throw new Error('No pixels above the sampling threshold');
+  }
+
+  // Keep a random subset (partial Fisher-Yates shuffle)
+  const kept = Math.min(points.length, maxPoints);
+  for (let i = 0; i < kept; i++) {
+    const j = i + Math.floor(Math.random() * (points.length - i));
+    [points[i], points[j]] = [points[j], points[i]];
+    [colors[i], colors[j]] = [colors[j], colors[i]];
+  }
+
+  return { points: points.slice(0, kept), colors: colors.slice(0, kept) };
+}
+
+export {};
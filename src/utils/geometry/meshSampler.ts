@@ -0,0 +1,224 @@
+/**
+ * Mesh Sampling Utility
+ *
+ * Scatters particle positions uniformly over the surface of loaded 3D models
+ * and fits them to the scene scale.
+ */
+
+import * as THREE from 'three';
+import { SHAPE_CONFIG } from '@/config/constants';
+
+/**
+ * Points sampled from a model, with the model's vertex colors if it has any
+ */
+export interface MeshSample {
+  points: THREE.Vector3[];
+  /** Color of each point, or null if the model has no vertex colors */
+  colors: THREE.Color[] | null;
+}
+
+/**
+ * Triangles (or, for point clouds, single vertices) collected from a model
+ * in world space
+ */
+interface SurfaceData {
+  /** Triangle corners (or points) as [x,y,z,...] */
+  positions: number[];
+  /** Corner colors as [r,g,b,...], parallel to positions */
+  colors: number[];
+  hasColors: boolean;
+  /** 3 for triangles, 1 for point clouds */
+  stride: 1 | 3;
+}
+
+/**
+ * Samples points uniformly over the surface of a model
+ *
+ * Every mesh in the object tree contributes its triangles, in world space.
+ * A triangle is picked with probability proportional to its area, then a
+ * point inside it uniformly, so dense and sparse parts of the mesh get the
+ * same particle density. Vertex colors are interpolated at each point.
+ *
+ * Models without triangles (point cloud PLY files) are sampled from their
+ * vertices instead. The result is centered on the origin and scaled so its
+ * farthest point lies at `radius`.
+ *
+ * @param object - Loaded model (a Mesh, Points or any Group of them)
+ * @param count - Number of points to sample
+ * @param radius - Radius the model is fitted to (default from config)
+ * @returns Exactly `count` points, with colors if the model has vertex colors
+ * @throws Error if the model contains no triangles or points
+ *
+ * @example
+ * ```ts
+ * const gltf = await new GLTFLoader().parseAsync(buffer, '');
+ * const { points, colors } = sampleMeshSurface(gltf.scene, 10000);
+ * ```
+ */
+export function sampleMeshSurface(
+  object: THREE.Object3D,
+  count: number,
+  radius: number = SHAPE_CONFIG.SPHERE_RADIUS
+): MeshSample {
+  const triangles = collectSurface(object, 3);
+  const surface = triangles.positions.length > 0 ? triangles : collectSurface(object, 1);
+  if (surface.positions.length === 0) {
+    throw new Error('Model has no surface to sample');
+  }
+
+  const { positions, colors, hasColors, stride } = surface;
+  const elements = positions.length / (stride * 3);
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+
+  // Cumulative triangle areas, for picking triangles by area
+  const cumulative = new Float64Array(elements);
+  let total = 0;
+  for (let e = 0; e < elements; e++) {
+    if (stride === 3) {
+      const o = e * 9;
+      a.fromArray(positions, o);
+      b.fromArray(positions, o + 3).sub(a);
+      c.fromArray(positions, o + 6).sub(a);
+      total += b.cross(c).length() / 2;
+    } else {
+      total += 1;
+    }
+    cumulative[e] = total;
+  }
+  if (total === 0) {
+    throw new Error('Model has no surface to sample');
+  }
+
+  const points: THREE.Vector3[] = [];
+  const pointColors: THREE.Color[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const e = pickElement(cumulative, Math.random() * total);
+    const o = e * stride * 3;
+
+    // Uniform barycentric coordinates (u, v, w)
+    let u = 1;
+    let v = 0;
+    let w = 0;
+    if (stride === 3) {
+      const r1 = Math.sqrt(Math.random());
+      const r2 = Math.random();
+      u = 1 - r1;
+      v = r1 * (1 - r2);
+      w = r1 * r2;
+    }
+
+    points.push(interpolate(positions, o, stride, u, v, w, new THREE.Vector3()));
+    if (hasColors) {
+      const rgb = interpolate(colors, o, stride, u, v, w, new THREE.Vector3());
+      pointColors.push(new THREE.Color(rgb.x, rgb.y, rgb.z));
+    }
+  }
+
+  fitToRadius(points, radius);
+
+  return { points, colors: hasColors ? pointColors : null };
+}
+
+/**
+ * Gathers the triangles (stride 3) or vertices (stride 1) of every mesh or
+ * point cloud under an object, transformed into world space
+ */
+function collectSurface(object: THREE.Object3D, stride: 1 | 3): SurfaceData {
+  const surface: SurfaceData = { positions: [], colors: [], hasColors: false, stride };
+  const withColors: boolean[] = [];
+  const vertex = new THREE.Vector3();
+
+  object.updateMatrixWorld(true);
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh || child instanceof THREE.Points)) return;
+    if (stride === 3 && !(child instanceof THREE.Mesh)) return;
+
+    const geometry: THREE.BufferGeometry = child.geometry;
+    const position = geometry.getAttribute('position');
+    if (!position) return;
+
+    const color = geometry.getAttribute('color');
+    const index = geometry.getIndex();
+    const corners = index && stride === 3 ? index.count : position.count;
+    const length = corners - (corners % stride);
+
+    for (let k = 0; k < length; k++) {
+      const j = index && stride === 3 ? index.getX(k) : k;
+      vertex.fromBufferAttribute(position, j).applyMatrix4(child.matrixWorld);
+      surface.positions.push(vertex.x, vertex.y, vertex.z);
+
+      if (color) {
+        surface.colors.push(color.getX(j), color.getY(j), color.getZ(j));
+      } else {
+        surface.colors.push(1, 1, 1);
+      }
+    }
+    withColors.push(Boolean(color) && length > 0);
+  });
+
+  surface.hasColors = withColors.some(Boolean);
+  return surface;
+}
+
+/**
+ * Index of the first cumulative value above `value` (binary search)
+ */
+function pickElement(cumulative: Float64Array, value: number): number {
+  let low = 0;
+  let high = cumulative.length - 1;
+
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (cumulative[mid] <= value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low;
+}
+
+/**
+ * Blends a triangle's three corner values (or copies a single point's value)
+ */
+function interpolate(
+  values: number[],
+  offset: number,
+  stride: 1 | 3,
+  u: number,
+  v: number,
+  w: number,
+  target: THREE.Vector3
+): THREE.Vector3 {
+  if (stride === 1) {
+    return target.fromArray(values, offset);
+  }
+
+  return target.set(
+    values[offset] * u + values[offset + 3] * v + values[offset + 6] * w,
+    values[offset + 1] * u + values[offset + 4] * v + values[offset + 7] * w,
+    values[offset + 2] * u + values[offset + 5] * v + values[offset + 8] * w
+  );
+}
+
+/**
+ * Centers points on the origin and scales them so the farthest lies at `radius`
+ */
+function fitToRadius(points: THREE.Vector3[], radius: number): void {
+  const center = new THREE.Box3().setFromPoints(points).getCenter(new THREE.Vector3());
+  let farthest = 0;
+  for (const point of points) {
+    farthest = Math.max(farthest, point.sub(center).length());
+  }
+
+  const scale = farthest > 0 ? radius / farthest : 1;
+  for (const point of points) {
+    point.multiplyScalar(scale);
+  }
+}
+
+export {};
@@ -0,0 +1,462 @@
+/**
+ * Parametric Shape Library
+ *
+ * Generates particle coordinates for parametric formations: cube, torus,
+ * DNA helix, heart, spiral galaxy, Möbius strip, Lissajous knot and wave
+ * grid. Every generator returns exactly `count` points and takes an options
+ * object whose fields all have defaults sized to match the sphere.
+ */
+
+import * as THREE from 'three';
+
+/**
+ * Options for getCubeCoordinates
+ */
+export interface CubeOptions {
+  /** Half-width of the cube (default 24) */
+  size?: number;
+}
+
+/**
+ * Options for getTorusCoordinates
+ */
+export interface TorusOptions {
+  /** Distance from the center to the middle of the tube (default 25) */
+  majorRadius?: number;
+  /** Radius of the tube (default 9) */
+  minorRadius?: number;
+}
+
+/**
+ * Options for getHelixCoordinates
+ */
+export interface HelixOptions {
+  /** Radius of the strands (default 14) */
+  radius?: number;
+  /** Length along the y axis (default 70) */
+  height?: number;
+  /** Full turns over the height (default 2.5) */
+  turns?: number;
+  /** Number of strands, evenly offset around the axis (default 2) */
+  strands?: number;
+  /** Fraction of points on rungs between the first two strands (default 0.25) */
+  rungFraction?: number;
+  /** Number of rungs (default 24) */
+  rungs?: number;
+}
+
+/**
+ * Options for getHeartCoordinates
+ */
+export interface HeartOptions {
+  /** Scale of the heart curve (default 1.8, about 58 units wide) */
+  scale?: number;
+  /** Thickness at the center (default 14) */
+  depth?: number;
+}
+
+/**
+ * Options for getGalaxyCoordinates
+ */
+export interface GalaxyOptions {
+  /** Number of spiral arms (default 3) */
+  arms?: number;
+  /** Outer radius (default 40) */
+  radius?: number;
+  /** Turns each arm makes from the core to the rim (default 0.8) */
+  twist?: number;
+  /** Fraction of points in the central bulge (default 0.2) */
+  coreFraction?: number;
+  /** Angular spread around each arm in radians (default 0.35) */
+  spread?: number;
+  /** Disk thickness at the core (default 4) */
+  thickness?: number;
+}
+
+/**
+ * Options for getMobiusCoordinates
+ */
+export interface MobiusOptions {
+  /** Radius of the center line (default 25) */
+  radius?: number;
+  /** Width of the strip (default 16) */
+  width?: number;
+}
+
+/**
+ * Options for getLissajousKnotCoordinates
+ */
+export interface LissajousKnotOptions {
+  /** Frequencies along x, y and z; pairwise coprime for a knot (default [3, 2, 5]) */
+  frequencies?: [number, number, number];
+  /** Phases along x, y and z in radians (default [0.7, 0.2, 0]) */
+  phases?: [number, number, number];
+  /** Half-extent of the knot (default 30) */
+  size?: number;
+  /** Radius of the tube around the curve (default 1.5) */
+  thickness?: number;
+}
+
+/**
+ * Options for getWaveGridCoordinates
+ */
+export interface WaveGridOptions {
+  /** Width and height of the grid (default 70) */
+  size?: number;
+  /** Height of the wave crests (default 6) */
+  amplitude?: number;
+  /** Wave periods across the grid (default 2) */
+  frequency?: number;
+}
+
+/**
+ * Plastic number, the basis of the R2 low-discrepancy sequence
+ */
+const PLASTIC = 1.324717957244746;
+
+/**
+ * i-th point of the R2 sequence in the unit square
+ *
+ * Any prefix of the sequence covers the square evenly, so generators stay
+ * even at every particle count.
+ */
+function r2(i: number): [number, number] {
+  return [(0.5 + i / PLASTIC) % 1, (0.5 + i / (PLASTIC * PLASTIC)) % 1];
+}
+
+/**
+ * Normally distributed random number (Box-Muller)
+ */
+function gaussian(): number {
+  return (
+    Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random())
+  );
+}
+
+/**
+ * Generates coordinates on the surface of a cube
+ *
+ * Points are dealt to the six faces in turn and spread over each face by
+ * a low-discrepancy sequence.
+ *
+ * @param count - Number of points to generate
+ * @param options - Cube size
+ * @returns Exactly `count` points on the cube surface
+ *
+ * @example
+ * ```ts
+ * const cube = getCubeCoordinates(10000, { size: 20 });
+ * ```
+ */
+export function getCubeCoordinates(
+  count: number,
+  { size = 24 }: CubeOptions = {}
+): THREE.Vector3[] {
+  const coords: THREE.Vector3[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const [a, b] = r2(Math.floor(i / 6));
+    const u = (a * 2 - 1) * size;
+    const v = (b * 2 - 1) * size;
+
+    // Position based on which face the point belongs to
+    switch (i % 6) {
+      case 0: // Front
+        coords.push(new THREE.Vector3(u, v, size));
+        break;
+      case 1: // Back
+        coords.push(new THREE.Vector3(u, v, -size));
+        break;
+      case 2: // Top
+        coords.push(new THREE.Vector3(u, size, v));
+        break;
+      case 3: // Bottom
+        coords.push(new THREE.Vector3(u, -size, v));
+        break;
+      case 4: // Right
+        coords.push(new THREE.Vector3(size, u, v));
+        break;
+      default: // Left
+        coords.push(new THREE.Vector3(-size, u, v));
+    }
+  }
+
+  return coords;
+}
+
+/**
+ * Generates coordinates on the surface of a torus (donut)
+ *
+ * @param count - Number of points to generate
+ * @param options - Ring and tube radii
+ * @returns Exactly `count` points on the torus surface
+ */
+export function getTorusCoordinates(
+  count: number,
+  { majorRadius = 25, minorRadius = 9 }: TorusOptions = {}
+): THREE.Vector3[] {
+  const coords: THREE.Vector3[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const [a, b] = r2(i);
+    const u = a * Math.PI * 2;
+    const v = b * Math.PI * 2;
+    const ring = majorRadius + minorRadius * Math.cos(v);
+
+    coords.push(
+      new THREE.Vector3(ring * Math.cos(u), ring * Math.sin(u), minorRadius * Math.sin(v))
+    );
+  }
+
+  return coords;
+}
+
+/**
+ * Generates coordinates for a helix, by default a DNA double helix
+ *
+ * Strands wind around the y axis; with two or more strands, `rungFraction`
+ * of the points form straight rungs between the first two, like base pairs.
+ *
+ * @param count - Number of points to generate
+ * @param options - Helix dimensions, strands and rungs
+ * @returns Exactly `count` points along the strands and rungs
+ *
+ * @example
+ * ```ts
+ * const spring = getHelixCoordinates(10000, { strands: 1, turns: 6 });
+ * ```
+ */
+export function getHelixCoordinates(
+  count: number,
+  {
+    radius = 14,
+    height = 70,
+    turns = 2.5,
+    strands = 2,
+    rungFraction = 0.25,
+    rungs = 24,
+  }: HelixOptions = {}
+): THREE.Vector3[] {
+  const coords: THREE.Vector3[] = [];
+  const rungCount = strands >= 2 && rungs > 0 ? Math.floor(count * rungFraction) : 0;
+  const strandCount = count - rungCount;
+  const angleAt = (t: number) => t * turns * Math.PI * 2;
+
+  for (let i = 0; i < strandCount; i++) {
+    const strand = i % strands;
+    const t = (Math.floor(i / strands) * strands) / strandCount;
+    const angle = angleAt(t) + (strand / strands) * Math.PI * 2;
+
+    coords.push(
+      new THREE.Vector3(
+        radius * Math.cos(angle),
+        (t - 0.5) * height,
+        radius * Math.sin(angle)
+      )
+    );
+  }
+
+  for (let i = 0; i < rungCount; i++) {
+    const [a, b] = r2(i);
+    const t = (Math.floor(a * rungs) + 0.5) / rungs;
+    const angle = angleAt(t);
+    const reach = b * 2 - 1; // -1 to 1, strand to strand
+
+    coords.push(
+      new THREE.Vector3(
+        radius * reach * Math.cos(angle),
+        (t - 0.5) * height,
+        radius * reach * Math.sin(angle)
+      )
+    );
+  }
+
+  return coords;
+}
+
+/**
+ * Generates coordinates on the surface of a puffy heart
+ *
+ * The outline is the classic heart curve; the front and back bulge out
+ * like a pillow, thickest at the center.
+ *
+ * @param count - Number of points to generate
+ * @param options - Heart scale and depth
+ * @returns Exactly `count` points on the heart surface
+ */
+export function getHeartCoordinates(
+  count: number,
+  { scale = 1.8, depth = 14 }: HeartOptions = {}
+): THREE.Vector3[] {
+  const coords: THREE.Vector3[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const [a, b] = r2(i >> 1);
+    const t = a * Math.PI * 2;
+    const s = Math.sqrt(b); // Uniform over the area
+
+    // Heart curve, centered vertically
+    const x = 16 * Math.pow(Math.sin(t), 3);
+    const y =
+      13 * Math.cos(t) -
+      5 * Math.cos(2 * t) -
+      2 * Math.cos(3 * t) -
+      Math.cos(4 * t) +
+      2.5;
+    const z = (depth / 2) * Math.sqrt(1 - s * s) * (i % 2 === 0 ? 1 : -1);
+
+    coords.push(new THREE.Vector3(x * s * scale, y * s * scale, z));
+  }
+
+  return coords;
+}
+
+/**
+ * Generates coordinates for a spiral galaxy seen face-on
+ *
+ * A dense central bulge plus logarithmic-looking arms that trail around the
+ * core; the disk thins out towards the rim.
+ *
+ * @param count - Number of points to generate
+ * @param options - Arms, size and shape of the galaxy
+ * @returns Exactly `count` points in the galaxy
+ */
+export function getGalaxyCoordinates(
+  count: number,
+  {
+    arms = 3,
+    radius = 40,
+    twist = 0.8,
+    coreFraction = 0.2,
+    spread = 0.35,
+    thickness = 4,
+  }: GalaxyOptions = {}
+): THREE.Vector3[] {
+  const coords: THREE.Vector3[] = [];
+  const coreCount = Math.floor(count * coreFraction);
+
+  for (let i = 0; i < count; i++) {
+    if (i < coreCount) {
+      const bulge = radius * 0.15;
+      coords.push(
+        new THREE.Vector3(
+          gaussian() * bulge,
+          gaussian() * bulge,
+          gaussian() * bulge * 0.6
+        )
+      );
+      continue;
+    }
+
+    // Denser towards the core
+    const r = radius * Math.pow(Math.random(), 0.7);
+    const arm = i % arms;
+    const angle =
+      (arm / arms) * Math.PI * 2 +
+      (r / radius) * twist * Math.PI * 2 +
+      gaussian() * spread * (1 - (r / radius) * 0.5);
+    const z = gaussian() * thickness * (1 - r / radius) * 0.5;
+
+    coords.push(new THREE.Vector3(r * Math.cos(angle), r * Math.sin(angle), z));
+  }
+
+  return coords;
+}
+
+/**
+ * Generates coordinates on a Möbius strip
+ *
+ * @param count - Number of points to generate
+ * @param options - Strip radius and width
+ * @returns Exactly `count` points on the strip
+ */
+export function getMobiusCoordinates(
+  count: number,
+  { radius = 25, width = 16 }: MobiusOptions = {}
+): THREE.Vector3[] {
+  const coords: THREE.Vector3[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const [a, b] = r2(i);
+    const u = a * Math.PI * 2;
+    const v = (b - 0.5) * width;
+    const ring = radius + v * Math.cos(u / 2);
+
+    coords.push(
+      new THREE.Vector3(ring * Math.cos(u), ring * Math.sin(u), v * Math.sin(u / 2))
+    );
+  }
+
+  return coords;
+}
+
+/**
+ * Generates coordinates along a Lissajous knot
+ *
+ * The curve is (cos(nx·t + φx), cos(ny·t + φy), cos(nz·t + φz)); points are
+ * spread evenly along it and scattered within a thin tube.
+ *
+ * @param count - Number of points to generate
+ * @param options - Frequencies, phases, size and tube thickness
+ * @returns Exactly `count` points along the knot
+ */
+export function getLissajousKnotCoordinates(
+  count: number,
+  {
+    frequencies = [3, 2, 5],
+    phases = [0.7, 0.2, 0],
+    size = 30,
+    thickness = 1.5,
+  }: LissajousKnotOptions = {}
+): THREE.Vector3[] {
+  const coords: THREE.Vector3[] = [];
+  const [nx, ny, nz] = frequencies;
+  const [px, py, pz] = phases;
+
+  for (let i = 0; i < count; i++) {
+    const t = (i / count) * Math.PI * 2;
+
+    coords.push(
+      new THREE.Vector3(
+        size * Math.cos(nx * t + px) + gaussian() * thickness * 0.5,
+        size * Math.cos(ny * t + py) + gaussian() * thickness * 0.5,
+        size * Math.cos(nz * t + pz) + gaussian() * thickness * 0.5
+      )
+    );
+  }
+
+  return coords;
+}
+
+/**
+ * Generates a square grid of points displaced by a standing wave
+ *
+ * The grid lies in the xy plane and the wave moves points along z. Rows are
+ * filled in order, so a count that is not a square leaves the last row short.
+ *
+ * @param count - Number of points to generate
+ * @param options - Grid size and wave shape
+ * @returns Exactly `count` grid points
+ */
+export function getWaveGridCoordinates(
+  count: number,
+  { size = 70, amplitude = 6, frequency = 2 }: WaveGridOptions = {}
+): THREE.Vector3[] {
+  const coords: THREE.Vector3[] = [];
+  const columns = Math.max(Math.ceil(Math.sqrt(count)), 2);
+  const rows = Math.max(Math.ceil(count / columns), 2);
+  const k = frequency * Math.PI * 2;
+
+  for (let i = 0; i < count; i++) {
+    const u = (i % columns) / (columns - 1) - 0.5; // -0.5 to 0.5
+    const v = Math.floor(i / columns) / (rows - 1) - 0.5;
+
+    coords.push(
+      new THREE.Vector3(u * size, v * size, amplitude * Math.sin(k * u) * Math.cos(k * v))
+    );
+  }
+
+  return coords;
+}
+
+export {};
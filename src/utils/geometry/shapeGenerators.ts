@@ -1,8 +1,8 @@
 /**
  * Shape Generation Utilities
  *
- * Generates particle coordinates for various 3D shapes including
- * spheres, scatter effects, and other geometric formations.
+ * Generates particle coordinates for the sphere, scatter effects and
+ * initial positions. Parametric formations live in parametricShapes.ts.
  */
 
 import * as THREE from 'three';
@@ -97,88 +97,4 @@ export function getInitialParticlePositions(
   return getScatterCoordinates(count, range);
 }
 
-/**
- * Generates coordinates for a cube shape
- *
- * Creates particles arranged on the surface of a cube.
- *
- * @param count - Target number of points (actual count may vary)
- * @param size - Half-width of the cube
- * @returns Array of 3D coordinates on cube surface
- */
-export function getCubeCoordinates(count: number, size: number = 40): THREE.Vector3[] {
-  const coords: THREE.Vector3[] = [];
-  const pointsPerFace = Math.floor(count / 6);
-  const pointsPerSide = Math.ceil(Math.sqrt(pointsPerFace));
-
-  // Generate points on each face of the cube
-  for (let face = 0; face < 6; face++) {
-    for (let i = 0; i < pointsPerSide; i++) {
-      for (let j = 0; j < pointsPerSide; j++) {
-        const u = (i / (pointsPerSide - 1)) * 2 - 1; // -1 to 1
-        const v = (j / (pointsPerSide - 1)) * 2 - 1; // -1 to 1
-
-        let x: number, y: number, z: number;
-
-        // Position based on which face we're generating
-        switch (face) {
-          case 0: // Front
-            [x, y, z] = [u * size, v * size, size];
-            break;
-          case 1: // Back
-            [x, y, z] = [u * size, v * size, -size];
-            break;
-          case 2: // Top
-            [x, y, z] = [u * size, size, v * size];
-            break;
-          case 3: // Bottom
-            [x, y, z] = [u * size, -size, v * size];
-            break;
-          case 4: // Right
-            [x, y, z] = [size, u * size, v * size];
-            break;
-          case 5: // Left
-            [x, y, z] = [-size, u * size, v * size];
-            break;
-          default:
-            [x, y, z] = [0, 0, 0];
-        }
-
-        coords.push(new THREE.Vector3(x, y, z));
-      }
-    }
-  }
-
-  return coords;
-}
-
-/**
- * Generates coordinates for a torus (donut) shape
- *
- * @param count - Number of points
- * @param majorRadius - Radius from center to tube center
- * @param minorRadius - Radius of the tube
- * @returns Array of 3D coordinates forming a torus
- */
-export function getTorusCoordinates(
-  count: number,
-  majorRadius: number = 30,
-  minorRadius: number = 10
-): THREE.Vector3[] {
-  const coords: THREE.Vector3[] = [];
-
-  for (let i = 0; i < count; i++) {
-    const u = (i / count) * Math.PI * 2;
-    const v = ((i * 7) % count / count) * Math.PI * 2; // Prime number for distribution
-
-    const x = (majorRadius + minorRadius * Math.cos(v)) * Math.cos(u);
-    const y = (majorRadius + minorRadius * Math.cos(v)) * Math.sin(u);
-    const z = minorRadius * Math.sin(v);
-
-    coords.push(new THREE.Vector3(x, y, z));
-  }
-
-  return coords;
-}
-
 export {};
@@ -0,0 +1,180 @@
+/**
+ * Synthetic Hand Geometry
+ *
+ * Builds a plausible set of 21 MediaPipe-style landmarks from per-finger curl
+ * values, for driving the app without a camera. The geometry is constructed
+ * so GestureRecognizer measures back the same curl that was put in.
+ */
+
+import * as THREE from 'three';
+import type { HandLabel, HandLandmarks } from '@/types/mediapipe';
+import type { FingerCurl, FingerName } from '@/types/shapes';
+import { CAMERA_CONFIG, GESTURE_CONFIG, LANDMARK_INDICES } from '@/config/constants';
+
+/**
+ * Placement of a synthetic hand in the image
+ *
+ * @property x - Middle MCP x position (0-1, unmirrored image coordinates)
+ * @property y - Middle MCP y position (0-1)
+ * @property size - Wrist to middle MCP distance (fraction of image height)
+ * @property label - Which hand to build; mirrors the thumb side
+ * @property aspect - Image width divided by height
+ */
+export interface SyntheticHandOptions {
+  x: number;
+  y: number;
+  size: number;
+  label: HandLabel;
+  aspect?: number;
+}
+
+type LongFinger = Exclude<FingerName, 'thumb'>;
+
+/** MCP positions in palm units: (across, up), index side positive */
+const MCP_POSITIONS: Record<LongFinger, [number, number]> = {
+  index: [0.38, 0.95],
+  middle: [0, 1],
+  ring: [-0.2, 0.95],
+  pinky: [-0.38, 0.85],
+};
+
+/** Proximal, middle and distal phalanx lengths in palm units */
+const PHALANX_LENGTHS: Record<FingerName, [number, number, number]> = {
+  thumb: [0.4, 0.32, 0.28],
+  index: [0.45, 0.27, 0.22],
+  middle: [0.5, 0.3, 0.24],
+  ring: [0.46, 0.28, 0.22],
+  pinky: [0.36, 0.2, 0.18],
+};
+
+/** Share of a finger's total bend taken by the MCP, PIP and DIP joints */
+const JOINT_SHARES = [0.35, 0.4, 0.25];
+
+const THUMB_CMC: [number, number] = [0.25, 0.3];
+
+const FINGER_LANDMARKS: Record<LongFinger, number[]> = {
+  index: [
+    LANDMARK_INDICES.INDEX_MCP,
+    LANDMARK_INDICES.INDEX_PIP,
+    LANDMARK_INDICES.INDEX_DIP,
+    LANDMARK_INDICES.INDEX_TIP,
+  ],
+  middle: [
+    LANDMARK_INDICES.MIDDLE_MCP,
+    LANDMARK_INDICES.MIDDLE_PIP,
+    LANDMARK_INDICES.MIDDLE_DIP,
+    LANDMARK_INDICES.MIDDLE_TIP,
+  ],
+  ring: [
+    LANDMARK_INDICES.RING_MCP,
+    LANDMARK_INDICES.RING_PIP,
+    LANDMARK_INDICES.RING_DIP,
+    LANDMARK_INDICES.RING_TIP,
+  ],
+  pinky: [
+    LANDMARK_INDICES.PINKY_MCP,
+    LANDMARK_INDICES.PINKY_PIP,
+    LANDMARK_INDICES.PINKY_DIP,
+    LANDMARK_INDICES.PINKY_TIP,
+  ],
+};
+
+const THUMB_LANDMARKS = [
+  LANDMARK_INDICES.THUMB_CMC,
+  LANDMARK_INDICES.THUMB_MCP,
+  LANDMARK_INDICES.THUMB_IP,
+  LANDMARK_INDICES.THUMB_TIP,
+];
+
+/**
+ * Builds the 21 landmarks of a hand with the given finger curls
+ *
+ * Long fingers bend towards the palm, in the plane of the palm's up and
+ * normal axes. The thumb sweeps across the palm towards the pinky as it curls.
+ *
+ * @param curl - Curl per finger (0 = extended, 1 = fully curled)
+ * @param options - Position, size and handedness
+ * @returns Landmarks in normalized image coordinates
+ *
+ * @example
+ * ```ts
+ * const fist = buildSyntheticHand(
+ *   { thumb: 1, index: 1, middle: 1, ring: 1, pinky: 1 },
+ *   { x: 0.5, y: 0.5, size: 0.18, label: 'Right' }
+ * );
+ * ```
+ */
+export function buildSyntheticHand(
+  curl: FingerCurl,
+  options: SyntheticHandOptions
+): HandLandmarks {
+  const aspect = options.aspect ?? CAMERA_CONFIG.WIDTH / CAMERA_CONFIG.HEIGHT;
+
+  // Palm axes in aspect-corrected image space: fingers point up the image
+  const across = new THREE.Vector3(options.label === 'Right' ? -1 : 1, 0, 0);
+  const up = new THREE.Vector3(0, -1, 0);
+  const normal = new THREE.Vector3().crossVectors(across, up);
+
+  const wrist = new THREE.Vector3(options.x * aspect, options.y, 0).addScaledVector(
+    up,
+    -options.size
+  );
+
+  // Palm-local (across, up, normal) → image space
+  const toImage = (a: number, u: number, n: number): THREE.Vector3 =>
+    wrist
+      .clone()
+      .addScaledVector(across, a * options.size)
+      .addScaledVector(up, u * options.size)
+      .addScaledVector(normal, n * options.size);
+
+  const points: THREE.Vector3[] = new Array(21);
+  points[LANDMARK_INDICES.WRIST] = wrist;
+
+  // Long fingers: cumulative bend away from the up axis, towards -normal
+  for (const finger of Object.keys(FINGER_LANDMARKS) as LongFinger[]) {
+    const [a, u] = MCP_POSITIONS[finger];
+    const lengths = PHALANX_LENGTHS[finger];
+    const totalBend = curl[finger] * GESTURE_CONFIG.FINGER_FULL_CURL_ANGLE;
+    const indices = FINGER_LANDMARKS[finger];
+
+    let joint = [a, u, 0];
+    let angle = 0;
+    points[indices[0]] = toImage(a, u, 0);
+
+    for (let i = 0; i < 3; i++) {
+      angle += totalBend * JOINT_SHARES[i];
+      joint = [
+        joint[0],
+        joint[1] + lengths[i] * Math.cos(angle),
+        joint[2] - lengths[i] * Math.sin(angle),
+      ];
+      points[indices[i + 1]] = toImage(joint[0], joint[1], joint[2]);
+    }
+  }
+
+  // Thumb: starts along the wrist→CMC direction and rotates towards the pinky
+  const [cmcA, cmcU] = THUMB_CMC;
+  const thumbBend = (curl.thumb * GESTURE_CONFIG.THUMB_FULL_CURL_ANGLE) / 3;
+  let thumbAngle = Math.atan2(cmcU, cmcA);
+  let thumb = [cmcA, cmcU];
+  points[THUMB_LANDMARKS[0]] = toImage(cmcA, cmcU, 0);
+
+  for (let i = 0; i < 3; i++) {
+    thumbAngle += thumbBend;
+    const length = PHALANX_LENGTHS.thumb[i];
+    thumb = [
+      thumb[0] + length * Math.cos(thumbAngle),
+      thumb[1] + length * Math.sin(thumbAngle),
+    ];
+    points[THUMB_LANDMARKS[i + 1]] = toImage(thumb[0], thumb[1], 0);
+  }
+
+  return points.map((point) => ({
+    x: point.x / aspect,
+    y: point.y,
+    z: point.z / aspect,
+  }));
+}
+
+export {};
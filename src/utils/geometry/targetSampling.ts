@@ -0,0 +1,169 @@
+/**
+ * Target Sampling Utilities
+ *
+ * Resamples shape coordinates to exactly the particle count and matches
+ * particles to targets by position, so morphs flow instead of crossing.
+ */
+
+import * as THREE from 'three';
+import { TARGET_CONFIG } from '@/config/constants';
+
+/**
+ * Shape coordinates resampled to a particle count
+ */
+export interface ResampledTargets {
+  points: THREE.Vector3[];
+  /** Index of the original point each point was derived from */
+  sources: Uint32Array;
+}
+
+/**
+ * Resamples coordinates to exactly `count` points without stacking
+ *
+ * Larger sets are thinned evenly in space. Smaller sets keep every original
+ * point and fill the rest with new points spread along the surface: each
+ * lies between two spatially neighboring points (or next to one, across a
+ * gap) plus a small jitter, so no two particles share a spot.
+ *
+ * @param points - Shape coordinates
+ * @param count - Number of points wanted
+ * @param jitter - Random offset as a fraction of the typical point spacing
+ * @returns Exactly `count` points (none if `points` is empty) and their sources
+ *
+ * @example
+ * ```ts
+ * const { points, sources } = resampleTargets(textPoints, 10000);
+ * const colors = Array.from(sources, (s) => textColors[s % textColors.length]);
+ * ```
+ */
+export function resampleTargets(
+  points: THREE.Vector3[],
+  count: number,
+  jitter: number = TARGET_CONFIG.JITTER
+): ResampledTargets {
+  const n = points.length;
+  if (n === 0 || n === count) {
+    return { points: points.slice(), sources: Uint32Array.from(points.keys()) };
+  }
+
+  const order = spatialOrder(points);
+  const resampled: THREE.Vector3[] = new Array(count);
+  const sources = new Uint32Array(count);
+
+  if (n > count) {
+    // Every (n / count)-th point along the space-filling curve
+    for (let i = 0; i < count; i++) {
+      const source = order[Math.floor((i * n) / count)];
+      resampled[i] = points[source];
+      sources[i] = source;
+    }
+    return { points: resampled, sources };
+  }
+
+  for (let i = 0; i < n; i++) {
+    resampled[i] = points[i];
+    sources[i] = i;
+  }
+
+  // Neighbors along the curve are usually neighbors on the surface; the
+  // median gap between them is the typical spacing
+  const gaps = new Float64Array(Math.max(n - 1, 0));
+  for (let k = 0; k < n - 1; k++) {
+    gaps[k] = points[order[k]].distanceTo(points[order[k + 1]]);
+  }
+  const spacing = gaps.length > 0 ? gaps.slice().sort()[gaps.length >> 1] : 0;
+  const offset = new THREE.Vector3();
+
+  for (let i = n; i < count; i++) {
+    const k = Math.floor(Math.random() * n);
+    const source = order[k];
+    const point = points[source].clone();
+
+    // Spread towards the next point unless it lies across a gap
+    if (k < n - 1 && gaps[k] <= spacing * TARGET_CONFIG.SPREAD_LIMIT) {
+      point.lerp(points[order[k + 1]], Math.random());
+    }
+
+    offset.randomDirection().multiplyScalar(spacing * jitter * Math.random());
+    resampled[i] = point.add(offset);
+    sources[i] = source;
+  }
+
+  return { points: resampled, sources };
+}
+
+/**
+ * Matches particles to targets so nearby particles head to nearby targets
+ *
+ * Both sets are sorted along a Morton (Z-order) curve through their own
+ * bounding boxes and paired by rank. This approximates a nearest matching in
+ * O(n log n): the left of one shape flows to the left of the next, the top
+ * to the top.
+ *
+ * @param positions - Current particle positions [x,y,z,...]
+ * @param particles - Indices of the particles to assign
+ * @param targets - Targets, one per particle
+ * @returns For each entry of `particles`, the index of its target
+ */
+export function assignTargets(
+  positions: ArrayLike<number>,
+  particles: ArrayLike<number>,
+  targets: THREE.Vector3[]
+): Uint32Array {
+  const current = Array.from(
+    particles,
+    (p) => new THREE.Vector3(positions[p * 3], positions[p * 3 + 1], positions[p * 3 + 2])
+  );
+  const particleOrder = spatialOrder(current);
+  const targetOrder = spatialOrder(targets);
+  const assignment = new Uint32Array(current.length);
+
+  for (let rank = 0; rank < current.length; rank++) {
+    assignment[particleOrder[rank]] = targetOrder[rank % targetOrder.length];
+  }
+
+  return assignment;
+}
+
+/**
+ * Indices of points sorted along a Morton curve through their bounding box
+ */
+function spatialOrder(points: THREE.Vector3[]): Uint32Array {
+  const box = new THREE.Box3().setFromPoints(points);
+  const size = box.getSize(new THREE.Vector3());
+  const cells = 1023; // 10 bits per axis
+  const quantize = (value: number, min: number, extent: number) =>
+    extent > 0 ? Math.round(((value - min) / extent) * cells) : 0;
+
+  const codes = new Uint32Array(points.length);
+  points.forEach((point, i) => {
+    codes[i] = morton(
+      quantize(point.x, box.min.x, size.x),
+      quantize(point.y, box.min.y, size.y),
+      quantize(point.z, box.min.z, size.z)
+    );
+  });
+
+  return Uint32Array.from(points.keys()).sort((a, b) => codes[a] - codes[b]);
+}
+
+/**
+ * Interleaves the bits of three 10-bit integers (x lowest)
+ */
+function morton(x: number, y: number, z: number): number {
+  return (spreadBits(x) | (spreadBits(y) << 1) | (spreadBits(z) << 2)) >>> 0;
+}
+
+/**
+ * Spaces the 10 low bits of an integer two zero bits apart
+ */
+function spreadBits(value: number): number {
+  let v = value & 0x3ff;
+  v = (v | (v << 16)) & 0x030000ff;
+  v = (v | (v << 8)) & 0x0300f00f;
+  v = (v | (v << 4)) & 0x030c30c3;
+  v = (v | (v << 2)) & 0x09249249;
+  return v;
+}
+
+export {};
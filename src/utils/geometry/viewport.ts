@@ -0,0 +1,67 @@
+/**
+ * Viewport Mapping Utilities
+ *
+ * Converts positions in the displayed video feed into world coordinates on
+ * the z = 0 plane, where the particle formations live.
+ */
+
+import * as THREE from 'three';
+import { CAMERA_CONFIG, SCENE_CONFIG } from '@/config/constants';
+
+/**
+ * Maps a position in the displayed video onto the screen
+ *
+ * The feed is shown with `object-cover`, so whichever axis overflows the
+ * viewport is cropped symmetrically.
+ *
+ * @param point - Position in the video (0-1, y down), already mirrored if the feed is
+ * @param viewportAspect - Viewport width divided by height
+ * @param videoAspect - Video width divided by height
+ * @returns Position on screen (0-1, y down); may fall outside [0, 1] when cropped
+ */
+export function videoToScreen(
+  point: { x: number; y: number },
+  viewportAspect: number,
+  videoAspect: number = CAMERA_CONFIG.WIDTH / CAMERA_CONFIG.HEIGHT
+): { x: number; y: number } {
+  if (viewportAspect > videoAspect) {
+    return { x: point.x, y: 0.5 + (point.y - 0.5) * (viewportAspect / videoAspect) };
+  }
+  return { x: 0.5 + (point.x - 0.5) * (videoAspect / viewportAspect), y: point.y };
+}
+
+/**
+ * Converts a position in the displayed video into world coordinates
+ *
+ * Assumes the scene camera from SCENE_CONFIG: on the axis, looking down -z.
+ *
+ * @param point - Position in the video (0-1, y down), already mirrored if the feed is
+ * @param target - Vector to write the result into
+ * @param viewportAspect - Viewport width divided by height
+ * @returns `target`, set to the point on the z = 0 plane
+ *
+ * @example
+ * ```ts
+ * const anchor = videoToWorld({ x: 0.25, y: 0.5 }, new THREE.Vector3(), innerWidth / innerHeight);
+ * // anchor.x < 0: left half of the screen
+ * ```
+ */
+export function videoToWorld(
+  point: { x: number; y: number },
+  target: THREE.Vector3,
+  viewportAspect: number
+): THREE.Vector3 {
+  const screen = videoToScreen(point, viewportAspect);
+  const halfHeight =
+    SCENE_CONFIG.CAMERA_Z_POSITION *
+    Math.tan(THREE.MathUtils.degToRad(SCENE_CONFIG.CAMERA_FOV / 2));
+  const halfWidth = halfHeight * viewportAspect;
+
+  return target.set(
+    (screen.x - 0.5) * 2 * halfWidth,
+    (0.5 - screen.y) * 2 * halfHeight,
+    0
+  );
+}
+
+export {};
@@ -0,0 +1,194 @@
+/**
+ * Signal Filtering Utilities
+ *
+ * Scalar filters for smoothing noisy per-frame measurements such as
+ * landmark coordinates. Each filter keeps its own state between samples.
+ */
+
+/**
+ * A stateful filter over a single scalar signal
+ */
+export interface ScalarFilter {
+  /**
+   * Filters the next sample
+   *
+   * @param value - Raw measurement
+   * @param timestamp - Sample time in milliseconds
+   * @returns Filtered value
+   */
+  filter(value: number, timestamp: number): number;
+
+  /**
+   * Forgets all history; the next sample passes through unchanged
+   */
+  reset(): void;
+}
+
+/**
+ * Tuning for the One Euro filter
+ *
+ * @property minCutoff - Cutoff frequency (Hz) at rest; lower = smoother but laggier
+ * @property beta - How fast the cutoff rises with speed; higher = less lag on fast motion
+ * @property dCutoff - Cutoff frequency (Hz) for the derivative estimate
+ */
+export interface OneEuroOptions {
+  minCutoff: number;
+  beta: number;
+  dCutoff: number;
+}
+
+/**
+ * Tuning for the constant-velocity Kalman filter
+ *
+ * @property processNoise - Acceleration variance; higher = follows changes faster
+ * @property measurementNoise - Measurement variance; higher = smoother
+ */
+export interface KalmanOptions {
+  processNoise: number;
+  measurementNoise: number;
+}
+
+function smoothingFactor(dt: number, cutoff: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+/**
+ * One Euro filter: an adaptive low-pass filter
+ *
+ * Smooths heavily when the signal is still and lets fast motion through with
+ * little lag, by raising the cutoff frequency with the signal's speed.
+ *
+ * @see https://gery.casiez.net/1euro/
+ *
+ * @example
+ * ```ts
+ * const filter = new OneEuroFilter({ minCutoff: 1.5, beta: 10, dCutoff: 1 });
+ * const smoothX = filter.filter(landmark.x, performance.now());
+ * ```
+ */
+export class OneEuroFilter implements ScalarFilter {
+  private options: OneEuroOptions;
+  private previousValue: number | null = null;
+  private previousDerivative = 0;
+  private previousTimestamp = 0;
+
+  constructor(options: OneEuroOptions) {
+    this.options = options;
+  }
+
+  public filter(value: number, timestamp: number): number {
+    if (this.previousValue === null) {
+      this.previousValue = value;
+      this.previousTimestamp = timestamp;
+      return value;
+    }
+
+    const dt = (timestamp - this.previousTimestamp) / 1000;
+    if (dt <= 0) return this.previousValue;
+
+    const derivative = (value - this.previousValue) / dt;
+    const dAlpha = smoothingFactor(dt, this.options.dCutoff);
+    const smoothDerivative =
+      this.previousDerivative + dAlpha * (derivative - this.previousDerivative);
+
+    const cutoff =
+      this.options.minCutoff + this.options.beta * Math.abs(smoothDerivative);
+    const alpha = smoothingFactor(dt, cutoff);
+    const smoothValue = this.previousValue + alpha * (value - this.previousValue);
+
+    this.previousValue = smoothValue;
+    this.previousDerivative = smoothDerivative;
+    this.previousTimestamp = timestamp;
+
+    return smoothValue;
+  }
+
+  public reset(): void {
+    this.previousValue = null;
+    this.previousDerivative = 0;
+  }
+}
+
+/**
+ * Kalman filter with a constant-velocity motion model
+ *
+ * Tracks position and velocity, predicting forward between samples, so it
+ * follows steady motion without the lag of a plain low-pass filter.
+ *
+ * @example
+ * ```ts
+ * const filter = new KalmanFilter({ processNoise: 1, measurementNoise: 1e-5 });
+ * const smoothY = filter.filter(landmark.y, performance.now());
+ * ```
+ */
+export class KalmanFilter implements ScalarFilter {
+  private options: KalmanOptions;
+  private initialized = false;
+  private previousTimestamp = 0;
+
+  // State estimate [position, velocity]
+  private x = 0;
+  private v = 0;
+
+  // Covariance matrix [[p00, p01], [p01, p11]]
+  private p00 = 1;
+  private p01 = 0;
+  private p11 = 1;
+
+  constructor(options: KalmanOptions) {
+    this.options = options;
+  }
+
+  public filter(value: number, timestamp: number): number {
+    if (!this.initialized) {
+      this.initialized = true;
+      this.x = value;
+      this.v = 0;
+      this.p00 = this.options.measurementNoise;
+      this.p01 = 0;
+      this.p11 = 1;
+      this.previousTimestamp = timestamp;
+      return value;
+    }
+
+    const dt = (timestamp - this.previousTimestamp) / 1000;
+    this.previousTimestamp = timestamp;
+
+    if (dt > 0) {
+      // Predict: x' = F x, P' = F P Fᵀ + Q (white-noise acceleration)
+      const q = this.options.processNoise;
+      this.x += this.v * dt;
+      const p00 = this.p00 + dt * (2 * this.p01 + dt * this.p11) + (q * dt ** 4) / 4;
+      const p01 = this.p01 + dt * this.p11 + (q * dt ** 3) / 2;
+      const p11 = this.p11 + q * dt ** 2;
+      this.p00 = p00;
+      this.p01 = p01;
+      this.p11 = p11;
+    }
+
+    // Update with the position measurement (H = [1, 0])
+    const innovation = value - this.x;
+    const s = this.p00 + this.options.measurementNoise;
+    const k0 = this.p00 / s;
+    const k1 = this.p01 / s;
+
+    this.x += k0 * innovation;
+    this.v += k1 * innovation;
+
+    const p00 = (1 - k0) * this.p00;
+    const p01 = (1 - k0) * this.p01;
+    const p11 = this.p11 - k1 * this.p01;
+    this.p00 = p00;
+    this.p01 = p01;
+    this.p11 = p11;
+
+    return this.x;
+  }
+
+  public reset(): void {
+    this.initialized = false;
+  }
+}
+
+export {};
@@ -0,0 +1,151 @@
+/**
+ * Hand Inference Worker
+ *
+ * Runs MediaPipe Hands off the main thread. Frames arrive as ImageBitmaps and
+ * landmarks are posted back, so slow inference no longer stalls rendering.
+ *
+ * The MediaPipe solution scripts expect a browser window: they load their
+ * wasm loader through <script> tags and create canvases with `document`. A
+ * minimal shim maps those onto importScripts and OffscreenCanvas.
+ */
+
+import type {
+  HandFrame,
+  HandResults,
+  HandsConstructor,
+  HandsInstance,
+} from '@/types/mediapipe';
+import type { InferenceRequest, InferenceResponse } from './handInferenceProtocol';
+
+interface WorkerScope {
+  postMessage(message: InferenceResponse): void;
+  onmessage: ((event: MessageEvent<InferenceRequest>) => void) | null;
+  importScripts(...urls: string[]): void;
+  Hands?: HandsConstructor;
+  window?: unknown;
+  document?: unknown;
+}
+
+const scope = self as unknown as WorkerScope;
+
+let hands: HandsInstance | null = null;
+let latestResults: HandFrame | null = null;
+
+/**
+ * <script> stand-in: "appending" it to the body runs importScripts
+ */
+function createScriptElement() {
+  const listeners: Record<string, (() => void)[]> = { load: [], error: [] };
+  let src = '';
+
+  return {
+    style: {},
+    setAttribute(name: string, value: string) {
+      if (name === 'src') src = value;
+    },
+    addEventListener(type: string, listener: () => void) {
+      listeners[type]?.push(listener);
+    },
+    load() {
+      try {
+        scope.importScripts(src);
+        listeners.load.forEach((listener) => listener());
+      } catch (err) {
+        console.error(`Worker failed to import ${src}:`, err);
+        listeners.error.forEach((listener) => listener());
+      }
+    },
+  };
+}
+
+function installDomShim(): void {
+  scope.window = scope;
+  scope.document = {
+    createElement(tag: string) {
+      if (tag === 'script') return createScriptElement();
+      return Object.assign(new OffscreenCanvas(1, 1), { style: {}, id: '' });
+    },
+    body: {
+      appendChild(node: { load?: () => void }) {
+        node.load?.();
+        return node;
+      },
+    },
+  };
+}
+
+async function initialize(request: Extract<InferenceRequest, { type: 'init' }>) {
+  installDomShim();
+  scope.importScripts(`${request.assetBaseUrl}hands.js`);
+
+  if (!scope.Hands) {
+    throw new Error('hands.js did not define Hands');
+  }
+
+  const detector = new scope.Hands({
+    locateFile: (file: string) => `${request.assetBaseUrl}${file}`,
+  });
+  detector.setOptions(request.options);
+  detector.onResults((results: HandResults) => {
+    latestResults = {
+      multiHandLandmarks: results.multiHandLandmarks,
+      multiHandedness: results.multiHandedness,
+    };
+  });
+  await detector.initialize();
+
+  hands = detector;
+}
+
+async function detect(request: Extract<InferenceRequest, { type: 'frame' }>) {
+  if (!hands) {
+    request.bitmap.close();
+    return;
+  }
+
+  latestResults = null;
+  const start = performance.now();
+
+  try {
+    await hands.send({ image: request.bitmap });
+  } finally {
+    request.bitmap.close();
+  }
+
+  scope.postMessage({
+    type: 'results',
+    id: request.id,
+    frame: latestResults ?? { multiHandLandmarks: [], multiHandedness: [] },
+    inferenceMs: performance.now() - start,
+  });
+}
+
+scope.onmessage = (event) => {
+  const request = event.data;
+
+  let task: Promise<void>;
+  switch (request.type) {
+    case 'init':
+      task = initialize(request).then(() => scope.postMessage({ type: 'ready' }));
+      break;
+    case 'frame':
+      task = detect(request);
+      break;
+    case 'options':
+      hands?.setOptions(request.options);
+      task = Promise.resolve();
+      break;
+    case 'close':
+      hands?.close();
+      hands = null;
+      task = Promise.resolve();
+      break;
+  }
+
+  task.catch((err: unknown) => {
+    scope.postMessage({
+      type: 'error',
+      message: err instanceof Error ? err.message : String(err),
+    });
+  });
+};
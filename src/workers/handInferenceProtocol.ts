@@ -0,0 +1,35 @@
+/**
+ * Hand Inference Worker Protocol
+ *
+ * Messages exchanged between the main thread and handInference.worker.ts.
+ */
+
+import type { HandFrame, HandsOptions } from '@/types/mediapipe';
+
+/**
+ * Main thread → worker
+ *
+ * - init: load hands.js and the model from `assetBaseUrl`
+ * - frame: detect hands in `bitmap` (transferred; the worker closes it)
+ * - options: change detector options without reloading the model
+ * - close: release the detector
+ */
+export type InferenceRequest =
+  | { type: 'init'; assetBaseUrl: string; options: HandsOptions }
+  | { type: 'frame'; id: number; bitmap: ImageBitmap }
+  | { type: 'options'; options: Partial<HandsOptions> }
+  | { type: 'close' };
+
+/**
+ * Worker → main thread
+ *
+ * - ready: the model is loaded and frames can be sent
+ * - error: initialization or detection failed
+ * - results: detections for frame `id`, with time spent in MediaPipe
+ */
+export type InferenceResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | { type: 'results'; id: number; frame: HandFrame; inferenceMs: number };
+
+export {};